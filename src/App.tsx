@@ -9,6 +9,8 @@ import Auth from "./pages/Auth";
 import Dashboard from "./pages/Dashboard";
 import Session from "./pages/Session";
 import History from "./pages/History";
+import TeacherProfile from "./pages/TeacherProfile";
+import ProfileSettings from "./pages/ProfileSettings";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -26,6 +28,8 @@ const App = () => (
             <Route path="/dashboard" element={<Dashboard />} />
             <Route path="/session/:id" element={<Session />} />
             <Route path="/history" element={<History />} />
+            <Route path="/teacher/:id" element={<TeacherProfile />} />
+            <Route path="/settings/profile" element={<ProfileSettings />} />
             <Route path="*" element={<NotFound />} />
           </Routes>
         </BrowserRouter>
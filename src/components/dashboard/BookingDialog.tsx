@@ -0,0 +1,286 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { addDays, format, startOfDay } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { DEFAULT_SESSION_MINUTES } from '@/lib/sessions';
+import { findSpecialization, SubjectTopic } from '@/lib/availability';
+import {
+  BOOKING_WINDOW_DAYS,
+  BusySlot,
+  getAvailableSlots,
+  getBookingErrorMessage,
+  getBrowserTimeZone,
+  ScheduleWindow,
+} from '@/lib/schedule';
+
+export interface BookableTeacher {
+  id: string;
+  full_name: string;
+}
+
+export interface BookableSubject {
+  id: string;
+  name: string;
+  icon: string;
+  session_minutes: number;
+}
+
+interface Topic {
+  id: string;
+  name: string;
+}
+
+interface BookingDialogProps {
+  teacher: BookableTeacher | null;
+  subjects: BookableSubject[];
+  initialSubjectId?: string | null;
+  initialTopicId?: string | null;
+  onClose: () => void;
+}
+
+/** Picks a day and a free slot in the teacher's weekly schedule, shown in the student's timezone. */
+const BookingDialog = ({ teacher, subjects, initialSubjectId, initialTopicId, onClose }: BookingDialogProps) => {
+  const { toast } = useToast();
+  const [windows, setWindows] = useState<ScheduleWindow[]>([]);
+  const [busy, setBusy] = useState<BusySlot[]>([]);
+  const [taught, setTaught] = useState<SubjectTopic[]>([]);
+  const [topics, setTopics] = useState<Topic[]>([]);
+  const [subjectId, setSubjectId] = useState<string | null>(null);
+  const [topicId, setTopicId] = useState<string | null>(null);
+  const [day, setDay] = useState<Date | undefined>();
+  const [slot, setSlot] = useState<Date | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [booking, setBooking] = useState(false);
+
+  const fetchCalendar = useCallback(async (teacherId: string) => {
+    const from = new Date();
+    const [{ data: schedule }, { data: taken }, { data: specializations }] = await Promise.all([
+      supabase.from('teacher_schedule').select('weekday, start_time, end_time, timezone').eq('teacher_id', teacherId),
+      supabase.rpc('get_teacher_busy_slots', {
+        _teacher_id: teacherId,
+        _from: from.toISOString(),
+        _to: addDays(from, BOOKING_WINDOW_DAYS + 1).toISOString(),
+      }),
+      supabase.from('teacher_subjects').select('subject_id, topic_id').eq('teacher_id', teacherId),
+    ]);
+    setWindows(schedule ?? []);
+    setBusy(taken ?? []);
+    setTaught(specializations ?? []);
+  }, []);
+
+  useEffect(() => {
+    if (!teacher) return;
+
+    setSubjectId(initialSubjectId ?? null);
+    setTopicId(initialTopicId ?? null);
+    setDay(undefined);
+    setSlot(null);
+    setLoading(true);
+    fetchCalendar(teacher.id).finally(() => setLoading(false));
+  }, [teacher, initialSubjectId, initialTopicId, fetchCalendar]);
+
+  useEffect(() => {
+    if (!subjectId) {
+      setTopics([]);
+      return;
+    }
+
+    supabase
+      .from('topics')
+      .select('id, name')
+      .eq('subject_id', subjectId)
+      .order('name')
+      .then(({ data }) => setTopics(data ?? []));
+  }, [subjectId]);
+
+  // Only what the teacher teaches can be booked; book_session() rejects anything else
+  const taughtSubjects = subjects.filter((subject) => taught.some((s) => s.subject_id === subject.id));
+  const taughtTopics = topics.filter((topic) => findSpecialization(taught, { subject_id: subjectId, topic_id: topic.id }));
+  const teachesAnyTopic = !!subjectId && !!findSpecialization(taught, { subject_id: subjectId, topic_id: null });
+
+  const minutes = subjects.find((s) => s.id === subjectId)?.session_minutes ?? DEFAULT_SESSION_MINUTES;
+
+  // Days in the booking window with at least one free slot
+  const bookableDays = useMemo(() => {
+    const today = startOfDay(new Date());
+    const days = new Set<string>();
+    for (let offset = 0; offset <= BOOKING_WINDOW_DAYS; offset++) {
+      const candidate = addDays(today, offset);
+      if (getAvailableSlots(windows, candidate, minutes, busy).length > 0) {
+        days.add(format(candidate, 'yyyy-MM-dd'));
+      }
+    }
+    return days;
+  }, [windows, minutes, busy]);
+
+  const slots = useMemo(
+    () => (day ? getAvailableSlots(windows, day, minutes, busy) : []),
+    [windows, day, minutes, busy]
+  );
+
+  const handleBook = async () => {
+    if (!teacher || !subjectId || !slot) return;
+
+    setBooking(true);
+    const { error } = await supabase.rpc('book_session', {
+      _teacher_id: teacher.id,
+      _subject_id: subjectId,
+      _topic_id: topicId,
+      _scheduled_at: slot.toISOString(),
+    });
+    setBooking(false);
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'No se pudo reservar',
+        description: getBookingErrorMessage(error),
+      });
+      setSlot(null);
+      fetchCalendar(teacher.id);
+      return;
+    }
+
+    toast({
+      title: 'Clase reservada',
+      description: `${format(slot, "EEEE d 'de' MMMM, HH:mm", { locale: es })} con ${teacher.full_name}.`,
+    });
+    onClose();
+  };
+
+  return (
+    <Dialog open={!!teacher} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Reservar una clase con {teacher?.full_name}</DialogTitle>
+          <DialogDescription>
+            Los horarios se muestran en tu zona horaria ({getBrowserTimeZone()}).
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid sm:grid-cols-2 gap-3">
+          <Select
+            value={subjectId ?? undefined}
+            onValueChange={(value) => {
+              setSubjectId(value);
+              setTopicId(null);
+              setSlot(null);
+            }}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Materia" />
+            </SelectTrigger>
+            <SelectContent>
+              {taughtSubjects.map((subject) => (
+                <SelectItem key={subject.id} value={subject.id}>
+                  <span className="mr-2">{subject.icon}</span>
+                  {subject.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select
+            value={topicId ?? (teachesAnyTopic ? 'any' : undefined)}
+            onValueChange={(value) => setTopicId(value === 'any' ? null : value)}
+            disabled={taughtTopics.length === 0}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Tema" />
+            </SelectTrigger>
+            <SelectContent>
+              {teachesAnyTopic && <SelectItem value="any">Cualquier tema</SelectItem>}
+              {taughtTopics.map((topic) => (
+                <SelectItem key={topic.id} value={topic.id}>
+                  {topic.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-8 h-8 text-primary animate-spin" />
+          </div>
+        ) : windows.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            Este tutor todavía no ha publicado su horario.
+          </p>
+        ) : (
+          <div className="grid sm:grid-cols-[auto_1fr] gap-4">
+            <Calendar
+              mode="single"
+              locale={es}
+              weekStartsOn={1}
+              selected={day}
+              onSelect={(selected) => {
+                setDay(selected);
+                setSlot(null);
+              }}
+              fromDate={new Date()}
+              toDate={addDays(new Date(), BOOKING_WINDOW_DAYS)}
+              disabled={(date) => !bookableDays.has(format(date, 'yyyy-MM-dd'))}
+              className="rounded-lg border border-border"
+            />
+
+            <div>
+              {!day ? (
+                <p className="text-sm text-muted-foreground">Elige un día para ver los horarios libres.</p>
+              ) : (
+                <>
+                  <p className="text-sm font-medium text-foreground mb-2">
+                    {format(day, "EEEE d 'de' MMMM", { locale: es })} · {minutes} min
+                  </p>
+                  <div className="grid grid-cols-3 gap-2 max-h-64 overflow-y-auto pr-1">
+                    {slots.map((option) => (
+                      <Button
+                        key={option.getTime()}
+                        variant={slot?.getTime() === option.getTime() ? 'default' : 'outline'}
+                        size="sm"
+                        onClick={() => setSlot(option)}
+                      >
+                        {format(option, 'HH:mm')}
+                      </Button>
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancelar
+          </Button>
+          <Button onClick={handleBook} disabled={!subjectId || (!topicId && !teachesAnyTopic) || !slot || booking}>
+            {booking && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Reservar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BookingDialog;
@@ -0,0 +1,110 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { CalendarPlus, Check, Copy, Loader2, RefreshCw } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { getCalendarFeedUrl, toWebcalUrl } from '@/lib/calendar';
+
+interface CalendarFeedDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+/** The user's private calendar subscription link, with the option to replace it with a new one. */
+const CalendarFeedDialog = ({ open, onClose }: CalendarFeedDialogProps) => {
+  const { toast } = useToast();
+  const [token, setToken] = useState<string | null>(null);
+  const [rotating, setRotating] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setCopied(false);
+    supabase.rpc('get_calendar_feed_token').then(({ data, error }) => {
+      if (error) console.error('Error loading calendar feed token:', error);
+      setToken(data ?? null);
+    });
+  }, [open]);
+
+  const feedUrl = token ? getCalendarFeedUrl(token) : '';
+
+  const copyUrl = async () => {
+    await navigator.clipboard.writeText(feedUrl);
+    setCopied(true);
+  };
+
+  const rotateToken = async () => {
+    setRotating(true);
+    const { data, error } = await supabase.rpc('rotate_calendar_feed_token');
+    setRotating(false);
+
+    if (error || !data) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'No se pudo generar un nuevo enlace.',
+      });
+      return;
+    }
+
+    setToken(data);
+    setCopied(false);
+    toast({
+      title: 'Enlace renovado',
+      description: 'El enlace anterior ya no funciona. Vuelve a suscribirte con el nuevo.',
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Suscribirse desde tu calendario</DialogTitle>
+          <DialogDescription>
+            Añade este enlace a Google Calendar, Outlook o Apple Calendar para ver tus clases reservadas,
+            en curso y recientes. Es privado: cualquiera que lo tenga puede ver tus sesiones.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!token ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="w-6 h-6 text-primary animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex gap-2">
+              <Input readOnly value={feedUrl} onFocus={(e) => e.target.select()} className="font-mono text-xs" />
+              <Button variant="outline" size="icon" onClick={copyUrl} title="Copiar enlace">
+                {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+              </Button>
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Button asChild className="flex-1">
+                <a href={toWebcalUrl(feedUrl)}>
+                  <CalendarPlus className="w-4 h-4 mr-2" />
+                  Abrir en mi calendario
+                </a>
+              </Button>
+              <Button variant="outline" onClick={rotateToken} disabled={rotating} className="flex-1">
+                {rotating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RefreshCw className="w-4 h-4 mr-2" />}
+                Generar nuevo enlace
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CalendarFeedDialog;
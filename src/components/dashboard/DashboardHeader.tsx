@@ -1,3 +1,4 @@
+import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/lib/auth';
 import { Button } from '@/components/ui/button';
@@ -10,11 +11,13 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
-import { GraduationCap, LogOut, User, History } from 'lucide-react';
+import { GraduationCap, LogOut, User, History, CalendarDays, UserCog } from 'lucide-react';
+import CalendarFeedDialog from './CalendarFeedDialog';
 
 const DashboardHeader = () => {
   const navigate = useNavigate();
   const { profile, signOut } = useAuth();
+  const [showCalendarFeed, setShowCalendarFeed] = useState(false);
 
   const handleSignOut = async () => {
     await signOut();
@@ -80,6 +83,14 @@ const DashboardHeader = () => {
                 <History className="mr-2 h-4 w-4" />
                 Historial
               </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => navigate('/settings/profile')}>
+                <UserCog className="mr-2 h-4 w-4" />
+                Mi perfil
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => setShowCalendarFeed(true)}>
+                <CalendarDays className="mr-2 h-4 w-4" />
+                Calendario
+              </DropdownMenuItem>
               <DropdownMenuItem onClick={handleSignOut} className="text-destructive">
                 <LogOut className="mr-2 h-4 w-4" />
                 Cerrar sesión
@@ -88,6 +99,8 @@ const DashboardHeader = () => {
           </DropdownMenu>
         </div>
       </div>
+
+      <CalendarFeedDialog open={showCalendarFeed} onClose={() => setShowCalendarFeed(false)} />
     </header>
   );
 };
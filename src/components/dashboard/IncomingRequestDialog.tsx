@@ -0,0 +1,113 @@
+import { useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Progress } from '@/components/ui/progress';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2, Phone, PhoneOff } from 'lucide-react';
+import { useCountdown } from '@/hooks/use-countdown';
+import { getRequestDeadline, SESSION_REQUEST_TIMEOUT_SECONDS } from '@/lib/sessions';
+
+export interface SessionRequest {
+  id: string;
+  created_at: string;
+  student: {
+    full_name: string;
+    avatar_url: string | null;
+  };
+  subjects: {
+    name: string;
+    icon: string;
+  };
+  topics: {
+    name: string;
+  } | null;
+}
+
+interface IncomingRequestDialogProps {
+  request: SessionRequest | null;
+  responding: boolean;
+  onAccept: () => void;
+  onDecline: () => void;
+  onExpire: () => void;
+}
+
+const IncomingRequestDialog = ({
+  request,
+  responding,
+  onAccept,
+  onDecline,
+  onExpire,
+}: IncomingRequestDialogProps) => {
+  const remaining = useCountdown(request ? getRequestDeadline(request.created_at) : null);
+
+  useEffect(() => {
+    if (request && remaining === 0 && !responding) {
+      onExpire();
+    }
+  }, [request, remaining, responding, onExpire]);
+
+  const getInitials = (name: string) => {
+    return name.split(' ').map((n) => n[0]).join('').toUpperCase().slice(0, 2);
+  };
+
+  return (
+    <Dialog open={!!request} onOpenChange={(open) => !open && !responding && onDecline()}>
+      <DialogContent
+        className="max-w-sm text-center"
+        onInteractOutside={(e) => e.preventDefault()}
+      >
+        {request && (
+          <>
+            <div className="relative mx-auto mt-2 mb-2">
+              <span className="absolute inset-0 rounded-full bg-primary/30 animate-ping" />
+              <Avatar className="relative h-20 w-20">
+                <AvatarImage src={request.student.avatar_url || undefined} />
+                <AvatarFallback className="bg-primary text-primary-foreground text-2xl">
+                  {getInitials(request.student.full_name)}
+                </AvatarFallback>
+              </Avatar>
+            </div>
+
+            <DialogHeader className="sm:text-center">
+              <DialogTitle>{request.student.full_name} quiere una clase</DialogTitle>
+              <DialogDescription>
+                {request.subjects.icon} {request.subjects.name}
+                {request.topics && ` • ${request.topics.name}`}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-2">
+              <Progress value={(remaining / SESSION_REQUEST_TIMEOUT_SECONDS) * 100} className="h-2" />
+              <p className="text-sm text-muted-foreground">
+                La solicitud expira en {remaining} s
+              </p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <Button variant="destructive" onClick={onDecline} disabled={responding}>
+                <PhoneOff className="w-4 h-4 mr-2" />
+                Rechazar
+              </Button>
+              <Button variant="success" onClick={onAccept} disabled={responding}>
+                {responding ? (
+                  <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                ) : (
+                  <Phone className="w-4 h-4 mr-2" />
+                )}
+                Aceptar
+              </Button>
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default IncomingRequestDialog;
@@ -0,0 +1,76 @@
+import { useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Progress } from '@/components/ui/progress';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { PhoneOff } from 'lucide-react';
+import { useCountdown } from '@/hooks/use-countdown';
+import { getRequestDeadline, OutgoingRequest, SESSION_REQUEST_TIMEOUT_SECONDS } from '@/lib/sessions';
+
+interface OutgoingRequestDialogProps {
+  request: OutgoingRequest | null;
+  onCancel: () => void;
+  onExpire: () => void;
+}
+
+const OutgoingRequestDialog = ({ request, onCancel, onExpire }: OutgoingRequestDialogProps) => {
+  const remaining = useCountdown(request ? getRequestDeadline(request.created_at) : null);
+
+  useEffect(() => {
+    if (request && remaining === 0) {
+      onExpire();
+    }
+  }, [request, remaining, onExpire]);
+
+  const getInitials = (name: string) => {
+    return name.split(' ').map((n) => n[0]).join('').toUpperCase().slice(0, 2);
+  };
+
+  return (
+    <Dialog open={!!request} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent
+        className="max-w-sm text-center"
+        onInteractOutside={(e) => e.preventDefault()}
+      >
+        {request && (
+          <>
+            <div className="relative mx-auto mt-2 mb-2">
+              <span className="absolute inset-0 rounded-full bg-primary/30 animate-ping" />
+              <Avatar className="relative h-20 w-20">
+                <AvatarImage src={request.teacher.avatar_url || undefined} />
+                <AvatarFallback className="bg-primary text-primary-foreground text-2xl">
+                  {getInitials(request.teacher.full_name)}
+                </AvatarFallback>
+              </Avatar>
+            </div>
+
+            <DialogHeader className="sm:text-center">
+              <DialogTitle>Llamando a {request.teacher.full_name}...</DialogTitle>
+              <DialogDescription>
+                Esperando a que el tutor acepte tu solicitud.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-2">
+              <Progress value={(remaining / SESSION_REQUEST_TIMEOUT_SECONDS) * 100} className="h-2" />
+              <p className="text-sm text-muted-foreground">{remaining} s</p>
+            </div>
+
+            <Button variant="destructive" onClick={onCancel}>
+              <PhoneOff className="w-4 h-4 mr-2" />
+              Cancelar solicitud
+            </Button>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default OutgoingRequestDialog;
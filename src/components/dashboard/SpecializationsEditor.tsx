@@ -0,0 +1,218 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Award, ChevronRight, Loader2, Plus, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { ExperienceLevel, experienceLevelLabels } from '@/lib/availability';
+
+type SpecializationRow = Tables<'teacher_subjects'>;
+
+interface Subject {
+  id: string;
+  name: string;
+  icon: string;
+}
+
+interface Topic {
+  id: string;
+  name: string;
+  subject_id: string;
+}
+
+interface SpecializationsEditorProps {
+  teacherId: string;
+  subjects: Subject[];
+  topics: Topic[];
+  specializations: SpecializationRow[];
+  onChange: () => void;
+}
+
+const levels = Object.keys(experienceLevelLabels) as ExperienceLevel[];
+
+/** The subjects and topics a teacher declares they teach, each with their experience level. */
+const SpecializationsEditor = ({ teacherId, subjects, topics, specializations, onChange }: SpecializationsEditorProps) => {
+  const { toast } = useToast();
+  const [subjectId, setSubjectId] = useState<string | null>(null);
+  const [topicId, setTopicId] = useState<string | null>(null);
+  const [level, setLevel] = useState<ExperienceLevel>('intermediate');
+  const [saving, setSaving] = useState(false);
+
+  const subjectTopics = topics.filter((t) => t.subject_id === subjectId);
+
+  const addSpecialization = async () => {
+    if (!subjectId) return;
+
+    setSaving(true);
+    const { error } = await supabase.from('teacher_subjects').insert({
+      teacher_id: teacherId,
+      subject_id: subjectId,
+      topic_id: topicId,
+      experience_level: level,
+    });
+    setSaving(false);
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.code === '23505'
+          ? 'Ya declaraste esa especialidad.'
+          : 'No se pudo guardar la especialidad.',
+      });
+      return;
+    }
+
+    setTopicId(null);
+    onChange();
+  };
+
+  const updateLevel = async (id: string, experienceLevel: ExperienceLevel) => {
+    const { error } = await supabase
+      .from('teacher_subjects')
+      .update({ experience_level: experienceLevel })
+      .eq('id', id);
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'No se pudo actualizar el nivel.',
+      });
+    }
+    onChange();
+  };
+
+  const removeSpecialization = async (id: string) => {
+    const { error } = await supabase.from('teacher_subjects').delete().eq('id', id);
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'No se pudo eliminar la especialidad.',
+      });
+      return;
+    }
+    onChange();
+  };
+
+  return (
+    <div className="bg-card rounded-2xl border border-border p-8 mb-8">
+      <h2 className="text-xl font-semibold text-foreground mb-2 flex items-center gap-2">
+        <Award className="w-5 h-5 text-primary" />
+        Mis especialidades
+      </h2>
+      <p className="text-sm text-muted-foreground mb-6">
+        Solo podrás ofrecer clases de las materias y temas que declares aquí. Los estudiantes verán tu nivel.
+      </p>
+
+      <div className="space-y-2 mb-6">
+        {specializations.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Todavía no has declarado ninguna especialidad.</p>
+        ) : (
+          specializations.map((specialization) => {
+            const subject = subjects.find((s) => s.id === specialization.subject_id);
+            const topic = topics.find((t) => t.id === specialization.topic_id);
+            return (
+              <div key={specialization.id} className="flex items-center gap-3 rounded-xl border border-border px-4 py-2">
+                <div className="flex-1 min-w-0 flex items-center gap-2 text-sm text-foreground">
+                  <span>{subject?.icon}</span>
+                  <span className="font-medium">{subject?.name}</span>
+                  <ChevronRight className="w-4 h-4 text-muted-foreground" />
+                  <span className={topic ? '' : 'text-muted-foreground'}>{topic?.name ?? 'Todos los temas'}</span>
+                </div>
+                <Select
+                  value={specialization.experience_level}
+                  onValueChange={(value) => updateLevel(specialization.id, value as ExperienceLevel)}
+                >
+                  <SelectTrigger className="w-36 h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {levels.map((l) => (
+                      <SelectItem key={l} value={l}>
+                        {experienceLevelLabels[l]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-9 w-9 shrink-0"
+                  onClick={() => removeSpecialization(specialization.id)}
+                  title="Eliminar"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_auto_auto] gap-3">
+        <Select
+          value={subjectId ?? undefined}
+          onValueChange={(value) => {
+            setSubjectId(value);
+            setTopicId(null);
+          }}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Materia" />
+          </SelectTrigger>
+          <SelectContent>
+            {subjects.map((subject) => (
+              <SelectItem key={subject.id} value={subject.id}>
+                <span className="mr-2">{subject.icon}</span>
+                {subject.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={topicId ?? 'all'}
+          onValueChange={(value) => setTopicId(value === 'all' ? null : value)}
+          disabled={!subjectId || subjectTopics.length === 0}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Todos los temas</SelectItem>
+            {subjectTopics.map((topic) => (
+              <SelectItem key={topic.id} value={topic.id}>
+                {topic.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={level} onValueChange={(value) => setLevel(value as ExperienceLevel)}>
+          <SelectTrigger className="sm:w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {levels.map((l) => (
+              <SelectItem key={l} value={l}>
+                {experienceLevelLabels[l]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button onClick={addSpecialization} disabled={!subjectId || saving}>
+          {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+          Añadir
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default SpecializationsEditor;
@@ -1,8 +1,12 @@
-import { useEffect, useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/lib/auth';
 import DashboardHeader from './DashboardHeader';
+import OutgoingRequestDialog from './OutgoingRequestDialog';
+import UpcomingSessions from './UpcomingSessions';
+import BookingDialog, { BookableTeacher } from './BookingDialog';
+import WaitlistStatus from './WaitlistStatus';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
@@ -13,14 +17,24 @@ import {
   ChevronRight, 
   Users,
   Loader2,
-  Search
+  Search,
+  CalendarPlus,
+  Hourglass,
+  Sparkles
 } from 'lucide-react';
 import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { useOnlineTeachers } from '@/hooks/use-teacher-presence';
+import { useWaitlist } from '@/hooks/use-waitlist';
+import { useOutgoingRequest } from '@/hooks/use-outgoing-request';
+import { getSessionClaimErrorMessage, getTutorMatchErrorMessage } from '@/lib/sessions';
+import { experienceLevelLabels, findSpecialization, offerMatches, Specialization } from '@/lib/availability';
 
 interface Subject {
   id: string;
   name: string;
   icon: string;
+  session_minutes: number;
 }
 
 interface Topic {
@@ -29,7 +43,7 @@ interface Topic {
   subject_id: string;
 }
 
-interface AvailableTeacher {
+interface AvailabilityOffer {
   id: string;
   teacher_id: string;
   subject_id: string;
@@ -49,9 +63,37 @@ interface AvailableTeacher {
   } | null;
 }
 
+/** An online teacher with every subject/topic they advertise and the specializations behind them. */
+interface AvailableTeacher {
+  teacher_id: string;
+  profiles: AvailabilityOffer['profiles'];
+  offers: AvailabilityOffer[];
+  specializations: Specialization[];
+}
+
+interface ScheduledTeacher {
+  id: string;
+  full_name: string;
+  avatar_url: string | null;
+  is_verified: boolean;
+}
+
+interface BookingTarget {
+  teacher: BookableTeacher;
+  subjectId: string | null;
+  topicId: string | null;
+}
+
+/** An "Encontrar tutor" search in progress, with the teachers that already declined or timed out. */
+interface TutorMatch {
+  subjectId: string;
+  topicId: string | null;
+  tried: string[];
+}
+
 const StudentDashboard = () => {
-  const navigate = useNavigate();
   const { profile } = useAuth();
+  const { toast } = useToast();
   const [subjects, setSubjects] = useState<Subject[]>([]);
   const [topics, setTopics] = useState<Topic[]>([]);
   const [availableTeachers, setAvailableTeachers] = useState<AvailableTeacher[]>([]);
@@ -59,10 +101,68 @@ const StudentDashboard = () => {
   const [selectedTopic, setSelectedTopic] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
+  const [scheduledTeachers, setScheduledTeachers] = useState<ScheduledTeacher[]>([]);
+  const [bookingTarget, setBookingTarget] = useState<BookingTarget | null>(null);
+  const onlineTeachers = useOnlineTeachers();
+  const waitlist = useWaitlist(profile?.id);
+  const leaveWaitlist = waitlist.leave;
+  const [joiningWaitlist, setJoiningWaitlist] = useState(false);
+  const [matching, setMatching] = useState(false);
+  const matchRef = useRef<TutorMatch | null>(null);
+  // During an "Encontrar tutor" search, a teacher who declines or doesn't answer passes it on to the next one
+  const outgoing = useOutgoingRequest((request, reason) => {
+    if (!matchRef.current) return false;
+
+    toast({
+      title: 'Buscando otro tutor',
+      description: reason === 'declined'
+        ? `${request.teacher.full_name} no puede atenderte ahora.`
+        : `${request.teacher.full_name} no respondió a tiempo.`,
+    });
+    findTutor(matchRef.current);
+    return true;
+  });
+  const setOutgoingRequest = outgoing.setRequest;
+
+  // Sends the request to the best teacher not tried yet; see request_best_teacher()
+  const findTutor = useCallback(async (match: TutorMatch) => {
+    setMatching(true);
+    const { data: session, error } = await supabase.rpc('request_best_teacher', {
+      _subject_id: match.subjectId,
+      _topic_id: match.topicId,
+      _exclude_teacher_ids: match.tried,
+    });
+
+    if (error || !session) {
+      matchRef.current = null;
+      setMatching(false);
+      toast({
+        variant: 'destructive',
+        title: 'No encontramos tutor',
+        description: getTutorMatchErrorMessage(error ?? { message: '' }),
+      });
+      return;
+    }
+
+    const { data: teacher } = await supabase
+      .from('profiles')
+      .select('full_name, avatar_url')
+      .eq('id', session.teacher_id)
+      .single();
+
+    matchRef.current = { ...match, tried: [...match.tried, session.teacher_id] };
+    setMatching(false);
+    setOutgoingRequest({
+      id: session.id,
+      created_at: session.created_at,
+      teacher: teacher ?? { full_name: 'Tu tutor', avatar_url: null },
+    });
+  }, [toast, setOutgoingRequest]);
 
   useEffect(() => {
     fetchSubjects();
     fetchAvailableTeachers();
+    fetchScheduledTeachers();
 
     const channel = supabase
       .channel('teacher-availability-changes')
@@ -80,6 +180,43 @@ const StudentDashboard = () => {
     };
   }, []);
 
+  // Requests the server sends on the student's behalf when a waitlisted subject gets a tutor.
+  // Requests the student sent themselves arrive here too; the claim's own result wins. Either
+  // way the student stops waiting.
+  useEffect(() => {
+    if (!profile) return;
+
+    const channel = supabase
+      .channel(`student-requests-${profile.id}`)
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'sessions',
+        filter: `student_id=eq.${profile.id}`
+      }, async (payload) => {
+        if (payload.new.status !== 'pending' || payload.new.scheduled_at) return;
+
+        const { data: teacher } = await supabase
+          .from('profiles')
+          .select('full_name, avatar_url')
+          .eq('id', payload.new.teacher_id)
+          .single();
+        if (!teacher) return;
+
+        setOutgoingRequest((current) => current ?? {
+          id: payload.new.id,
+          created_at: payload.new.created_at,
+          teacher,
+        });
+        leaveWaitlist();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [profile, leaveWaitlist, setOutgoingRequest]);
+
   useEffect(() => {
     if (selectedSubject) {
       fetchTopics(selectedSubject);
@@ -113,47 +250,122 @@ const StudentDashboard = () => {
       .eq('is_available', true);
     
     if (data) {
-      setAvailableTeachers(data as unknown as AvailableTeacher[]);
+      const teachers = new Map<string, AvailableTeacher>();
+      (data as unknown as AvailabilityOffer[]).forEach((offer) => {
+        const teacher = teachers.get(offer.teacher_id)
+          ?? { teacher_id: offer.teacher_id, profiles: offer.profiles, offers: [], specializations: [] };
+        teacher.offers.push(offer);
+        teachers.set(offer.teacher_id, teacher);
+      });
+
+      if (teachers.size > 0) {
+        const { data: specializations } = await supabase
+          .from('teacher_subjects')
+          .select('teacher_id, subject_id, topic_id, experience_level')
+          .in('teacher_id', [...teachers.keys()]);
+        specializations?.forEach(({ teacher_id, ...specialization }) => {
+          teachers.get(teacher_id)?.specializations.push(specialization);
+        });
+      }
+
+      setAvailableTeachers([...teachers.values()]);
+    }
+  };
+
+  // Teachers who published a weekly schedule, whether or not they are online now
+  const fetchScheduledTeachers = async () => {
+    const { data } = await supabase
+      .from('teacher_schedule')
+      .select('teacher_id, profiles!teacher_schedule_teacher_id_fkey(id, full_name, avatar_url, is_verified)');
+
+    if (data) {
+      const teachers = new Map<string, ScheduledTeacher>();
+      (data as unknown as { profiles: ScheduledTeacher }[]).forEach(({ profiles }) => {
+        if (profiles) teachers.set(profiles.id, profiles);
+      });
+      setScheduledTeachers(
+        [...teachers.values()].sort((a, b) => a.full_name.localeCompare(b.full_name))
+      );
     }
   };
 
+  // The advertised subject that matches what the student is looking for
+  const getMatchingOffer = (teacher: AvailableTeacher) =>
+    teacher.offers.find((offer) => offerMatches(offer, selectedSubject, selectedTopic)) ?? teacher.offers[0];
+
   const handleConnectToTeacher = async (teacher: AvailableTeacher) => {
     if (!profile) return;
 
-    // Create session
-    const { data: session, error } = await supabase
-      .from('sessions')
-      .insert({
-        student_id: profile.id,
-        teacher_id: teacher.profiles.id,
-        subject_id: teacher.subject_id,
-        topic_id: teacher.topic_id,
-        status: 'active',
-        started_at: new Date().toISOString(),
-      })
-      .select()
-      .single();
+    matchRef.current = null;
+
+    // Claim the tutor; the session only becomes active once the teacher accepts it
+    const { data: session, error } = await supabase.rpc('claim_teacher_availability', {
+      _availability_id: getMatchingOffer(teacher).id,
+    });
 
     if (session && !error) {
-      // Remove teacher availability
-      await supabase
-        .from('teacher_availability')
-        .delete()
-        .eq('teacher_id', teacher.profiles.id);
+      setOutgoingRequest({
+        id: session.id,
+        created_at: session.created_at,
+        teacher: {
+          full_name: teacher.profiles.full_name,
+          avatar_url: teacher.profiles.avatar_url,
+        },
+      });
+    } else {
+      toast({
+        variant: 'destructive',
+        title: 'No se pudo conectar',
+        description: getSessionClaimErrorMessage(error ?? { message: '' }),
+      });
+      fetchAvailableTeachers();
+    }
+  };
+
+  const cancelRequest = () => {
+    matchRef.current = null;
+    outgoing.cancel();
+  };
+
+  const startTutorMatch = () => {
+    if (!selectedSubject) return;
+    findTutor({ subjectId: selectedSubject, topicId: selectedTopic, tried: [] });
+  };
+
+  const joinWaitlist = async () => {
+    if (!selectedSubject) return;
+
+    setJoiningWaitlist(true);
+    const error = await waitlist.join(selectedSubject, selectedTopic);
+    setJoiningWaitlist(false);
 
-      navigate(`/session/${session.id}`);
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error,
+      });
     }
   };
 
+  // Availability rows can outlive a closed tab by a few minutes; presence can't
   const filteredTeachers = availableTeachers.filter((teacher) => {
-    const matchesSubject = !selectedSubject || teacher.subject_id === selectedSubject;
-    const matchesTopic = !selectedTopic || teacher.topic_id === selectedTopic;
+    if (onlineTeachers && !onlineTeachers.has(teacher.teacher_id)) return false;
+    const matchesSubjectAndTopic = teacher.offers.some((offer) => offerMatches(offer, selectedSubject, selectedTopic));
+    const query = searchQuery.toLowerCase();
     const matchesSearch = !searchQuery || 
-      teacher.profiles.full_name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      teacher.subjects.name.toLowerCase().includes(searchQuery.toLowerCase());
-    return matchesSubject && matchesTopic && matchesSearch;
+      teacher.profiles.full_name.toLowerCase().includes(query) ||
+      teacher.offers.some((offer) =>
+        offer.subjects.name.toLowerCase().includes(query) ||
+        offer.topics?.name.toLowerCase().includes(query)
+      );
+    return matchesSubjectAndTopic && matchesSearch;
   });
 
+  const filteredScheduledTeachers = scheduledTeachers.filter((teacher) =>
+    !searchQuery || teacher.full_name.toLowerCase().includes(searchQuery.toLowerCase())
+  );
+
   const getInitials = (name: string) => {
     return name.split(' ').map((n) => n[0]).join('').toUpperCase().slice(0, 2);
   };
@@ -161,6 +373,20 @@ const StudentDashboard = () => {
   return (
     <div className="min-h-screen bg-background">
       <DashboardHeader />
+
+      <OutgoingRequestDialog
+        request={outgoing.request}
+        onCancel={cancelRequest}
+        onExpire={outgoing.expire}
+      />
+
+      <BookingDialog
+        teacher={bookingTarget?.teacher ?? null}
+        subjects={subjects}
+        initialSubjectId={bookingTarget?.subjectId}
+        initialTopicId={bookingTarget?.topicId}
+        onClose={() => setBookingTarget(null)}
+      />
       
       <main className="pt-24 pb-12 px-6">
         <div className="container mx-auto max-w-6xl">
@@ -174,6 +400,8 @@ const StudentDashboard = () => {
             </p>
           </div>
 
+          {profile && <UpcomingSessions profileId={profile.id} role="student" />}
+
           {/* Search */}
           <div className="relative mb-8">
             <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
@@ -256,16 +484,30 @@ const StudentDashboard = () => {
 
           {/* Available Teachers */}
           <div>
-            <h2 className="text-lg font-semibold text-foreground mb-4 flex items-center gap-2">
-              <Users className="w-5 h-5 text-primary" />
-              Tutores disponibles ahora
-              <span className="ml-2 flex items-center gap-1">
-                <span className="w-2 h-2 bg-emerald-500 rounded-full animate-pulse" />
-                <span className="text-sm font-normal text-emerald-500">
-                  {filteredTeachers.length} en línea
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+              <h2 className="text-lg font-semibold text-foreground flex items-center gap-2">
+                <Users className="w-5 h-5 text-primary" />
+                Tutores disponibles ahora
+                <span className="ml-2 flex items-center gap-1">
+                  <span className="w-2 h-2 bg-emerald-500 rounded-full animate-pulse" />
+                  <span className="text-sm font-normal text-emerald-500">
+                    {filteredTeachers.length} en línea
+                  </span>
                 </span>
-              </span>
-            </h2>
+              </h2>
+              <Button
+                onClick={startTutorMatch}
+                disabled={!selectedSubject || filteredTeachers.length === 0 || matching || !!outgoing.request}
+                title={selectedSubject ? 'Te conectamos con el mejor tutor disponible' : 'Elige una materia primero'}
+              >
+                {matching ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Sparkles className="w-4 h-4 mr-2" />}
+                Encontrar tutor
+              </Button>
+            </div>
+
+            {waitlist.entry && (
+              <WaitlistStatus entry={waitlist.entry} position={waitlist.position} onLeave={waitlist.leave} />
+            )}
 
             {loading ? (
               <div className="flex items-center justify-center py-12">
@@ -282,14 +524,24 @@ const StudentDashboard = () => {
                 <p className="text-muted-foreground">
                   {selectedSubject 
                     ? 'No hay tutores disponibles para esta materia en este momento.' 
-                    : 'Intenta de nuevo más tarde.'}
+                    : 'Elige una materia para unirte a la lista de espera, o intenta de nuevo más tarde.'}
                 </p>
+                {selectedSubject && !waitlist.entry && (
+                  <Button className="mt-6" onClick={joinWaitlist} disabled={joiningWaitlist}>
+                    {joiningWaitlist ? (
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                      <Hourglass className="w-4 h-4 mr-2" />
+                    )}
+                    Unirme a la lista de espera
+                  </Button>
+                )}
               </div>
             ) : (
               <div className="grid gap-4">
                 {filteredTeachers.map((teacher) => (
                   <div
-                    key={teacher.id}
+                    key={teacher.teacher_id}
                     className="bg-card rounded-2xl border border-border p-6 hover:shadow-lg transition-all duration-300 hover:-translate-y-1"
                   >
                     <div className="flex items-center gap-4">
@@ -306,7 +558,9 @@ const StudentDashboard = () => {
                       <div className="flex-1 min-w-0">
                         <div className="flex items-center gap-2 mb-1">
                           <h3 className="font-semibold text-foreground truncate">
-                            {teacher.profiles.full_name}
+                            <Link to={`/teacher/${teacher.teacher_id}`} className="hover:text-primary hover:underline">
+                              {teacher.profiles.full_name}
+                            </Link>
                           </h3>
                           {teacher.profiles.is_verified && (
                             <Badge variant="secondary" className="text-xs bg-emerald-500/10 text-emerald-600">
@@ -314,18 +568,49 @@ const StudentDashboard = () => {
                             </Badge>
                           )}
                         </div>
-                        <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                          <span>{teacher.subjects.icon}</span>
-                          <span>{teacher.subjects.name}</span>
-                          {teacher.topics && (
-                            <>
-                              <ChevronRight className="w-4 h-4" />
-                              <span>{teacher.topics.name}</span>
-                            </>
-                          )}
+                        <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-muted-foreground">
+                          {teacher.offers.map((offer) => {
+                            const specialization = findSpecialization(teacher.specializations, offer);
+                            return (
+                              <span
+                                key={offer.id}
+                                className={`flex items-center gap-1 ${
+                                  (selectedSubject || selectedTopic) && offerMatches(offer, selectedSubject, selectedTopic)
+                                    ? 'text-foreground font-medium'
+                                    : ''
+                                }`}
+                              >
+                                <span>{offer.subjects.icon}</span>
+                                <span>{offer.subjects.name}</span>
+                                {offer.topics && (
+                                  <>
+                                    <ChevronRight className="w-4 h-4" />
+                                    <span>{offer.topics.name}</span>
+                                  </>
+                                )}
+                                {specialization && (
+                                  <Badge variant="outline" className="ml-1 text-xs font-normal">
+                                    {experienceLevelLabels[specialization.experience_level]}
+                                  </Badge>
+                                )}
+                              </span>
+                            );
+                          })}
                         </div>
                       </div>
 
+                      <Button
+                        variant="outline"
+                        onClick={() => setBookingTarget({
+                          teacher: { id: teacher.teacher_id, full_name: teacher.profiles.full_name },
+                          subjectId: getMatchingOffer(teacher).subject_id,
+                          topicId: getMatchingOffer(teacher).topic_id,
+                        })}
+                        className="shrink-0"
+                        title="Reservar una clase"
+                      >
+                        <CalendarPlus className="w-4 h-4" />
+                      </Button>
                       <Button
                         variant="hero"
                         onClick={() => handleConnectToTeacher(teacher)}
@@ -340,6 +625,55 @@ const StudentDashboard = () => {
               </div>
             )}
           </div>
+
+          {/* Bookable Teachers */}
+          {filteredScheduledTeachers.length > 0 && (
+            <div className="mt-8">
+              <h2 className="text-lg font-semibold text-foreground mb-4 flex items-center gap-2">
+                <CalendarPlus className="w-5 h-5 text-primary" />
+                Reservar una clase
+              </h2>
+              <div className="grid sm:grid-cols-2 gap-3">
+                {filteredScheduledTeachers.map((teacher) => (
+                  <div
+                    key={teacher.id}
+                    className="bg-card rounded-2xl border border-border p-4 flex items-center gap-3"
+                  >
+                    <Avatar className="h-10 w-10">
+                      <AvatarImage src={teacher.avatar_url || undefined} />
+                      <AvatarFallback className="bg-primary text-primary-foreground">
+                        {getInitials(teacher.full_name)}
+                      </AvatarFallback>
+                    </Avatar>
+                    <div className="flex-1 min-w-0 flex items-center gap-2">
+                      <Link
+                        to={`/teacher/${teacher.id}`}
+                        className="font-medium text-foreground truncate hover:text-primary hover:underline"
+                      >
+                        {teacher.full_name}
+                      </Link>
+                      {teacher.is_verified && (
+                        <Badge variant="secondary" className="text-xs bg-emerald-500/10 text-emerald-600">
+                          ✓
+                        </Badge>
+                      )}
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setBookingTarget({
+                        teacher: { id: teacher.id, full_name: teacher.full_name },
+                        subjectId: selectedSubject,
+                        topicId: selectedTopic,
+                      })}
+                    >
+                      Reservar
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
       </main>
     </div>
@@ -0,0 +1,120 @@
+import { Button } from '@/components/ui/button';
+import { findSpecialization, SubjectTopic, toggleSubject, toggleTopic } from '@/lib/availability';
+
+interface Subject {
+  id: string;
+  name: string;
+  icon: string;
+}
+
+interface Topic {
+  id: string;
+  name: string;
+  subject_id: string;
+}
+
+interface SubjectTopicPickerProps {
+  subjects: Subject[];
+  topics: Topic[];
+  value: SubjectTopic[];
+  onChange: (value: SubjectTopic[]) => void;
+  /** When given, only these subjects and topics can be picked. */
+  specializations?: SubjectTopic[];
+  disabled?: boolean;
+}
+
+/** Multi-select of subjects, each with "any topic" or a set of specific topics. */
+const SubjectTopicPicker = ({ subjects, topics, value, onChange, specializations, disabled }: SubjectTopicPickerProps) => {
+  const isAllowed = (subjectId: string, topicId: string | null) =>
+    !specializations || !!findSpecialization(specializations, { subject_id: subjectId, topic_id: topicId });
+
+  const pickableSubjects = specializations
+    ? subjects.filter((subject) => specializations.some((s) => s.subject_id === subject.id))
+    : subjects;
+  const selectedSubjects = pickableSubjects.filter((subject) => value.some((o) => o.subject_id === subject.id));
+
+  // Subjects only declared for some topics start with those topics instead of "any topic"
+  const handleSubject = (subjectId: string) => {
+    if (isAllowed(subjectId, null) || value.some((o) => o.subject_id === subjectId)) {
+      onChange(toggleSubject(value, subjectId));
+      return;
+    }
+    onChange([
+      ...value,
+      ...specializations
+        .filter((s) => s.subject_id === subjectId)
+        .map((s) => ({ subject_id: subjectId, topic_id: s.topic_id })),
+    ]);
+  };
+
+  // Likewise, removing the last topic of such a subject removes the subject
+  const handleTopic = (subjectId: string, topicId: string | null) => {
+    const next = toggleTopic(value, subjectId, topicId);
+    onChange(isAllowed(subjectId, null) ? next : next.filter((o) => o.subject_id !== subjectId || o.topic_id !== null));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        {pickableSubjects.map((subject) => {
+          const selected = value.some((o) => o.subject_id === subject.id);
+          return (
+            <button
+              key={subject.id}
+              type="button"
+              disabled={disabled}
+              onClick={() => handleSubject(subject.id)}
+              className={`p-3 rounded-xl border-2 transition-all text-left flex items-center gap-2 disabled:opacity-60 ${
+                selected
+                  ? 'border-primary bg-primary/5'
+                  : 'border-border hover:border-primary/50 bg-card'
+              }`}
+            >
+              <span className="text-xl">{subject.icon}</span>
+              <span className="text-sm font-medium truncate">{subject.name}</span>
+            </button>
+          );
+        })}
+      </div>
+
+      {selectedSubjects.map((subject) => {
+        const subjectTopics = topics.filter((t) => t.subject_id === subject.id && isAllowed(subject.id, t.id));
+        if (subjectTopics.length === 0) return null;
+
+        const anyTopic = value.some((o) => o.subject_id === subject.id && o.topic_id === null);
+        return (
+          <div key={subject.id}>
+            <p className="text-sm font-medium text-foreground mb-2">
+              {subject.icon} {subject.name}
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <Button
+                type="button"
+                size="sm"
+                variant={anyTopic ? 'default' : 'outline'}
+                disabled={disabled || !isAllowed(subject.id, null)}
+                onClick={() => handleTopic(subject.id, null)}
+              >
+                Cualquier tema
+              </Button>
+              {subjectTopics.map((topic) => (
+                <Button
+                  key={topic.id}
+                  type="button"
+                  size="sm"
+                  variant={value.some((o) => o.topic_id === topic.id) ? 'default' : 'outline'}
+                  disabled={disabled}
+                  onClick={() => handleTopic(subject.id, topic.id)}
+                >
+                  {topic.name}
+                </Button>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default SubjectTopicPicker;
@@ -1,8 +1,15 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
 import { useAuth } from '@/lib/auth';
 import DashboardHeader from './DashboardHeader';
+import IncomingRequestDialog, { SessionRequest } from './IncomingRequestDialog';
+import UpcomingSessions from './UpcomingSessions';
+import WeeklyScheduleEditor from './WeeklyScheduleEditor';
+import SubjectTopicPicker from './SubjectTopicPicker';
+import SpecializationsEditor from './SpecializationsEditor';
+import WaitlistDemand from './WaitlistDemand';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { 
@@ -15,14 +22,10 @@ import {
   Loader2,
   AlertCircle
 } from 'lucide-react';
-import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
+import { SESSION_REQUEST_TIMEOUT_SECONDS } from '@/lib/sessions';
+import { findSpecialization, SubjectTopic } from '@/lib/availability';
+import { useTeacherPresence } from '@/hooks/use-teacher-presence';
 
 interface Subject {
   id: string;
@@ -52,43 +55,49 @@ const TeacherDashboard = () => {
   
   const [subjects, setSubjects] = useState<Subject[]>([]);
   const [topics, setTopics] = useState<Topic[]>([]);
-  const [selectedSubject, setSelectedSubject] = useState<string | null>(null);
-  const [selectedTopic, setSelectedTopic] = useState<string | null>(null);
+  const [offers, setOffers] = useState<SubjectTopic[]>([]);
+  const [specializations, setSpecializations] = useState<Tables<'teacher_subjects'>[]>([]);
   const [isAvailable, setIsAvailable] = useState(false);
   const [loading, setLoading] = useState(true);
   const [toggleLoading, setToggleLoading] = useState(false);
   const [stats, setStats] = useState({ totalSessions: 0, avgRating: 0 });
   const [pendingSession, setPendingSession] = useState<Session | null>(null);
+  const [incomingRequest, setIncomingRequest] = useState<SessionRequest | null>(null);
+  const [respondingToRequest, setRespondingToRequest] = useState(false);
+
+  useTeacherPresence(profile?.id, isAvailable, () => {
+    setIsAvailable(false);
+    toast({
+      title: 'Disponibilidad desactivada',
+      description: 'Estuviste inactivo demasiado tiempo. Vuelve a activarla para recibir estudiantes.',
+    });
+  });
 
   useEffect(() => {
     if (profile) {
       fetchSubjects();
+      fetchTopics();
+      fetchSpecializations();
       fetchAvailability();
       fetchStats();
       checkPendingSession();
+      fetchIncomingRequest();
     }
   }, [profile]);
 
-  useEffect(() => {
-    if (selectedSubject) {
-      fetchTopics(selectedSubject);
-    }
-  }, [selectedSubject]);
-
   useEffect(() => {
     if (!profile) return;
 
     const channel = supabase
       .channel('session-requests')
       .on('postgres_changes', { 
-        event: 'INSERT', 
+        event: '*', 
         schema: 'public', 
         table: 'sessions',
         filter: `teacher_id=eq.${profile.id}`
-      }, (payload) => {
-        if (payload.new.status === 'active') {
-          navigate(`/session/${payload.new.id}`);
-        }
+      }, () => {
+        // New requests arrive as inserts; students cancelling them arrive as updates
+        fetchIncomingRequest();
       })
       .subscribe();
 
@@ -103,29 +112,59 @@ const TeacherDashboard = () => {
     setLoading(false);
   };
 
-  const fetchTopics = async (subjectId: string) => {
+  const fetchTopics = async () => {
     const { data } = await supabase
       .from('topics')
       .select('*')
-      .eq('subject_id', subjectId)
       .order('name');
     if (data) setTopics(data);
   };
 
+  // Offers a specialization no longer covers are dropped from the selection
+  const fetchSpecializations = async () => {
+    if (!profile) return;
+
+    const { data } = await supabase
+      .from('teacher_subjects')
+      .select('*')
+      .eq('teacher_id', profile.id)
+      .order('created_at');
+
+    if (data) {
+      setSpecializations(data);
+      setOffers((current) => current.filter((offer) => findSpecialization(data, offer)));
+    }
+  };
+
+  // Removing a specialization also removes the availability it covered
+  const handleSpecializationsChange = () => {
+    fetchSpecializations();
+    if (isAvailable) fetchAvailability();
+  };
+
+  // What the teacher is advertising right now, or their specializations to start from
   const fetchAvailability = async () => {
     if (!profile) return;
     
     const { data } = await supabase
       .from('teacher_availability')
-      .select('*, subjects(name), topics(name)')
-      .eq('teacher_id', profile.id)
-      .maybeSingle();
+      .select('subject_id, topic_id, is_available')
+      .eq('teacher_id', profile.id);
     
-    if (data) {
-      setIsAvailable(data.is_available);
-      setSelectedSubject(data.subject_id);
-      if (data.topic_id) setSelectedTopic(data.topic_id || null);
+    if (data && data.length > 0) {
+      setIsAvailable(data.some((row) => row.is_available));
+      setOffers(data.map(({ subject_id, topic_id }) => ({ subject_id, topic_id })));
+      return;
     }
+
+    setIsAvailable(false);
+
+    const { data: specializations } = await supabase
+      .from('teacher_subjects')
+      .select('subject_id, topic_id')
+      .eq('teacher_id', profile.id);
+
+    if (specializations) setOffers(specializations);
   };
 
   const fetchStats = async () => {
@@ -167,12 +206,83 @@ const TeacherDashboard = () => {
     }
   };
 
+  const fetchIncomingRequest = useCallback(async () => {
+    if (!profile) return;
+
+    const since = new Date(Date.now() - SESSION_REQUEST_TIMEOUT_SECONDS * 1000).toISOString();
+
+    const { data } = await supabase
+      .from('sessions')
+      .select(`
+        id,
+        created_at,
+        student:profiles!sessions_student_id_fkey(full_name, avatar_url),
+        subjects(name, icon),
+        topics(name)
+      `)
+      .eq('teacher_id', profile.id)
+      .eq('status', 'pending')
+      .is('scheduled_at', null)
+      .gte('created_at', since)
+      .order('created_at')
+      .limit(1)
+      .maybeSingle();
+
+    setIncomingRequest(data as unknown as SessionRequest | null);
+  }, [profile]);
+
+  const acceptRequest = async () => {
+    if (!incomingRequest) return;
+
+    setRespondingToRequest(true);
+
+    const { data: status, error } = await supabase.rpc('accept_session_request', {
+      _session_id: incomingRequest.id,
+    });
+
+    setRespondingToRequest(false);
+
+    if (status === 'active' && !error) {
+      navigate(`/session/${incomingRequest.id}`);
+      return;
+    }
+
+    toast({
+      variant: 'destructive',
+      title: 'Solicitud no disponible',
+      description: 'La solicitud expiró o fue cancelada por el estudiante.',
+    });
+    fetchIncomingRequest();
+  };
+
+  const declineRequest = async () => {
+    if (!incomingRequest) return;
+
+    setRespondingToRequest(true);
+    await supabase.rpc('cancel_session_request', { _session_id: incomingRequest.id });
+    setRespondingToRequest(false);
+    fetchIncomingRequest();
+  };
+
+  const expireRequest = useCallback(async () => {
+    if (!incomingRequest) return;
+
+    await supabase.rpc('cancel_session_request', { _session_id: incomingRequest.id });
+    toast({
+      title: 'Solicitud expirada',
+      description: `No respondiste a tiempo la solicitud de ${incomingRequest.student.full_name}.`,
+    });
+    fetchIncomingRequest();
+  }, [incomingRequest, toast, fetchIncomingRequest]);
+
   const toggleAvailability = async () => {
-    if (!profile || !selectedSubject) {
+    if (!profile || offers.length === 0) {
       toast({
         variant: 'destructive',
         title: 'Error',
-        description: 'Por favor selecciona una materia antes de activar tu disponibilidad.',
+        description: specializations.length === 0
+          ? 'Declara al menos una especialidad antes de activar tu disponibilidad.'
+          : 'Por favor selecciona al menos una materia antes de activar tu disponibilidad.',
       });
       return;
     }
@@ -191,14 +301,20 @@ const TeacherDashboard = () => {
           description: 'Ya no aparecerás como disponible para los estudiantes.',
         });
       } else {
+        // Start from a clean slate: leftovers of a claimed request may still be there
         await supabase
           .from('teacher_availability')
-          .upsert({
+          .delete()
+          .eq('teacher_id', profile.id);
+        const { error } = await supabase
+          .from('teacher_availability')
+          .insert(offers.map((offer) => ({
             teacher_id: profile.id,
-            subject_id: selectedSubject,
-            topic_id: selectedTopic || null,
+            subject_id: offer.subject_id,
+            topic_id: offer.topic_id,
             is_available: true,
-          });
+          })));
+        if (error) throw error;
         setIsAvailable(true);
         toast({
           title: '¡Estás en línea!',
@@ -227,6 +343,14 @@ const TeacherDashboard = () => {
   return (
     <div className="min-h-screen bg-background">
       <DashboardHeader />
+
+      <IncomingRequestDialog
+        request={incomingRequest}
+        responding={respondingToRequest}
+        onAccept={acceptRequest}
+        onDecline={declineRequest}
+        onExpire={expireRequest}
+      />
       
       <main className="pt-24 pb-12 px-6">
         <div className="container mx-auto max-w-4xl">
@@ -268,6 +392,8 @@ const TeacherDashboard = () => {
             </div>
           )}
 
+          {profile && <UpcomingSessions profileId={profile.id} role="teacher" />}
+
           {/* Stats */}
           <div className="grid grid-cols-2 gap-4 mb-8">
             <div className="bg-card rounded-2xl border border-border p-6">
@@ -288,6 +414,18 @@ const TeacherDashboard = () => {
             </div>
           </div>
 
+          <WaitlistDemand subjects={subjects} topics={topics} specializations={specializations} />
+
+          {profile && (
+            <SpecializationsEditor
+              teacherId={profile.id}
+              subjects={subjects}
+              topics={topics}
+              specializations={specializations}
+              onChange={handleSpecializationsChange}
+            />
+          )}
+
           {/* Availability Control */}
           <div className="bg-card rounded-2xl border border-border p-8">
             <h2 className="text-xl font-semibold text-foreground mb-6 flex items-center gap-2">
@@ -296,61 +434,26 @@ const TeacherDashboard = () => {
             </h2>
 
             <div className="space-y-6">
-              {/* Subject Selection */}
+              {/* Subject and Topic Selection */}
               <div>
                 <label className="block text-sm font-medium text-foreground mb-2">
-                  Materia que enseñarás
+                  Materias y temas que enseñarás
                 </label>
-                <Select 
-                  value={selectedSubject} 
-                  onValueChange={(value) => {
-                    setSelectedSubject(value);
-                    setSelectedTopic(null);
-                  }}
-                  disabled={isAvailable}
-                >
-                  <SelectTrigger className="h-12">
-                    <SelectValue placeholder="Selecciona una materia" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {subjects.map((subject) => (
-                      <SelectItem key={subject.id} value={subject.id}>
-                        <span className="mr-2">{subject.icon}</span>
-                        {subject.name}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
-
-              {/* Topic Selection */}
-              {selectedSubject && topics.length > 0 && (
-                <div>
-                  <label className="block text-sm font-medium text-foreground mb-2">
-                    Tema específico (opcional)
-                  </label>
-                  <Select 
-                    value={selectedTopic ?? "any"} 
-                    onValueChange={(value) => {
-                      if (value === "any") setSelectedTopic(null);
-                      else setSelectedTopic(value);
-                    }}
+                {specializations.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    Declara tus especialidades arriba para poder elegir materias y temas.
+                  </p>
+                ) : (
+                  <SubjectTopicPicker
+                    subjects={subjects}
+                    topics={topics}
+                    value={offers}
+                    onChange={setOffers}
+                    specializations={specializations}
                     disabled={isAvailable}
-                  >
-                    <SelectTrigger className="h-12">
-                      <SelectValue placeholder="Cualquier tema" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="any">Cualquier tema</SelectItem>
-                      {topics.map((topic) => (
-                        <SelectItem key={topic.id} value={topic.id}>
-                          {topic.name}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-              )}
+                  />
+                )}
+              </div>
 
               {/* Toggle Button */}
               <Button
@@ -358,7 +461,7 @@ const TeacherDashboard = () => {
                 variant={isAvailable ? 'destructive' : 'success'}
                 size="xl"
                 className="w-full"
-                disabled={toggleLoading || !selectedSubject}
+                disabled={toggleLoading || offers.length === 0}
               >
                 {toggleLoading ? (
                   <Loader2 className="w-5 h-5 animate-spin mr-2" />
@@ -382,6 +485,8 @@ const TeacherDashboard = () => {
               )}
             </div>
           </div>
+
+          {profile && <WeeklyScheduleEditor teacherId={profile.id} />}
         </div>
       </main>
     </div>
@@ -0,0 +1,234 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format, formatDistanceToNow, isToday, isTomorrow } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { CalendarClock, CalendarPlus, ChevronRight, Loader2, Video, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { downloadSessionIcs } from '@/lib/calendar';
+
+interface UpcomingSession {
+  id: string;
+  status: string;
+  created_at: string;
+  scheduled_at: string;
+  started_at: string | null;
+  ended_at: string | null;
+  max_minutes: number;
+  extended_minutes: number;
+  other: {
+    full_name: string;
+    avatar_url: string | null;
+  };
+  subjects: {
+    name: string;
+    icon: string;
+  };
+  topics: {
+    name: string;
+  } | null;
+}
+
+interface UpcomingSessionsProps {
+  profileId: string;
+  role: 'student' | 'teacher';
+}
+
+const getInitials = (name: string) => {
+  return name.split(' ').map((n) => n[0]).join('').toUpperCase().slice(0, 2);
+};
+
+const formatDay = (date: Date) => {
+  if (isToday(date)) return 'Hoy';
+  if (isTomorrow(date)) return 'Mañana';
+  const day = format(date, "EEEE d 'de' MMMM", { locale: es });
+  return day.charAt(0).toUpperCase() + day.slice(1);
+};
+
+/** Booked sessions that haven't ended yet, soonest first. They can be joined from their start time on. */
+const UpcomingSessions = ({ profileId, role }: UpcomingSessionsProps) => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [sessions, setSessions] = useState<UpcomingSession[]>([]);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  const column = role === 'student' ? 'student_id' : 'teacher_id';
+
+  const fetchSessions = useCallback(async () => {
+    const otherProfile = role === 'student'
+      ? 'other:profiles!sessions_teacher_id_fkey(full_name, avatar_url)'
+      : 'other:profiles!sessions_student_id_fkey(full_name, avatar_url)';
+
+    const { data } = await supabase
+      .from('sessions')
+      .select(`
+        id,
+        status,
+        created_at,
+        scheduled_at,
+        started_at,
+        ended_at,
+        max_minutes,
+        extended_minutes,
+        ${otherProfile},
+        subjects(name, icon),
+        topics(name)
+      `)
+      .eq(column, profileId)
+      .in('status', ['pending', 'active'])
+      .not('scheduled_at', 'is', null)
+      .order('scheduled_at');
+
+    if (data) setSessions(data as unknown as UpcomingSession[]);
+  }, [column, profileId, role]);
+
+  useEffect(() => {
+    fetchSessions();
+
+    const channel = supabase
+      .channel(`upcoming-sessions-${profileId}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'sessions',
+        filter: `${column}=eq.${profileId}`
+      }, () => {
+        fetchSessions();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [column, profileId, fetchSessions]);
+
+  // Re-render every 30 seconds so the join button turns on at the start time
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 30 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const cancelBooking = async (session: UpcomingSession) => {
+    setCancellingId(session.id);
+    const { error } = await supabase.rpc('cancel_session_request', { _session_id: session.id });
+    setCancellingId(null);
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'No se pudo cancelar la clase.',
+      });
+      return;
+    }
+
+    toast({
+      title: 'Clase cancelada',
+      description: `Se canceló tu clase con ${session.other.full_name}.`,
+    });
+    fetchSessions();
+  };
+
+  const upcoming = sessions.filter(
+    (session) => new Date(session.scheduled_at).getTime() + session.max_minutes * 60 * 1000 > now
+      || session.status === 'active'
+  );
+
+  if (upcoming.length === 0) return null;
+
+  return (
+    <div className="mb-8">
+      <h2 className="text-lg font-semibold text-foreground mb-4 flex items-center gap-2">
+        <CalendarClock className="w-5 h-5 text-primary" />
+        Próximas clases
+      </h2>
+
+      <div className="grid gap-3">
+        {upcoming.map((session) => {
+          const startsAt = new Date(session.scheduled_at);
+          const hasStarted = session.status === 'active' || startsAt.getTime() <= now;
+
+          return (
+            <div
+              key={session.id}
+              className={`bg-card rounded-2xl border p-4 flex items-center gap-4 ${
+                hasStarted ? 'border-primary/50' : 'border-border'
+              }`}
+            >
+              <Avatar className="h-12 w-12">
+                <AvatarImage src={session.other.avatar_url || undefined} />
+                <AvatarFallback className="bg-primary text-primary-foreground">
+                  {getInitials(session.other.full_name)}
+                </AvatarFallback>
+              </Avatar>
+
+              <div className="flex-1 min-w-0">
+                <h3 className="font-semibold text-foreground truncate">{session.other.full_name}</h3>
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <span>{session.subjects.icon}</span>
+                  <span>{session.subjects.name}</span>
+                  {session.topics && (
+                    <>
+                      <ChevronRight className="w-4 h-4" />
+                      <span>{session.topics.name}</span>
+                    </>
+                  )}
+                </div>
+                <p className="text-sm text-foreground">
+                  {formatDay(startsAt)}, {format(startsAt, 'HH:mm')}
+                  {!hasStarted && (
+                    <span className="text-muted-foreground">
+                      {' '}· en {formatDistanceToNow(startsAt, { locale: es })}
+                    </span>
+                  )}
+                </p>
+              </div>
+
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => downloadSessionIcs({
+                  ...session,
+                  subjectName: session.subjects.name,
+                  topicName: session.topics?.name ?? null,
+                  otherName: session.other.full_name,
+                })}
+                title="Añadir a mi calendario (.ics)"
+                className="shrink-0"
+              >
+                <CalendarPlus className="w-4 h-4" />
+              </Button>
+
+              {hasStarted ? (
+                <Button onClick={() => navigate(`/session/${session.id}`)} className="shrink-0">
+                  <Video className="w-4 h-4 mr-2" />
+                  Unirse
+                </Button>
+              ) : (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => cancelBooking(session)}
+                  disabled={cancellingId === session.id}
+                  title="Cancelar clase"
+                  className="shrink-0"
+                >
+                  {cancellingId === session.id ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <X className="w-4 h-4" />
+                  )}
+                </Button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default UpcomingSessions;
@@ -0,0 +1,80 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Badge } from '@/components/ui/badge';
+import { ChevronRight, Hourglass } from 'lucide-react';
+import { findSpecialization, SubjectTopic } from '@/lib/availability';
+import { WAITLIST_COUNTS_REFRESH_MS, WaitlistCount } from '@/lib/waitlist';
+
+interface Subject {
+  id: string;
+  name: string;
+  icon: string;
+}
+
+interface Topic {
+  id: string;
+  name: string;
+  subject_id: string;
+}
+
+interface WaitlistDemandProps {
+  subjects: Subject[];
+  topics: Topic[];
+  specializations: SubjectTopic[];
+}
+
+/** How many students are queued per subject/topic, the teacher's own specializations first. */
+const WaitlistDemand = ({ subjects, topics, specializations }: WaitlistDemandProps) => {
+  const [demand, setDemand] = useState<WaitlistCount[]>([]);
+
+  useEffect(() => {
+    const fetchDemand = async () => {
+      const { data } = await supabase.rpc('get_waitlist_counts');
+      if (data) setDemand(data);
+    };
+
+    fetchDemand();
+    const interval = setInterval(fetchDemand, WAITLIST_COUNTS_REFRESH_MS);
+
+    return () => clearInterval(interval);
+  }, []);
+
+  const teaches = (d: WaitlistCount) => !!findSpecialization(specializations, d);
+  const sorted = [...demand].sort((a, b) => Number(teaches(b)) - Number(teaches(a)) || b.waiting - a.waiting);
+
+  return (
+    <div className="bg-card rounded-2xl border border-border p-6 mb-8">
+      <h2 className="text-lg font-semibold text-foreground mb-4 flex items-center gap-2">
+        <Hourglass className="w-5 h-5 text-primary" />
+        Estudiantes esperando
+      </h2>
+
+      {sorted.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Ningún estudiante está esperando tutor en este momento.</p>
+      ) : (
+        <div className="space-y-2">
+          {sorted.map((d) => {
+            const subject = subjects.find((s) => s.id === d.subject_id);
+            const topic = topics.find((t) => t.id === d.topic_id);
+            return (
+              <div
+                key={`${d.subject_id}-${d.topic_id}`}
+                className={`flex items-center gap-2 text-sm ${teaches(d) ? 'text-foreground' : 'text-muted-foreground'}`}
+              >
+                <span>{subject?.icon}</span>
+                <span className={teaches(d) ? 'font-medium' : ''}>{subject?.name}</span>
+                <ChevronRight className="w-4 h-4 text-muted-foreground" />
+                <span>{topic?.name ?? 'Cualquier tema'}</span>
+                <Badge variant={teaches(d) ? 'default' : 'secondary'} className="ml-auto">
+                  {d.waiting} esperando
+                </Badge>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WaitlistDemand;
@@ -0,0 +1,49 @@
+import { Button } from '@/components/ui/button';
+import { ChevronRight, Hourglass, Loader2 } from 'lucide-react';
+import type { WaitlistEntry } from '@/lib/waitlist';
+
+interface WaitlistStatusProps {
+  entry: WaitlistEntry;
+  position: number | null;
+  onLeave: () => void;
+}
+
+/** Where the student stands in the waitlist, with a way out. */
+const WaitlistStatus = ({ entry, position, onLeave }: WaitlistStatusProps) => (
+  <div className="bg-primary/5 border border-primary/30 rounded-2xl p-6 mb-4 flex flex-col sm:flex-row sm:items-center gap-4">
+    <div className="w-12 h-12 rounded-full bg-primary/10 flex items-center justify-center shrink-0">
+      <Hourglass className="w-6 h-6 text-primary" />
+    </div>
+    <div className="flex-1 min-w-0">
+      <p className="font-semibold text-foreground flex flex-wrap items-center gap-1">
+        <span>En lista de espera:</span>
+        <span>{entry.subjects.icon}</span>
+        <span>{entry.subjects.name}</span>
+        {entry.topics && (
+          <>
+            <ChevronRight className="w-4 h-4 text-muted-foreground" />
+            <span>{entry.topics.name}</span>
+          </>
+        )}
+      </p>
+      <p className="text-sm text-muted-foreground">
+        {position === null ? (
+          <span className="inline-flex items-center gap-1">
+            <Loader2 className="w-3 h-3 animate-spin" />
+            Calculando tu posición…
+          </span>
+        ) : position === 1 ? (
+          'Eres el siguiente en la fila.'
+        ) : (
+          `Eres el número ${position} en la fila.`
+        )}{' '}
+        Te conectaremos con el primer tutor que se libere; mantén esta página abierta.
+      </p>
+    </div>
+    <Button variant="outline" onClick={onLeave}>
+      Salir de la fila
+    </Button>
+  </div>
+);
+
+export default WaitlistStatus;
@@ -0,0 +1,168 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { CalendarDays, Loader2, Plus, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  formatScheduleTime,
+  getBrowserTimeZone,
+  weekdayLabels,
+  weekdayOrder,
+} from '@/lib/schedule';
+
+type ScheduleRow = Tables<'teacher_schedule'>;
+
+interface WeeklyScheduleEditorProps {
+  teacherId: string;
+}
+
+/** The teacher's recurring weekly windows for booked classes, saved in the browser's timezone. */
+const WeeklyScheduleEditor = ({ teacherId }: WeeklyScheduleEditorProps) => {
+  const { toast } = useToast();
+  const [windows, setWindows] = useState<ScheduleRow[]>([]);
+  const [weekday, setWeekday] = useState('1');
+  const [startTime, setStartTime] = useState('09:00');
+  const [endTime, setEndTime] = useState('13:00');
+  const [saving, setSaving] = useState(false);
+
+  const timeZone = getBrowserTimeZone();
+
+  const fetchWindows = useCallback(async () => {
+    const { data } = await supabase
+      .from('teacher_schedule')
+      .select('*')
+      .eq('teacher_id', teacherId)
+      .order('start_time');
+    if (data) setWindows(data);
+  }, [teacherId]);
+
+  useEffect(() => {
+    fetchWindows();
+  }, [fetchWindows]);
+
+  const addWindow = async () => {
+    if (startTime >= endTime) {
+      toast({
+        variant: 'destructive',
+        title: 'Horario no válido',
+        description: 'La hora de fin debe ser posterior a la de inicio.',
+      });
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase.from('teacher_schedule').insert({
+      teacher_id: teacherId,
+      weekday: Number(weekday),
+      start_time: startTime,
+      end_time: endTime,
+      timezone: timeZone,
+    });
+    setSaving(false);
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'No se pudo guardar el horario.',
+      });
+      return;
+    }
+    fetchWindows();
+  };
+
+  const removeWindow = async (id: string) => {
+    const { error } = await supabase.from('teacher_schedule').delete().eq('id', id);
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'No se pudo eliminar el horario.',
+      });
+      return;
+    }
+    setWindows((current) => current.filter((w) => w.id !== id));
+  };
+
+  return (
+    <div className="bg-card rounded-2xl border border-border p-8 mt-8">
+      <h2 className="text-xl font-semibold text-foreground mb-2 flex items-center gap-2">
+        <CalendarDays className="w-5 h-5 text-primary" />
+        Horario semanal
+      </h2>
+      <p className="text-sm text-muted-foreground mb-6">
+        Los estudiantes pueden reservar clases en estos horarios. Zona horaria: {timeZone}.
+      </p>
+
+      <div className="space-y-3 mb-6">
+        {windows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Todavía no has publicado ningún horario.</p>
+        ) : (
+          weekdayOrder
+            .filter((day) => windows.some((w) => w.weekday === day))
+            .map((day) => (
+              <div key={day} className="flex items-start gap-4">
+                <span className="w-24 shrink-0 pt-1.5 text-sm font-medium text-foreground">{weekdayLabels[day]}</span>
+                <div className="flex flex-wrap gap-2">
+                  {windows
+                    .filter((w) => w.weekday === day)
+                    .map((w) => (
+                      <span
+                        key={w.id}
+                        className="flex items-center gap-1 rounded-lg border border-border bg-muted/50 pl-3 pr-1 py-1 text-sm text-foreground"
+                      >
+                        {formatScheduleTime(w.start_time)}–{formatScheduleTime(w.end_time)}
+                        {w.timezone !== timeZone && (
+                          <span className="text-xs text-muted-foreground">({w.timezone})</span>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          onClick={() => removeWindow(w.id)}
+                          title="Eliminar"
+                        >
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </Button>
+                      </span>
+                    ))}
+                </div>
+              </div>
+            ))
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-[1fr_auto_auto_auto] gap-3 items-end">
+        <Select value={weekday} onValueChange={setWeekday}>
+          <SelectTrigger className="h-10">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {weekdayOrder.map((day) => (
+              <SelectItem key={day} value={String(day)}>
+                {weekdayLabels[day]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input type="time" value={startTime} onChange={(e) => setStartTime(e.target.value)} aria-label="Desde" />
+        <Input type="time" value={endTime} onChange={(e) => setEndTime(e.target.value)} aria-label="Hasta" />
+        <Button onClick={addWindow} disabled={saving}>
+          {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+          Añadir
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default WeeklyScheduleEditor;
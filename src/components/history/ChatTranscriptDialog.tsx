@@ -0,0 +1,81 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import MessageContent from '@/components/session/MessageContent';
+import { MessageAttachment } from '@/components/session/SessionFileCard';
+import type { ChatMessage } from '@/hooks/use-session-chat';
+
+interface ChatTranscriptDialogProps {
+  sessionId: string | null;
+  participants: Record<string, string>;
+  onClose: () => void;
+}
+
+const ChatTranscriptDialog = ({ sessionId, participants, onClose }: ChatTranscriptDialogProps) => {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    setLoading(true);
+    supabase
+      .from('session_messages')
+      .select('*')
+      .eq('session_id', sessionId)
+      .order('created_at')
+      .then(({ data }) => {
+        setMessages(data ?? []);
+        setLoading(false);
+      });
+  }, [sessionId]);
+
+  return (
+    <Dialog open={!!sessionId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Chat de la sesión</DialogTitle>
+          <DialogDescription>Transcripción de los mensajes enviados durante la clase.</DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 text-primary animate-spin" />
+          </div>
+        ) : (
+          <div className="max-h-[60vh] overflow-y-auto space-y-4 pr-1">
+            {messages.map((message) => (
+              <div key={message.id} className="text-sm">
+                <div className="flex items-baseline gap-2 mb-1">
+                  <span className="font-semibold text-foreground">
+                    {participants[message.sender_id] ?? 'Participante'}
+                  </span>
+                  <span className="text-xs text-muted-foreground">
+                    {format(new Date(message.created_at), 'HH:mm')}
+                  </span>
+                </div>
+                <div className="text-foreground">
+                  {message.attachment_id ? (
+                    <MessageAttachment fileId={message.attachment_id} />
+                  ) : (
+                    <MessageContent body={message.body} />
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ChatTranscriptDialog;
@@ -0,0 +1,59 @@
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Download } from 'lucide-react';
+import { codeLanguages, isCodeLanguage } from '@/lib/code-editor';
+import { downloadTextFile } from '@/lib/transcript';
+
+export interface SessionCode {
+  language: string;
+  content: string;
+}
+
+interface CodeDialogProps {
+  code: SessionCode | null;
+  /** Base name for the downloaded file, without extension. */
+  filename: string;
+  onClose: () => void;
+}
+
+const CodeDialog = ({ code, filename, onClose }: CodeDialogProps) => {
+  const language = code && isCodeLanguage(code.language) ? codeLanguages[code.language] : null;
+
+  return (
+    <Dialog open={!!code} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Código de la sesión</DialogTitle>
+          <DialogDescription>
+            Versión final del editor compartido{language ? ` (${language.label})` : ''}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <pre className="max-h-[60vh] overflow-auto rounded-lg bg-muted p-4 text-sm font-mono text-foreground">
+          {code?.content}
+        </pre>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() =>
+              code && downloadTextFile(code.content, `${filename}.${language?.extension ?? 'txt'}`, 'text/plain')
+            }
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Descargar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CodeDialog;
@@ -0,0 +1,40 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import Equation from '@/components/session/Equation';
+
+export interface PinnedEquation {
+  latex: string;
+  pinned_at: string | null;
+}
+
+interface EquationSummaryDialogProps {
+  equations: PinnedEquation[] | null;
+  onClose: () => void;
+}
+
+const EquationSummaryDialog = ({ equations, onClose }: EquationSummaryDialogProps) => (
+  <Dialog open={!!equations} onOpenChange={(open) => !open && onClose()}>
+    <DialogContent className="max-w-lg">
+      <DialogHeader>
+        <DialogTitle>Resumen de ecuaciones</DialogTitle>
+        <DialogDescription>Las ecuaciones que el profesor fijó durante la clase.</DialogDescription>
+      </DialogHeader>
+
+      <ol className="max-h-[60vh] overflow-y-auto space-y-3 pr-1">
+        {equations?.map((equation, index) => (
+          <li key={index} className="flex items-center gap-3 rounded-lg border border-border px-4 py-2 text-foreground">
+            <span className="text-sm text-muted-foreground tabular-nums">{index + 1}.</span>
+            <Equation latex={equation.latex} className="flex-1 min-w-0" />
+          </li>
+        ))}
+      </ol>
+    </DialogContent>
+  </Dialog>
+);
+
+export default EquationSummaryDialog;
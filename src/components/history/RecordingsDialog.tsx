@@ -0,0 +1,209 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Loader2, Play, Trash2 } from 'lucide-react';
+import { differenceInMinutes, format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { useToast } from '@/hooks/use-toast';
+import { formatFileSize } from '@/lib/session-files';
+import { deleteRecording, downloadRecording, SessionRecording } from '@/lib/recording';
+
+interface RecordingsDialogProps {
+  sessionId: string | null;
+  onClose: () => void;
+  onDeleted: (sessionId: string, remaining: number) => void;
+}
+
+const RecordingsDialog = ({ sessionId, onClose, onDeleted }: RecordingsDialogProps) => {
+  const { toast } = useToast();
+  const [recordings, setRecordings] = useState<SessionRecording[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [playing, setPlaying] = useState<{ id: string; url: string } | null>(null);
+  const [loadingId, setLoadingId] = useState<string | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<SessionRecording | null>(null);
+  const [deleting, setDeleting] = useState(false);
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    setLoading(true);
+    supabase
+      .from('session_recordings')
+      .select('*')
+      .eq('session_id', sessionId)
+      .gt('expires_at', new Date().toISOString())
+      .gt('chunk_count', 0)
+      .order('started_at')
+      .then(({ data }) => {
+        setRecordings(data ?? []);
+        setLoading(false);
+      });
+  }, [sessionId]);
+
+  // Release the stitched video when it's replaced or the dialog closes
+  useEffect(() => {
+    return () => {
+      if (playing) URL.revokeObjectURL(playing.url);
+    };
+  }, [playing]);
+
+  useEffect(() => {
+    if (!sessionId) setPlaying(null);
+  }, [sessionId]);
+
+  const play = async (recording: SessionRecording) => {
+    setLoadingId(recording.id);
+    try {
+      const blob = await downloadRecording(recording);
+      setPlaying({ id: recording.id, url: URL.createObjectURL(blob) });
+    } catch (error) {
+      console.error('Error loading recording:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'No se pudo cargar la grabación.',
+      });
+    }
+    setLoadingId(null);
+  };
+
+  const confirmDelete = async () => {
+    if (!pendingDelete || !sessionId) return;
+
+    setDeleting(true);
+    try {
+      await deleteRecording(pendingDelete);
+      const remaining = recordings.filter((r) => r.id !== pendingDelete.id);
+      setRecordings(remaining);
+      if (playing?.id === pendingDelete.id) setPlaying(null);
+      onDeleted(sessionId, remaining.length);
+      toast({ title: 'Grabación eliminada' });
+    } catch (error) {
+      console.error('Error deleting recording:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'No se pudo eliminar la grabación.',
+      });
+    }
+    setDeleting(false);
+    setPendingDelete(null);
+  };
+
+  return (
+    <>
+      <Dialog open={!!sessionId} onOpenChange={(open) => !open && onClose()}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Grabaciones</DialogTitle>
+            <DialogDescription>
+              Las grabaciones se eliminan automáticamente al caducar. Cualquiera de los participantes puede borrarlas antes.
+            </DialogDescription>
+          </DialogHeader>
+
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-6 h-6 text-primary animate-spin" />
+            </div>
+          ) : (
+            <div className="max-h-[70vh] overflow-y-auto space-y-4 pr-1">
+              {playing && (
+                <video src={playing.url} controls autoPlay className="w-full rounded-xl bg-foreground" />
+              )}
+
+              {recordings.length === 0 && (
+                <p className="text-sm text-muted-foreground text-center py-4">
+                  No hay grabaciones disponibles.
+                </p>
+              )}
+
+              {recordings.map((recording) => (
+                <div
+                  key={recording.id}
+                  className="flex items-center gap-3 rounded-xl border border-border p-3"
+                >
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-foreground">
+                      {format(new Date(recording.started_at), 'HH:mm')}
+                      {recording.ended_at &&
+                        ` · ${Math.max(1, differenceInMinutes(new Date(recording.ended_at), new Date(recording.started_at)))} min`}
+                      {` · ${formatFileSize(recording.size_bytes)}`}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Disponible hasta el {format(new Date(recording.expires_at), "d 'de' MMMM", { locale: es })}
+                    </p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => play(recording)}
+                    disabled={loadingId === recording.id}
+                  >
+                    {loadingId === recording.id ? (
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                      <Play className="w-4 h-4 mr-2" />
+                    )}
+                    Reproducir
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setPendingDelete(recording)}
+                    title="Eliminar grabación"
+                  >
+                    <Trash2 className="w-4 h-4 text-destructive" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && !deleting && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>¿Eliminar esta grabación?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Se borrará para ambos participantes y no se podrá recuperar.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleting}>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                confirmDelete();
+              }}
+              disabled={deleting}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {deleting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Eliminar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default RecordingsDialog;
@@ -0,0 +1,68 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { SessionFileCard, SessionFile } from '@/components/session/SessionFileCard';
+
+interface SessionFilesDialogProps {
+  sessionId: string | null;
+  participants: Record<string, string>;
+  onClose: () => void;
+}
+
+const SessionFilesDialog = ({ sessionId, participants, onClose }: SessionFilesDialogProps) => {
+  const [files, setFiles] = useState<SessionFile[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    setLoading(true);
+    supabase
+      .from('session_files')
+      .select('*')
+      .eq('session_id', sessionId)
+      .order('created_at')
+      .then(({ data }) => {
+        setFiles(data ?? []);
+        setLoading(false);
+      });
+  }, [sessionId]);
+
+  return (
+    <Dialog open={!!sessionId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Archivos</DialogTitle>
+          <DialogDescription>Imágenes y documentos compartidos durante la clase.</DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 text-primary animate-spin" />
+          </div>
+        ) : (
+          <div className="max-h-[60vh] overflow-y-auto space-y-4 pr-1">
+            {files.map((file) => (
+              <div key={file.id} className="space-y-1">
+                <p className="text-xs text-muted-foreground">
+                  {participants[file.uploader_id] ?? 'Participante'} · {format(new Date(file.created_at), 'HH:mm')}
+                </p>
+                <SessionFileCard file={file} />
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SessionFilesDialog;
@@ -0,0 +1,108 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Download, Loader2 } from 'lucide-react';
+import {
+  downloadTextFile,
+  formatTranscriptOffset,
+  TranscriptSegment,
+  transcriptToText,
+  transcriptToVtt,
+} from '@/lib/transcript';
+
+interface TranscriptDialogProps {
+  sessionId: string | null;
+  sessionStartedAt: string | undefined;
+  participants: Record<string, string>;
+  /** Base name for downloaded files, without extension. */
+  filename: string;
+  onClose: () => void;
+}
+
+const TranscriptDialog = ({ sessionId, sessionStartedAt, participants, filename, onClose }: TranscriptDialogProps) => {
+  const [segments, setSegments] = useState<TranscriptSegment[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    setLoading(true);
+    supabase
+      .from('session_transcript_segments')
+      .select('*')
+      .eq('session_id', sessionId)
+      .order('started_at')
+      .then(({ data }) => {
+        setSegments(data ?? []);
+        setLoading(false);
+      });
+  }, [sessionId]);
+
+  const startedAt = sessionStartedAt ?? segments[0]?.started_at ?? new Date().toISOString();
+
+  return (
+    <Dialog open={!!sessionId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Transcripción</DialogTitle>
+          <DialogDescription>Lo que se dijo durante la clase, según los subtítulos en vivo.</DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 text-primary animate-spin" />
+          </div>
+        ) : (
+          <div className="max-h-[60vh] overflow-y-auto space-y-3 pr-1">
+            {segments.map((segment) => (
+              <div key={segment.id} className="text-sm">
+                <div className="flex items-baseline gap-2">
+                  <span className="text-xs text-muted-foreground tabular-nums">
+                    {formatTranscriptOffset(segment.started_at, startedAt)}
+                  </span>
+                  <span className="font-semibold text-foreground">
+                    {participants[segment.speaker_id] ?? 'Participante'}
+                  </span>
+                </div>
+                <p className="text-foreground">{segment.text}</p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button
+            variant="outline"
+            disabled={loading || segments.length === 0}
+            onClick={() =>
+              downloadTextFile(transcriptToText(segments, participants, startedAt), `${filename}.txt`, 'text/plain')
+            }
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Texto (.txt)
+          </Button>
+          <Button
+            variant="outline"
+            disabled={loading || segments.length === 0}
+            onClick={() =>
+              downloadTextFile(transcriptToVtt(segments, participants, startedAt), `${filename}.vtt`, 'text/vtt')
+            }
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Subtítulos (.vtt)
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TranscriptDialog;
@@ -0,0 +1,185 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { MessageSquare, Send, X, Loader2, Paperclip, Sigma } from 'lucide-react';
+import { format } from 'date-fns';
+import MessageContent from './MessageContent';
+import { MessageAttachment } from './SessionFileCard';
+import EquationEditorDialog from './EquationEditorDialog';
+import { ALLOWED_SESSION_FILE_TYPES } from '@/lib/session-files';
+import { toEquationMessage } from '@/lib/equations';
+import type { ChatMessage } from '@/hooks/use-session-chat';
+import type { SessionEquations } from '@/hooks/use-session-equations';
+
+interface ChatPanelProps {
+  open: boolean;
+  messages: ChatMessage[];
+  profileId: string | undefined;
+  otherName: string | undefined;
+  onSend: (body: string) => Promise<boolean>;
+  onAttach: (file: File) => Promise<boolean>;
+  /** Offers the equation editor when set. */
+  equations?: SessionEquations;
+  canPinEquations: boolean;
+  onClose: () => void;
+}
+
+const ChatPanel = ({
+  open,
+  messages,
+  profileId,
+  otherName,
+  onSend,
+  onAttach,
+  equations,
+  canPinEquations,
+  onClose,
+}: ChatPanelProps) => {
+  const [draft, setDraft] = useState('');
+  const [sending, setSending] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [showEquations, setShowEquations] = useState(false);
+  const endRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (open) {
+      endRef.current?.scrollIntoView({ block: 'end' });
+    }
+  }, [messages, open]);
+
+  const handleSend = async () => {
+    const body = draft.trim();
+    if (!body || sending) return;
+
+    setSending(true);
+    if (await onSend(body)) {
+      setDraft('');
+    }
+    setSending(false);
+  };
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setUploading(true);
+    await onAttach(file);
+    setUploading(false);
+  };
+
+  const handleSendEquation = async (latex: string) => {
+    if (!(await onSend(toEquationMessage(latex)))) return false;
+    await equations?.addEquation(latex, 'chat');
+    return true;
+  };
+
+  if (!open) return null;
+
+  return (
+    <aside className="absolute top-4 right-4 bottom-4 z-20 w-full max-w-sm bg-card rounded-3xl shadow-2xl flex flex-col overflow-hidden">
+      <div className="flex items-center justify-between p-4 border-b border-border">
+        <h2 className="font-semibold text-foreground flex items-center gap-2">
+          <MessageSquare className="w-5 h-5 text-primary" />
+          Chat
+        </h2>
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onClose}>
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-3">
+        {messages.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center mt-8">
+            Comparte enlaces, ecuaciones o fragmentos de código con {otherName}.
+          </p>
+        ) : (
+          messages.map((message) => {
+            const isMine = message.sender_id === profileId;
+            return (
+              <div key={message.id} className={`flex flex-col ${isMine ? 'items-end' : 'items-start'}`}>
+                <div
+                  className={`max-w-[85%] rounded-2xl text-sm ${message.attachment_id ? 'p-1' : 'px-4 py-2'} ${
+                    isMine
+                      ? 'bg-primary text-primary-foreground rounded-br-sm'
+                      : 'bg-muted text-foreground rounded-bl-sm'
+                  }`}
+                >
+                  {message.attachment_id ? (
+                    <MessageAttachment fileId={message.attachment_id} />
+                  ) : (
+                    <MessageContent body={message.body} />
+                  )}
+                </div>
+                <span className="text-[10px] text-muted-foreground mt-1">
+                  {format(new Date(message.created_at), 'HH:mm')}
+                </span>
+              </div>
+            );
+          })
+        )}
+        <div ref={endRef} />
+      </div>
+
+      <div className="p-3 border-t border-border">
+        <div className="flex items-end gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={ALLOWED_SESSION_FILE_TYPES.join(',')}
+            className="hidden"
+            onChange={handleFileSelected}
+          />
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={uploading}
+            title="Adjuntar imagen o PDF"
+          >
+            {uploading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Paperclip className="w-4 h-4" />}
+          </Button>
+          {equations && (
+            <Button variant="ghost" size="icon" onClick={() => setShowEquations(true)} title="Escribir ecuación">
+              <Sigma className="w-4 h-4" />
+            </Button>
+          )}
+          <Textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                handleSend();
+              }
+            }}
+            placeholder="Escribe un mensaje..."
+            rows={2}
+            className="resize-none min-h-0"
+          />
+          <Button size="icon" onClick={handleSend} disabled={!draft.trim() || sending}>
+            {sending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+          </Button>
+        </div>
+        <p className="text-[10px] text-muted-foreground mt-1">
+          Shift + Enter para nueva línea · **negrita**, `código`, ``` bloques ``` y $$LaTeX$$ · Imágenes y PDF hasta 10 MB
+        </p>
+      </div>
+
+      {equations && (
+        <EquationEditorDialog
+          open={showEquations}
+          equations={equations.equations}
+          canPin={canPinEquations}
+          insertLabel="Enviar"
+          onInsert={handleSendEquation}
+          onPin={equations.setPinned}
+          onClose={() => setShowEquations(false)}
+        />
+      )}
+    </aside>
+  );
+};
+
+export default ChatPanel;
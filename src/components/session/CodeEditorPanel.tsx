@@ -0,0 +1,126 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { basicSetup } from 'codemirror';
+import { Compartment, EditorState } from '@codemirror/state';
+import type { LanguageSupport } from '@codemirror/language';
+import { java } from '@codemirror/lang-java';
+import { javascript } from '@codemirror/lang-javascript';
+import { python } from '@codemirror/lang-python';
+import { sql } from '@codemirror/lang-sql';
+import { EditorView } from '@codemirror/view';
+import { oneDark } from '@codemirror/theme-one-dark';
+import * as Y from 'yjs';
+import { yCollab } from 'y-codemirror.next';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Code2, Loader2, X } from 'lucide-react';
+import { CodeLanguage, codeLanguages } from '@/lib/code-editor';
+import type { SharedCodeDocument } from '@/hooks/use-shared-code';
+
+interface CodeEditorPanelProps {
+  open: boolean;
+  codeDocument: SharedCodeDocument | null;
+  language: CodeLanguage;
+  loading: boolean;
+  onLanguageChange: (language: CodeLanguage) => void;
+  onClose: () => void;
+}
+
+const languageSupport: Record<CodeLanguage, () => LanguageSupport> = { python, javascript, java, sql };
+
+const editorTheme = EditorView.theme({
+  '&': { height: '100%', fontSize: '14px' },
+  '.cm-scroller': { fontFamily: 'ui-monospace, SFMono-Regular, Menlo, monospace' },
+});
+
+// Kept mounted while closed so the buffer stays in sync for the whole call
+const CodeEditorPanel = ({ open, codeDocument, language, loading, onLanguageChange, onClose }: CodeEditorPanelProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const viewRef = useRef<EditorView | null>(null);
+  const languageCompartment = useMemo(() => new Compartment(), []);
+  const languageRef = useRef(language);
+  languageRef.current = language;
+
+  useEffect(() => {
+    if (!codeDocument || !containerRef.current) return;
+
+    const undoManager = new Y.UndoManager(codeDocument.text);
+    const view = new EditorView({
+      parent: containerRef.current,
+      state: EditorState.create({
+        doc: codeDocument.text.toString(),
+        extensions: [
+          basicSetup,
+          oneDark,
+          editorTheme,
+          languageCompartment.of(languageSupport[languageRef.current]()),
+          yCollab(codeDocument.text, codeDocument.awareness, { undoManager }),
+        ],
+      }),
+    });
+    viewRef.current = view;
+
+    return () => {
+      view.destroy();
+      undoManager.destroy();
+      viewRef.current = null;
+    };
+  }, [codeDocument, languageCompartment]);
+
+  useEffect(() => {
+    viewRef.current?.dispatch({
+      effects: languageCompartment.reconfigure(languageSupport[language]()),
+    });
+  }, [language, languageCompartment]);
+
+  // The editor can't measure itself while hidden
+  useEffect(() => {
+    if (open) viewRef.current?.requestMeasure();
+  }, [open]);
+
+  return (
+    <div
+      className={`absolute inset-4 z-10 bg-card rounded-3xl overflow-hidden flex-col shadow-2xl ${
+        open ? 'flex' : 'hidden'
+      }`}
+    >
+      <div className="flex items-center gap-3 p-3 border-b border-border">
+        <Code2 className="w-5 h-5 text-primary" />
+        <span className="font-semibold text-foreground">Editor de código</span>
+
+        <Select value={language} onValueChange={(value) => onLanguageChange(value as CodeLanguage)}>
+          <SelectTrigger className="w-40 h-9">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(codeLanguages) as CodeLanguage[]).map((id) => (
+              <SelectItem key={id} value={id}>
+                {codeLanguages[id].label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Button variant="ghost" size="icon" className="h-9 w-9 ml-auto" onClick={onClose} title="Cerrar editor">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="relative flex-1 min-h-0 bg-[#282c34]">
+        <div ref={containerRef} className="h-full" />
+        {loading && (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <Loader2 className="w-8 h-8 text-primary animate-spin" />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CodeEditorPanel;
@@ -0,0 +1,131 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2, Mic, Video, Volume2 } from 'lucide-react';
+import { useMediaDevices } from '@/hooks/use-media-devices';
+import { useAudioLevel } from '@/hooks/use-audio-level';
+import {
+  DevicePreferences,
+  isAudioOutputSelectionSupported,
+  playTestTone,
+} from '@/lib/media-devices';
+
+interface DeviceSettingsProps {
+  stream: MediaStream | null;
+  preferences: DevicePreferences;
+  onSelect: (kind: MediaDeviceKind, deviceId: string) => void;
+}
+
+const getDeviceLabel = (device: MediaDeviceInfo, index: number, fallback: string) =>
+  device.label || `${fallback} ${index + 1}`;
+
+/** Camera, microphone and speaker pickers with a mic level meter and a speaker test. */
+const DeviceSettings = ({ stream, preferences, onSelect }: DeviceSettingsProps) => {
+  const { audioInputs, videoInputs, audioOutputs } = useMediaDevices(stream);
+  const level = useAudioLevel(stream);
+  const [testingSpeaker, setTestingSpeaker] = useState(false);
+
+  // The track in use is the source of truth: the preferred device may have been unavailable
+  const activeAudioId = stream?.getAudioTracks()[0]?.getSettings().deviceId ?? preferences.audioInputId;
+  const activeVideoId = stream?.getVideoTracks()[0]?.getSettings().deviceId ?? preferences.videoInputId;
+
+  const testSpeaker = async () => {
+    setTestingSpeaker(true);
+    try {
+      await playTestTone(preferences.audioOutputId);
+    } catch (error) {
+      console.error('Error playing test tone:', error);
+    }
+    setTestingSpeaker(false);
+  };
+
+  return (
+    <div className="space-y-5">
+      <div>
+        <label className="flex items-center gap-2 text-sm font-medium text-foreground mb-2">
+          <Mic className="w-4 h-4" />
+          Micrófono
+        </label>
+        <Select
+          value={activeAudioId}
+          onValueChange={(value) => onSelect('audioinput', value)}
+          disabled={audioInputs.length === 0}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="No se encontró ningún micrófono" />
+          </SelectTrigger>
+          <SelectContent>
+            {audioInputs.map((device, index) => (
+              <SelectItem key={device.deviceId} value={device.deviceId}>
+                {getDeviceLabel(device, index, 'Micrófono')}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Progress value={level * 100} className="h-2 mt-3" />
+      </div>
+
+      <div>
+        <label className="flex items-center gap-2 text-sm font-medium text-foreground mb-2">
+          <Video className="w-4 h-4" />
+          Cámara
+        </label>
+        <Select
+          value={activeVideoId}
+          onValueChange={(value) => onSelect('videoinput', value)}
+          disabled={videoInputs.length === 0}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="No se encontró ninguna cámara" />
+          </SelectTrigger>
+          <SelectContent>
+            {videoInputs.map((device, index) => (
+              <SelectItem key={device.deviceId} value={device.deviceId}>
+                {getDeviceLabel(device, index, 'Cámara')}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div>
+        <label className="flex items-center gap-2 text-sm font-medium text-foreground mb-2">
+          <Volume2 className="w-4 h-4" />
+          Altavoz
+        </label>
+        <div className="flex gap-2">
+          {isAudioOutputSelectionSupported() && audioOutputs.length > 0 && (
+            <Select
+              value={preferences.audioOutputId ?? audioOutputs[0].deviceId}
+              onValueChange={(value) => onSelect('audiooutput', value)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {audioOutputs.map((device, index) => (
+                  <SelectItem key={device.deviceId} value={device.deviceId}>
+                    {getDeviceLabel(device, index, 'Altavoz')}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Button variant="outline" onClick={testSpeaker} disabled={testingSpeaker} className="shrink-0">
+            {testingSpeaker && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Probar sonido
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DeviceSettings;
@@ -0,0 +1,33 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import DeviceSettings from './DeviceSettings';
+import type { DevicePreferences } from '@/lib/media-devices';
+
+interface DeviceSettingsDialogProps {
+  open: boolean;
+  stream: MediaStream | null;
+  preferences: DevicePreferences;
+  onSelect: (kind: MediaDeviceKind, deviceId: string) => void;
+  onClose: () => void;
+}
+
+const DeviceSettingsDialog = ({ open, stream, preferences, onSelect, onClose }: DeviceSettingsDialogProps) => {
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Dispositivos</DialogTitle>
+          <DialogDescription>Los cambios se aplican al instante, sin cortar la llamada.</DialogDescription>
+        </DialogHeader>
+        <DeviceSettings stream={stream} preferences={preferences} onSelect={onSelect} />
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DeviceSettingsDialog;
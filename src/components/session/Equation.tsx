@@ -0,0 +1,32 @@
+import { useMemo } from 'react';
+import { renderEquation } from '@/lib/equations';
+import { useEquationRenderer } from '@/hooks/use-equation-renderer';
+
+interface EquationProps {
+  latex: string;
+  display?: boolean;
+  className?: string;
+}
+
+/** Rendered LaTeX; shows the source in monospace while MathJax loads or when it doesn't parse. */
+const Equation = ({ latex, display = true, className = '' }: EquationProps) => {
+  const ready = useEquationRenderer();
+  const rendered = useMemo(() => (ready ? renderEquation(latex, display) : null), [ready, latex, display]);
+
+  if (!rendered?.svg) {
+    return <code className={`font-mono text-[0.85em] ${className}`}>{latex}</code>;
+  }
+
+  const Tag = display ? 'div' : 'span';
+  return (
+    <Tag
+      className={`${display ? 'block overflow-x-auto py-1' : 'inline-block align-middle'} [&_svg]:max-w-none ${className}`}
+      role="math"
+      aria-label={latex}
+      // MathJax's own output, from a configuration without the `html` package
+      dangerouslySetInnerHTML={{ __html: rendered.svg }}
+    />
+  );
+};
+
+export default Equation;
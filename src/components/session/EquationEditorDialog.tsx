@@ -0,0 +1,182 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2, Pin, PinOff } from 'lucide-react';
+import Equation from './Equation';
+import { EQUATION_MAX_LENGTH, renderEquation } from '@/lib/equations';
+import type { SessionEquation } from '@/hooks/use-session-equations';
+import { useEquationRenderer } from '@/hooks/use-equation-renderer';
+
+interface EquationEditorDialogProps {
+  open: boolean;
+  equations: SessionEquation[];
+  /** Only the session's teacher pins equations to the summary. */
+  canPin: boolean;
+  insertLabel: string;
+  onInsert: (latex: string) => Promise<boolean>;
+  onPin: (equationId: string, pinned: boolean) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const snippets = [
+  { label: 'a/b', latex: '\\frac{a}{b}' },
+  { label: 'xⁿ', latex: 'x^{n}' },
+  { label: 'xᵢ', latex: 'x_{i}' },
+  { label: '√', latex: '\\sqrt{x}' },
+  { label: '∑', latex: '\\sum_{i=1}^{n}' },
+  { label: '∫', latex: '\\int_{a}^{b}' },
+  { label: 'lim', latex: '\\lim_{x \\to \\infty}' },
+  { label: 'vec', latex: '\\vec{F}' },
+  { label: 'H₂O', latex: '\\ce{H2O}' },
+  { label: '→', latex: '\\ce{A + B -> C}' },
+];
+
+const EquationEditorDialog = ({
+  open,
+  equations,
+  canPin,
+  insertLabel,
+  onInsert,
+  onPin,
+  onClose,
+}: EquationEditorDialogProps) => {
+  const [latex, setLatex] = useState('');
+  const [inserting, setInserting] = useState(false);
+
+  useEffect(() => {
+    if (open) setLatex('');
+  }, [open]);
+
+  const ready = useEquationRenderer();
+  const trimmed = latex.trim();
+  const error = useMemo(() => (ready && trimmed ? renderEquation(trimmed)?.error : null), [ready, trimmed]);
+  const tooLong = trimmed.length > EQUATION_MAX_LENGTH;
+  // Most recent first, one entry per equation (the pinned copy if there is one)
+  const history = useMemo(() => {
+    const byLatex = new Map<string, SessionEquation>();
+    [...equations].reverse().forEach((equation) => {
+      const existing = byLatex.get(equation.latex);
+      if (!existing || (!existing.pinned_at && equation.pinned_at)) byLatex.set(equation.latex, equation);
+    });
+    return [...byLatex.values()];
+  }, [equations]);
+
+  const handleInsert = async () => {
+    if (!ready || !trimmed || error || tooLong || inserting) return;
+
+    setInserting(true);
+    if (await onInsert(trimmed)) onClose();
+    setInserting(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Ecuación</DialogTitle>
+          <DialogDescription>Escribe en LaTeX; la vista previa se actualiza mientras escribes.</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap gap-1">
+          {snippets.map((snippet) => (
+            <Button
+              key={snippet.latex}
+              variant="outline"
+              size="sm"
+              className="h-8 px-2 font-mono"
+              onClick={() => setLatex((current) => `${current}${current && !current.endsWith(' ') ? ' ' : ''}${snippet.latex}`)}
+              title={snippet.latex}
+            >
+              {snippet.label}
+            </Button>
+          ))}
+        </div>
+
+        <Textarea
+          autoFocus
+          value={latex}
+          onChange={(e) => setLatex(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+              e.preventDefault();
+              handleInsert();
+            }
+          }}
+          placeholder="E = mc^2"
+          rows={3}
+          className="font-mono resize-none"
+        />
+
+        <div className="min-h-20 rounded-lg border border-border bg-muted/50 px-4 py-3 flex items-center justify-center text-foreground">
+          {!trimmed ? (
+            <span className="text-sm text-muted-foreground">Vista previa</span>
+          ) : error ? (
+            <span className="text-sm text-destructive">{error}</span>
+          ) : tooLong ? (
+            <span className="text-sm text-destructive">
+              La ecuación no puede superar {EQUATION_MAX_LENGTH} caracteres.
+            </span>
+          ) : (
+            <Equation latex={trimmed} />
+          )}
+        </div>
+
+        {history.length > 0 && (
+          <div>
+            <p className="text-sm font-medium text-foreground mb-2">Historial de la sesión</p>
+            <div className="max-h-48 overflow-y-auto space-y-1 pr-1">
+              {history.map((equation) => (
+                <div key={equation.id} className="flex items-center gap-2 rounded-lg hover:bg-muted px-2">
+                  <button
+                    className="flex-1 min-w-0 text-left text-foreground py-1"
+                    onClick={() => setLatex(equation.latex)}
+                    title="Editar de nuevo"
+                  >
+                    <Equation latex={equation.latex} className="text-sm" />
+                  </button>
+                  {canPin ? (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 shrink-0"
+                      onClick={() => onPin(equation.id, !equation.pinned_at)}
+                      title={equation.pinned_at ? 'Quitar del resumen' : 'Fijar en el resumen'}
+                    >
+                      {equation.pinned_at ? (
+                        <PinOff className="w-4 h-4" />
+                      ) : (
+                        <Pin className="w-4 h-4" />
+                      )}
+                    </Button>
+                  ) : (
+                    equation.pinned_at && <Pin className="w-4 h-4 shrink-0 text-primary" aria-label="En el resumen" />
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancelar
+          </Button>
+          <Button onClick={handleInsert} disabled={!ready || !trimmed || !!error || tooLong || inserting}>
+            {inserting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {insertLabel}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EquationEditorDialog;
@@ -0,0 +1,59 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Clock, Loader2 } from 'lucide-react';
+import { SESSION_EXTENSION_MINUTES } from '@/lib/sessions';
+
+interface ExtensionRequestDialogProps {
+  open: boolean;
+  requesterName: string | undefined;
+  onAccept: () => Promise<unknown>;
+  onDecline: () => Promise<unknown>;
+}
+
+const ExtensionRequestDialog = ({ open, requesterName, onAccept, onDecline }: ExtensionRequestDialogProps) => {
+  const [responding, setResponding] = useState(false);
+
+  const respond = async (answer: () => Promise<unknown>) => {
+    setResponding(true);
+    await answer();
+    setResponding(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && !responding && respond(onDecline)}>
+      <DialogContent className="max-w-sm text-center" onInteractOutside={(e) => e.preventDefault()}>
+        <div className="w-14 h-14 rounded-full bg-primary/10 flex items-center justify-center mx-auto mt-2">
+          <Clock className="w-7 h-7 text-primary" />
+        </div>
+
+        <DialogHeader className="sm:text-center">
+          <DialogTitle>
+            {requesterName ?? 'El otro participante'} quiere {SESSION_EXTENSION_MINUTES} minutos más
+          </DialogTitle>
+          <DialogDescription>
+            Si aceptas, la sesión se alargará {SESSION_EXTENSION_MINUTES} minutos y contará en su duración.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-3">
+          <Button variant="outline" onClick={() => respond(onDecline)} disabled={responding}>
+            Rechazar
+          </Button>
+          <Button onClick={() => respond(onAccept)} disabled={responding}>
+            {responding && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+            Aceptar
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExtensionRequestDialog;
@@ -0,0 +1,49 @@
+import ReactMarkdown from 'react-markdown';
+import remarkMath from 'remark-math';
+import Equation from './Equation';
+
+interface MessageContentProps {
+  body: string;
+}
+
+// Chat messages support a small markdown subset: emphasis, lists, links, code and $$LaTeX$$
+const MessageContent = ({ body }: MessageContentProps) => (
+  <ReactMarkdown
+    // A single $ is too common in prices to mean math
+    remarkPlugins={[[remarkMath, { singleDollarTextMath: false }]]}
+    components={{
+      p: ({ children }) => <p className="whitespace-pre-wrap break-words [&:not(:last-child)]:mb-2">{children}</p>,
+      a: ({ children, href }) => (
+        <a href={href} target="_blank" rel="noopener noreferrer" className="underline underline-offset-2">
+          {children}
+        </a>
+      ),
+      ul: ({ children }) => <ul className="list-disc pl-5 mb-2">{children}</ul>,
+      ol: ({ children }) => <ol className="list-decimal pl-5 mb-2">{children}</ol>,
+      pre: ({ children, node }) => {
+        // Display math arrives wrapped in a code block; `code` below renders it
+        const [child] = node?.children ?? [];
+        if (child?.type === 'element' && String(child.properties.className).includes('math-display')) {
+          return <>{children}</>;
+        }
+        return (
+          <pre className="bg-foreground/90 text-primary-foreground rounded-lg p-3 my-2 overflow-x-auto text-xs [&_code]:bg-transparent [&_code]:p-0">
+            {children}
+          </pre>
+        );
+      },
+      code: ({ children, className }) =>
+        className?.includes('language-math') ? (
+          <Equation latex={String(children).trim()} display={className.includes('math-display')} />
+        ) : (
+          <code className={`font-mono ${className ? '' : 'bg-foreground/10 rounded px-1 py-0.5 text-[0.85em]'}`}>
+            {children}
+          </code>
+        ),
+    }}
+  >
+    {body}
+  </ReactMarkdown>
+);
+
+export default MessageContent;
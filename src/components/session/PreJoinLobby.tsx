@@ -0,0 +1,185 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Loader2, Mic, MicOff, Video, VideoOff, AlertCircle } from 'lucide-react';
+import DeviceSettings from './DeviceSettings';
+import {
+  DevicePreferences,
+  devicePreferenceKeys,
+  openLocalStream,
+  saveDevicePreferences,
+} from '@/lib/media-devices';
+
+interface PreJoinLobbyProps {
+  otherUser: { full_name: string; avatar_url: string | null } | undefined;
+  subjectLabel: string;
+  initialPreferences: DevicePreferences;
+  onJoin: (stream: MediaStream | null, preferences: DevicePreferences) => void;
+}
+
+const getInitials = (name: string) => {
+  return name.split(' ').map((n) => n[0]).join('').toUpperCase().slice(0, 2);
+};
+
+/** Device check before entering the call. The preview stream is handed over on join. */
+const PreJoinLobby = ({ otherUser, subjectLabel, initialPreferences, onJoin }: PreJoinLobbyProps) => {
+  const [preferences, setPreferences] = useState(initialPreferences);
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [mediaError, setMediaError] = useState<string | null>(null);
+  const [micEnabled, setMicEnabled] = useState(true);
+  const [cameraEnabled, setCameraEnabled] = useState(true);
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const handedOffRef = useRef(false);
+
+  // Only a change of input device reopens the preview; the speaker choice doesn't affect it
+  const { audioInputId, videoInputId } = preferences;
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    openLocalStream({ audioInputId, videoInputId })
+      .then((opened) => {
+        if (cancelled) {
+          opened.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        streamRef.current?.getTracks().forEach((track) => track.stop());
+        streamRef.current = opened;
+        setStream(opened);
+        setMediaError(null);
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.error('Error accessing media devices:', error);
+        setMediaError(
+          error instanceof DOMException && error.name === 'NotAllowedError'
+            ? 'El navegador bloqueó el acceso a la cámara y al micrófono. Revisa los permisos del sitio.'
+            : 'No se encontró ningún micrófono ni cámara disponible.'
+        );
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [audioInputId, videoInputId]);
+
+  useEffect(() => {
+    return () => {
+      if (!handedOffRef.current) {
+        streamRef.current?.getTracks().forEach((track) => track.stop());
+      }
+    };
+  }, []);
+
+  useEffect(() => {
+    if (videoRef.current) {
+      videoRef.current.srcObject = stream;
+    }
+    stream?.getAudioTracks().forEach((track) => (track.enabled = micEnabled));
+    stream?.getVideoTracks().forEach((track) => (track.enabled = cameraEnabled));
+  }, [stream, micEnabled, cameraEnabled]);
+
+  const hasCamera = !!stream && stream.getVideoTracks().length > 0;
+
+  const handleSelect = (kind: MediaDeviceKind, deviceId: string) => {
+    setPreferences((current) => ({ ...current, [devicePreferenceKeys[kind]]: deviceId }));
+  };
+
+  const handleJoin = () => {
+    saveDevicePreferences(preferences);
+    handedOffRef.current = true;
+    onJoin(streamRef.current, preferences);
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-6">
+      <div className="bg-card rounded-3xl border border-border p-6 md:p-8 w-full max-w-4xl grid md:grid-cols-2 gap-8">
+        <div className="space-y-4">
+          <div className="relative aspect-video bg-foreground rounded-2xl overflow-hidden flex items-center justify-center">
+            <video
+              ref={videoRef}
+              autoPlay
+              playsInline
+              muted
+              className={`w-full h-full object-cover ${hasCamera && cameraEnabled ? '' : 'hidden'}`}
+            />
+            {loading ? (
+              <Loader2 className="w-8 h-8 text-primary animate-spin" />
+            ) : (
+              (!hasCamera || !cameraEnabled) && (
+                <div className="text-center text-primary-foreground/70">
+                  <VideoOff className="w-10 h-10 mx-auto mb-2" />
+                  <p className="text-sm">{hasCamera ? 'Cámara apagada' : 'Sin cámara'}</p>
+                </div>
+              )
+            )}
+
+            <div className="absolute bottom-3 left-1/2 -translate-x-1/2 flex gap-2">
+              <Button
+                variant={micEnabled ? 'secondary' : 'destructive'}
+                size="icon"
+                className="rounded-full"
+                onClick={() => setMicEnabled(!micEnabled)}
+                disabled={!stream}
+              >
+                {micEnabled ? <Mic className="w-4 h-4" /> : <MicOff className="w-4 h-4" />}
+              </Button>
+              <Button
+                variant={cameraEnabled && hasCamera ? 'secondary' : 'destructive'}
+                size="icon"
+                className="rounded-full"
+                onClick={() => setCameraEnabled(!cameraEnabled)}
+                disabled={!hasCamera}
+              >
+                {cameraEnabled && hasCamera ? <Video className="w-4 h-4" /> : <VideoOff className="w-4 h-4" />}
+              </Button>
+            </div>
+          </div>
+
+          {mediaError && (
+            <div className="flex items-start gap-2 rounded-xl bg-destructive/10 p-3 text-sm text-destructive">
+              <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+              {mediaError}
+            </div>
+          )}
+        </div>
+
+        <div className="flex flex-col">
+          <div className="flex items-center gap-3 mb-6">
+            <Avatar className="h-12 w-12">
+              <AvatarImage src={otherUser?.avatar_url || undefined} />
+              <AvatarFallback className="bg-primary text-primary-foreground">
+                {otherUser ? getInitials(otherUser.full_name) : 'U'}
+              </AvatarFallback>
+            </Avatar>
+            <div>
+              <h1 className="text-xl font-bold text-foreground">¿Todo listo?</h1>
+              <p className="text-sm text-muted-foreground">
+                Sesión con {otherUser?.full_name} · {subjectLabel}
+              </p>
+            </div>
+          </div>
+
+          <DeviceSettings stream={stream} preferences={preferences} onSelect={handleSelect} />
+
+          <Button variant="hero" size="lg" className="w-full mt-8" onClick={handleJoin} disabled={loading}>
+            {!stream
+              ? 'Unirse sin cámara ni micrófono'
+              : hasCamera
+                ? 'Unirse a la sesión'
+                : 'Unirse solo con audio'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PreJoinLobby;
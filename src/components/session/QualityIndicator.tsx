@@ -0,0 +1,53 @@
+import { Signal, SignalLow, SignalMedium, SignalZero } from 'lucide-react';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { CallQuality, callQualityLabels, DirectionStats } from '@/lib/call-quality';
+
+interface QualityIndicatorProps {
+  quality: CallQuality;
+  label: string;
+  direction: DirectionStats | undefined;
+  rttMs: number | null | undefined;
+  className?: string;
+}
+
+const icons = {
+  good: Signal,
+  fair: SignalMedium,
+  poor: SignalLow,
+  unknown: SignalZero,
+};
+
+const colors: Record<CallQuality, string> = {
+  good: 'text-emerald-500',
+  fair: 'text-amber-400',
+  poor: 'text-destructive',
+  unknown: 'text-muted-foreground',
+};
+
+/** Signal bars for one side of the call, with the underlying numbers on hover. */
+const QualityIndicator = ({ quality, label, direction, rttMs, className = '' }: QualityIndicatorProps) => {
+  const Icon = icons[quality];
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span className={`inline-flex ${className}`} aria-label={`${label}: ${callQualityLabels[quality]}`}>
+          <Icon className={`w-4 h-4 ${colors[quality]}`} />
+        </span>
+      </TooltipTrigger>
+      <TooltipContent>
+        <p className="font-medium">
+          {label}: {callQualityLabels[quality]}
+        </p>
+        {direction && (
+          <p className="text-xs text-muted-foreground">
+            {Math.round(direction.kbps)} kbps · {(direction.packetLoss * 100).toFixed(1)}% pérdida
+            {rttMs != null && ` · ${Math.round(rttMs)} ms`}
+          </p>
+        )}
+      </TooltipContent>
+    </Tooltip>
+  );
+};
+
+export default QualityIndicator;
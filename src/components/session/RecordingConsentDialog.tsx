@@ -0,0 +1,58 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Circle, Loader2 } from 'lucide-react';
+import { RECORDING_RETENTION_DAYS } from '@/lib/recording';
+
+interface RecordingConsentDialogProps {
+  open: boolean;
+  requesterName: string | undefined;
+  onAccept: () => Promise<unknown>;
+  onDecline: () => Promise<unknown>;
+}
+
+const RecordingConsentDialog = ({ open, requesterName, onAccept, onDecline }: RecordingConsentDialogProps) => {
+  const [responding, setResponding] = useState(false);
+
+  const respond = async (answer: () => Promise<unknown>) => {
+    setResponding(true);
+    await answer();
+    setResponding(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && !responding && respond(onDecline)}>
+      <DialogContent className="max-w-sm text-center" onInteractOutside={(e) => e.preventDefault()}>
+        <div className="w-14 h-14 rounded-full bg-destructive/10 flex items-center justify-center mx-auto mt-2">
+          <Circle className="w-7 h-7 text-destructive fill-destructive" />
+        </div>
+
+        <DialogHeader className="sm:text-center">
+          <DialogTitle>{requesterName ?? 'El otro participante'} quiere grabar la sesión</DialogTitle>
+          <DialogDescription>
+            La grabación incluirá el video y el audio de ambos. Estará disponible en el historial durante{' '}
+            {RECORDING_RETENTION_DAYS} días y cualquiera de los dos podrá borrarla.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-3">
+          <Button variant="outline" onClick={() => respond(onDecline)} disabled={responding}>
+            Rechazar
+          </Button>
+          <Button onClick={() => respond(onAccept)} disabled={responding}>
+            {responding && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+            Aceptar
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RecordingConsentDialog;
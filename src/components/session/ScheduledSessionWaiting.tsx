@@ -0,0 +1,85 @@
+import { useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { Button } from '@/components/ui/button';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { CalendarClock, Loader2 } from 'lucide-react';
+import { useCountdown } from '@/hooks/use-countdown';
+
+interface ScheduledSessionWaitingProps {
+  otherUser: { full_name: string; avatar_url: string | null } | undefined;
+  subjectLabel: string;
+  scheduledAt: string;
+  starting: boolean;
+  onStart: () => void;
+}
+
+const getInitials = (name: string) => {
+  return name.split(' ').map((n) => n[0]).join('').toUpperCase().slice(0, 2);
+};
+
+const formatRemaining = (seconds: number) => {
+  const days = Math.floor(seconds / 86400);
+  if (days > 0) return `${days} ${days === 1 ? 'día' : 'días'}`;
+
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+  return [hours, minutes, secs].map((n) => n.toString().padStart(2, '0')).join(':');
+};
+
+/** Shown when a booked session is opened early; it starts the session by itself at the start time. */
+const ScheduledSessionWaiting = ({ otherUser, subjectLabel, scheduledAt, starting, onStart }: ScheduledSessionWaitingProps) => {
+  const navigate = useNavigate();
+  const startsAt = new Date(scheduledAt);
+  const remaining = useCountdown(startsAt.getTime());
+  const startedRef = useRef(false);
+
+  useEffect(() => {
+    if (remaining > 0 || startedRef.current) return;
+    startedRef.current = true;
+    onStart();
+  }, [remaining, onStart]);
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-6">
+      <div className="bg-card rounded-3xl border border-border p-8 max-w-md w-full text-center">
+        <Avatar className="h-16 w-16 mx-auto mb-4">
+          <AvatarImage src={otherUser?.avatar_url || undefined} />
+          <AvatarFallback className="bg-primary text-primary-foreground text-lg">
+            {otherUser ? getInitials(otherUser.full_name) : 'U'}
+          </AvatarFallback>
+        </Avatar>
+
+        <h1 className="text-xl font-bold text-foreground mb-1">Clase con {otherUser?.full_name}</h1>
+        <p className="text-sm text-muted-foreground mb-6">{subjectLabel}</p>
+
+        <div className="flex items-center justify-center gap-2 text-sm text-foreground mb-2">
+          <CalendarClock className="w-4 h-4 text-primary" />
+          {format(startsAt, "EEEE d 'de' MMMM, HH:mm", { locale: es })}
+        </div>
+
+        {remaining > 0 ? (
+          <>
+            <p className="text-4xl font-bold text-foreground tabular-nums my-6">{formatRemaining(remaining)}</p>
+            <p className="text-sm text-muted-foreground mb-6">
+              Puedes dejar esta página abierta; la clase empezará sola a la hora reservada.
+            </p>
+          </>
+        ) : (
+          <Button variant="hero" size="lg" className="w-full my-6" onClick={onStart} disabled={starting}>
+            {starting && <Loader2 className="w-5 h-5 animate-spin mr-2" />}
+            Empezar la clase
+          </Button>
+        )}
+
+        <Button variant="outline" className="w-full" onClick={() => navigate('/dashboard')}>
+          Volver al panel
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ScheduledSessionWaiting;
@@ -0,0 +1,106 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Download, FileText, Loader2 } from 'lucide-react';
+import { formatFileSize, getSessionFileUrl, isImageFile } from '@/lib/session-files';
+
+export type SessionFile = Tables<'session_files'>;
+
+/** A shared file with an inline preview; images and PDFs open full size in a dialog. */
+export const SessionFileCard = ({ file }: { file: SessionFile }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [previewOpen, setPreviewOpen] = useState(false);
+  const isImage = isImageFile(file.mime_type);
+
+  useEffect(() => {
+    let cancelled = false;
+    getSessionFileUrl(file.storage_path).then((signedUrl) => {
+      if (!cancelled) setUrl(signedUrl);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [file.storage_path]);
+
+  return (
+    <>
+      {isImage ? (
+        <button
+          onClick={() => setPreviewOpen(true)}
+          disabled={!url}
+          className="block w-48 h-32 rounded-xl overflow-hidden bg-muted"
+        >
+          {url ? (
+            <img src={url} alt={file.file_name} className="w-full h-full object-cover" />
+          ) : (
+            <Loader2 className="w-5 h-5 m-auto text-muted-foreground animate-spin" />
+          )}
+        </button>
+      ) : (
+        <button
+          onClick={() => setPreviewOpen(true)}
+          disabled={!url}
+          className="flex items-center gap-3 w-56 p-3 rounded-xl bg-background/80 text-left text-foreground hover:bg-background"
+        >
+          <FileText className="w-8 h-8 text-primary shrink-0" />
+          <span className="min-w-0">
+            <span className="block text-sm font-medium truncate">{file.file_name}</span>
+            <span className="block text-xs text-muted-foreground">{formatFileSize(file.size_bytes)}</span>
+          </span>
+        </button>
+      )}
+
+      <Dialog open={previewOpen} onOpenChange={setPreviewOpen}>
+        <DialogContent className="max-w-4xl">
+          <DialogHeader>
+            <DialogTitle className="truncate pr-6">{file.file_name}</DialogTitle>
+            <DialogDescription>{formatFileSize(file.size_bytes)}</DialogDescription>
+          </DialogHeader>
+          {url && (
+            <>
+              {isImage ? (
+                <img src={url} alt={file.file_name} className="max-h-[70vh] mx-auto rounded-lg" />
+              ) : (
+                <iframe src={url} title={file.file_name} className="w-full h-[70vh] rounded-lg border border-border" />
+              )}
+              <Button variant="outline" asChild className="justify-self-end">
+                <a href={url} download={file.file_name} target="_blank" rel="noopener noreferrer">
+                  <Download className="w-4 h-4 mr-2" />
+                  Descargar
+                </a>
+              </Button>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+/** Loads the file a chat message points to and renders it as a {@link SessionFileCard}. */
+export const MessageAttachment = ({ fileId }: { fileId: string }) => {
+  const [file, setFile] = useState<SessionFile | null>(null);
+
+  useEffect(() => {
+    supabase
+      .from('session_files')
+      .select('*')
+      .eq('id', fileId)
+      .maybeSingle()
+      .then(({ data }) => setFile(data));
+  }, [fileId]);
+
+  if (!file) {
+    return <Loader2 className="w-4 h-4 animate-spin" />;
+  }
+
+  return <SessionFileCard file={file} />;
+};
@@ -0,0 +1,406 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Pencil,
+  Minus,
+  Square,
+  Circle,
+  Type,
+  Eraser,
+  Undo2,
+  ChevronLeft,
+  ChevronRight,
+  Plus,
+  X,
+  Loader2,
+  Paperclip,
+  Sigma
+} from 'lucide-react';
+import { useWhiteboard } from '@/hooks/use-whiteboard';
+import type { SessionEquations } from '@/hooks/use-session-equations';
+import EquationEditorDialog from './EquationEditorDialog';
+import {
+  hitTest,
+  loadEquationImages,
+  renderPage,
+  drawElement,
+  Point,
+  WhiteboardElement,
+  WhiteboardTool,
+  WHITEBOARD_HEIGHT,
+  WHITEBOARD_WIDTH,
+} from '@/lib/whiteboard';
+import { ALLOWED_SESSION_FILE_TYPES } from '@/lib/session-files';
+
+interface WhiteboardProps {
+  sessionId: string | undefined;
+  profileId: string | undefined;
+  open: boolean;
+  /** Offers the equation tool when set. */
+  equations?: SessionEquations;
+  canPinEquations: boolean;
+  onShareFile: (file: File) => Promise<void>;
+  onClose: () => void;
+}
+
+const tools: { id: WhiteboardTool; label: string; icon: typeof Pencil }[] = [
+  { id: 'pen', label: 'Lápiz', icon: Pencil },
+  { id: 'line', label: 'Línea', icon: Minus },
+  { id: 'rect', label: 'Rectángulo', icon: Square },
+  { id: 'ellipse', label: 'Elipse', icon: Circle },
+  { id: 'text', label: 'Texto', icon: Type },
+  { id: 'equation', label: 'Ecuación', icon: Sigma },
+  { id: 'eraser', label: 'Borrador', icon: Eraser },
+];
+
+const colors = ['#111827', '#2563eb', '#dc2626', '#16a34a', '#f59e0b'];
+const sizes = [2, 4, 8];
+const ERASER_RADIUS = 12;
+
+// Kept mounted while closed so the board stays in sync for the whole call
+const Whiteboard = ({
+  sessionId,
+  profileId,
+  open,
+  equations,
+  canPinEquations,
+  onShareFile,
+  onClose,
+}: WhiteboardProps) => {
+  const { board, loading, canUndo, addElement, removeElement, undo, addPage } = useWhiteboard(
+    sessionId,
+    profileId
+  );
+
+  const [tool, setTool] = useState<WhiteboardTool>('pen');
+  const [color, setColor] = useState(colors[0]);
+  const [size, setSize] = useState(sizes[1]);
+  const [page, setPage] = useState(0);
+  const [draft, setDraft] = useState<WhiteboardElement | null>(null);
+  const [textInput, setTextInput] = useState<{ at: Point; left: number; top: number; value: string } | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [equationAt, setEquationAt] = useState<Point | null>(null);
+  // Bumped when equation images finish loading, so the page is drawn again with them
+  const [equationImagesVersion, setEquationImagesVersion] = useState(0);
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawingRef = useRef(false);
+  const erasedRef = useRef(new Set<string>());
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    renderPage(ctx, board.elements, page);
+    if (draft) drawElement(ctx, draft);
+  }, [board, page, draft, open, equationImagesVersion]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadEquationImages(board.elements).then(() => {
+      if (!cancelled) setEquationImagesVersion((version) => version + 1);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [board]);
+
+  useEffect(() => {
+    if (page >= board.pageCount) setPage(board.pageCount - 1);
+  }, [board.pageCount, page]);
+
+  const toBoardPoint = (event: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return [
+      ((event.clientX - rect.left) / rect.width) * WHITEBOARD_WIDTH,
+      ((event.clientY - rect.top) / rect.height) * WHITEBOARD_HEIGHT,
+    ];
+  };
+
+  const eraseAt = (point: Point) => {
+    board.elements
+      .filter((e) => e.page === page && !erasedRef.current.has(e.id) && hitTest(e, point, ERASER_RADIUS))
+      .forEach((e) => {
+        erasedRef.current.add(e.id);
+        removeElement(e);
+      });
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!profileId || loading) return;
+    const point = toBoardPoint(event);
+
+    if (tool === 'text') {
+      const rect = event.currentTarget.getBoundingClientRect();
+      setTextInput({
+        at: point,
+        left: event.clientX - rect.left,
+        top: event.clientY - rect.top,
+        value: '',
+      });
+      return;
+    }
+
+    if (tool === 'equation') {
+      setEquationAt(point);
+      return;
+    }
+
+    event.currentTarget.setPointerCapture(event.pointerId);
+    drawingRef.current = true;
+
+    if (tool === 'eraser') {
+      erasedRef.current.clear();
+      eraseAt(point);
+      return;
+    }
+
+    const base = { id: crypto.randomUUID(), page, color, size, authorId: profileId };
+    setDraft(
+      tool === 'pen'
+        ? { ...base, kind: 'stroke', points: [point] }
+        : { ...base, kind: tool, from: point, to: point }
+    );
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    const point = toBoardPoint(event);
+
+    if (tool === 'eraser') {
+      eraseAt(point);
+      return;
+    }
+
+    setDraft((current) => {
+      if (!current) return current;
+      if (current.kind === 'stroke') return { ...current, points: [...current.points, point] };
+      if (current.kind === 'text') return current;
+      return { ...current, to: point };
+    });
+  };
+
+  const handlePointerUp = () => {
+    if (!drawingRef.current) return;
+    drawingRef.current = false;
+
+    if (draft) {
+      addElement(draft);
+      setDraft(null);
+    }
+  };
+
+  const commitText = () => {
+    if (textInput && textInput.value.trim() && profileId) {
+      addElement({
+        id: crypto.randomUUID(),
+        page,
+        color,
+        size,
+        authorId: profileId,
+        kind: 'text',
+        at: textInput.at,
+        text: textInput.value.trim(),
+      });
+    }
+    setTextInput(null);
+  };
+
+  const insertEquation = async (latex: string) => {
+    if (!equationAt || !profileId) return false;
+
+    addElement({
+      id: crypto.randomUUID(),
+      page,
+      color,
+      size,
+      authorId: profileId,
+      kind: 'equation',
+      at: equationAt,
+      latex,
+    });
+    await equations?.addEquation(latex, 'whiteboard');
+    return true;
+  };
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setUploading(true);
+    await onShareFile(file);
+    setUploading(false);
+  };
+
+  const handleAddPage = () => {
+    setPage(addPage());
+  };
+
+  return (
+    <div
+      className={`absolute inset-4 z-10 bg-card rounded-3xl overflow-hidden flex-col shadow-2xl ${
+        open ? 'flex' : 'hidden'
+      }`}
+    >
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-2 p-3 border-b border-border">
+        <div className="flex items-center gap-1">
+          {tools.filter(({ id }) => id !== 'equation' || equations).map(({ id, label, icon: Icon }) => (
+            <Button
+              key={id}
+              variant={tool === id ? 'default' : 'ghost'}
+              size="icon"
+              className="h-9 w-9"
+              onClick={() => setTool(id)}
+              title={label}
+            >
+              <Icon className="w-4 h-4" />
+            </Button>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-1 px-2 border-l border-border">
+          {colors.map((c) => (
+            <button
+              key={c}
+              onClick={() => setColor(c)}
+              className={`w-6 h-6 rounded-full border-2 transition-transform ${
+                color === c ? 'border-primary scale-110' : 'border-transparent'
+              }`}
+              style={{ backgroundColor: c }}
+              aria-label={c}
+            />
+          ))}
+        </div>
+
+        <div className="flex items-center gap-1 px-2 border-l border-border">
+          {sizes.map((s) => (
+            <button
+              key={s}
+              onClick={() => setSize(s)}
+              className={`w-8 h-8 rounded-lg flex items-center justify-center ${
+                size === s ? 'bg-primary/10' : 'hover:bg-muted'
+              }`}
+            >
+              <span className="rounded-full bg-foreground" style={{ width: s + 2, height: s + 2 }} />
+            </button>
+          ))}
+        </div>
+
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-9 w-9"
+          onClick={undo}
+          disabled={!canUndo}
+          title="Deshacer"
+        >
+          <Undo2 className="w-4 h-4" />
+        </Button>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={ALLOWED_SESSION_FILE_TYPES.join(',')}
+          className="hidden"
+          onChange={handleFileSelected}
+        />
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-9 w-9"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={uploading}
+          title="Compartir imagen o PDF"
+        >
+          {uploading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Paperclip className="w-4 h-4" />}
+        </Button>
+
+        <div className="flex items-center gap-1 ml-auto">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-9 w-9"
+            onClick={() => setPage((p) => Math.max(0, p - 1))}
+            disabled={page === 0}
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <span className="text-sm text-muted-foreground tabular-nums">
+            Página {page + 1}/{board.pageCount}
+          </span>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-9 w-9"
+            onClick={() => setPage((p) => Math.min(board.pageCount - 1, p + 1))}
+            disabled={page >= board.pageCount - 1}
+          >
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+          <Button variant="ghost" size="icon" className="h-9 w-9" onClick={handleAddPage} title="Nueva página">
+            <Plus className="w-4 h-4" />
+          </Button>
+          <Button variant="ghost" size="icon" className="h-9 w-9" onClick={onClose} title="Cerrar pizarra">
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      {/* Board */}
+      <div className="flex-1 min-h-0 flex items-center justify-center bg-muted p-4">
+        <div className="relative w-full max-h-full aspect-video">
+          <canvas
+            ref={canvasRef}
+            width={WHITEBOARD_WIDTH}
+            height={WHITEBOARD_HEIGHT}
+            className={`w-full h-full rounded-xl shadow touch-none ${
+              tool === 'text' ? 'cursor-text' : tool === 'equation' ? 'cursor-copy' : 'cursor-crosshair'
+            }`}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerLeave={handlePointerUp}
+          />
+
+          {textInput && (
+            <input
+              autoFocus
+              value={textInput.value}
+              onChange={(e) => setTextInput({ ...textInput, value: e.target.value })}
+              onBlur={commitText}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitText();
+                if (e.key === 'Escape') setTextInput(null);
+              }}
+              className="absolute bg-transparent border border-dashed border-primary outline-none px-1"
+              style={{ left: textInput.left, top: textInput.top, color }}
+              placeholder="Escribe..."
+            />
+          )}
+
+          {loading && (
+            <div className="absolute inset-0 flex items-center justify-center">
+              <Loader2 className="w-8 h-8 text-primary animate-spin" />
+            </div>
+          )}
+        </div>
+      </div>
+
+      {equations && (
+        <EquationEditorDialog
+          open={!!equationAt}
+          equations={equations.equations}
+          canPin={canPinEquations}
+          insertLabel="Añadir a la pizarra"
+          onInsert={insertEquation}
+          onPin={equations.setPinned}
+          onClose={() => setEquationAt(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default Whiteboard;
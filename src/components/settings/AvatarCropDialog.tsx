@@ -0,0 +1,149 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2, ZoomIn } from 'lucide-react';
+import { AvatarCrop, clampCrop, getCropScale, getInitialCrop, renderAvatar } from '@/lib/avatars';
+
+const VIEWPORT = 256;
+const MAX_ZOOM = 3;
+
+interface AvatarCropDialogProps {
+  file: File | null;
+  onClose: () => void;
+  onConfirm: (avatar: Blob) => Promise<void>;
+}
+
+/** Lets the user drag and zoom the picked picture into a square before it is uploaded. */
+const AvatarCropDialog = ({ file, onClose, onConfirm }: AvatarCropDialogProps) => {
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [crop, setCrop] = useState<AvatarCrop>({ zoom: 1, x: 0, y: 0 });
+  const [saving, setSaving] = useState(false);
+  const dragRef = useRef<{ pointerX: number; pointerY: number; crop: AvatarCrop } | null>(null);
+
+  useEffect(() => {
+    if (!file) return;
+
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      setImage(img);
+      setCrop(getInitialCrop(img, VIEWPORT));
+    };
+    img.src = url;
+
+    return () => {
+      URL.revokeObjectURL(url);
+      setImage(null);
+    };
+  }, [file]);
+
+  // Zoom around the center of the viewport
+  const handleZoom = (zoom: number) => {
+    if (!image) return;
+    const factor = zoom / crop.zoom;
+    const center = VIEWPORT / 2;
+    setCrop(clampCrop(image, VIEWPORT, {
+      zoom,
+      x: center - (center - crop.x) * factor,
+      y: center - (center - crop.y) * factor,
+    }));
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { pointerX: event.clientX, pointerY: event.clientY, crop };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag || !image) return;
+    setCrop(clampCrop(image, VIEWPORT, {
+      zoom: drag.crop.zoom,
+      x: drag.crop.x + event.clientX - drag.pointerX,
+      y: drag.crop.y + event.clientY - drag.pointerY,
+    }));
+  };
+
+  const handleConfirm = async () => {
+    if (!image) return;
+    setSaving(true);
+    try {
+      await onConfirm(await renderAvatar(image, VIEWPORT, crop));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const scale = image ? getCropScale(image, VIEWPORT, crop.zoom) : 1;
+
+  return (
+    <Dialog open={!!file} onOpenChange={(open) => !open && !saving && onClose()}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Ajusta tu foto</DialogTitle>
+          <DialogDescription>Arrastra la imagen y usa el zoom para encuadrarla.</DialogDescription>
+        </DialogHeader>
+
+        <div
+          className="relative mx-auto overflow-hidden rounded-full bg-muted cursor-move touch-none select-none"
+          style={{ width: VIEWPORT, height: VIEWPORT }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => { dragRef.current = null; }}
+          onPointerCancel={() => { dragRef.current = null; }}
+        >
+          {image ? (
+            <img
+              src={image.src}
+              alt=""
+              draggable={false}
+              className="absolute max-w-none pointer-events-none"
+              style={{
+                left: crop.x,
+                top: crop.y,
+                width: image.naturalWidth * scale,
+                height: image.naturalHeight * scale,
+              }}
+            />
+          ) : (
+            <div className="absolute inset-0 flex items-center justify-center">
+              <Loader2 className="w-6 h-6 text-muted-foreground animate-spin" />
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center gap-3">
+          <ZoomIn className="w-4 h-4 text-muted-foreground" />
+          <Slider
+            min={1}
+            max={MAX_ZOOM}
+            step={0.01}
+            value={[crop.zoom]}
+            onValueChange={([zoom]) => handleZoom(zoom)}
+            disabled={!image}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            Cancelar
+          </Button>
+          <Button onClick={handleConfirm} disabled={!image || saving}>
+            {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Guardar foto
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AvatarCropDialog;
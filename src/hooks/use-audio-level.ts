@@ -0,0 +1,45 @@
+import { useEffect, useState } from 'react';
+
+/** Current input level of the stream's microphone, from 0 (silence) to 1. */
+export function useAudioLevel(stream: MediaStream | null) {
+  const [level, setLevel] = useState(0);
+
+  const audioTrack = stream?.getAudioTracks()[0] ?? null;
+
+  useEffect(() => {
+    if (!audioTrack) {
+      setLevel(0);
+      return;
+    }
+
+    const context = new AudioContext();
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 512;
+    const source = context.createMediaStreamSource(new MediaStream([audioTrack]));
+    source.connect(analyser);
+
+    const samples = new Uint8Array(analyser.fftSize);
+    let frame = 0;
+
+    const measure = () => {
+      analyser.getByteTimeDomainData(samples);
+      let sum = 0;
+      for (const sample of samples) {
+        const value = (sample - 128) / 128;
+        sum += value * value;
+      }
+      // RMS of normal speech sits well below 0.3, so scale it up to fill the meter
+      setLevel(Math.min(1, Math.sqrt(sum / samples.length) * 4));
+      frame = requestAnimationFrame(measure);
+    };
+    measure();
+
+    return () => {
+      cancelAnimationFrame(frame);
+      source.disconnect();
+      context.close();
+    };
+  }, [audioTrack]);
+
+  return level;
+}
@@ -0,0 +1,177 @@
+import { useEffect, useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  applyVideoLevel,
+  CallQuality,
+  CallStatsSample,
+  rateQuality,
+  readStats,
+  StatsCounters,
+  STATS_INTERVAL_MS,
+  STATS_SAVE_INTERVAL_MS,
+  VIDEO_QUALITY_LEVELS,
+} from '@/lib/call-quality';
+
+interface UseCallQualityOptions {
+  sessionId: string | undefined;
+  profileId: string | undefined;
+  getPeerConnection: () => RTCPeerConnection | null;
+  reconnectCount: number;
+}
+
+interface StatsSummary {
+  samples: number;
+  rttSum: number;
+  rttSamples: number;
+  maxRtt: number;
+  lossSum: number;
+  incomingKbpsSum: number;
+  outgoingKbpsSum: number;
+  poorSamples: number;
+  lowestLevel: number;
+}
+
+const emptySummary = (): StatsSummary => ({
+  samples: 0,
+  rttSum: 0,
+  rttSamples: 0,
+  maxRtt: 0,
+  lossSum: 0,
+  incomingKbpsSum: 0,
+  outgoingKbpsSum: 0,
+  poorSamples: 0,
+  lowestLevel: 0,
+});
+
+// Consecutive samples needed before lowering or raising the outgoing video quality
+const DEGRADE_AFTER_SAMPLES = 2;
+const UPGRADE_AFTER_SAMPLES = 5;
+
+/**
+ * Samples the call's `getStats()` to rate both directions of the connection, lowers the outgoing
+ * video resolution while bandwidth is short (raising it again once it recovers), and keeps a
+ * summary that is saved to `session_call_stats`. The summary covers the current page load only;
+ * rejoining after a reload starts a new one, saved as its own row.
+ */
+export function useCallQuality({ sessionId, profileId, getPeerConnection, reconnectCount }: UseCallQualityOptions) {
+  const [stats, setStats] = useState<CallStatsSample | null>(null);
+  const [localQuality, setLocalQuality] = useState<CallQuality>('unknown');
+  const [remoteQuality, setRemoteQuality] = useState<CallQuality>('unknown');
+
+  const reconnectCountRef = useRef(reconnectCount);
+  reconnectCountRef.current = reconnectCount;
+
+  useEffect(() => {
+    if (!sessionId || !profileId) return;
+
+    const summaryId = crypto.randomUUID();
+    const summary = emptySummary();
+    let counters: StatsCounters | null = null;
+    let level = 0;
+    let badStreak = 0;
+    let goodStreak = 0;
+
+    const adaptVideo = (sample: CallStatsSample, quality: CallQuality) => {
+      const available = sample.availableOutgoingKbps;
+      const short = available !== null && available * 1000 < VIDEO_QUALITY_LEVELS[level].maxBitrate * 0.7;
+      const roomy = level > 0 && available !== null && available * 1000 > VIDEO_QUALITY_LEVELS[level - 1].maxBitrate * 1.2;
+
+      if (quality === 'poor' || short) {
+        goodStreak = 0;
+        badStreak += 1;
+        if (badStreak >= DEGRADE_AFTER_SAMPLES && level < VIDEO_QUALITY_LEVELS.length - 1) {
+          level += 1;
+          badStreak = 0;
+        }
+      } else if (quality === 'good' && roomy) {
+        badStreak = 0;
+        goodStreak += 1;
+        if (goodStreak >= UPGRADE_AFTER_SAMPLES) {
+          level -= 1;
+          goodStreak = 0;
+        }
+      } else {
+        badStreak = 0;
+        goodStreak = 0;
+      }
+      summary.lowestLevel = Math.max(summary.lowestLevel, level);
+    };
+
+    const sample = async () => {
+      const pc = getPeerConnection();
+      if (!pc || pc.connectionState !== 'connected') {
+        counters = null;
+        setLocalQuality('unknown');
+        setRemoteQuality('unknown');
+        return;
+      }
+
+      const result = readStats(await pc.getStats(), counters);
+      counters = result.counters;
+      if (!result.sample) return;
+
+      const current = result.sample;
+      const outgoing = rateQuality(current.outgoing, current.rttMs);
+      const incoming = rateQuality(current.incoming, current.rttMs);
+      setStats(current);
+      setLocalQuality(outgoing);
+      setRemoteQuality(incoming);
+
+      summary.samples += 1;
+      summary.lossSum += current.incoming.packetLoss;
+      summary.incomingKbpsSum += current.incoming.kbps;
+      summary.outgoingKbpsSum += current.outgoing.kbps;
+      if (current.rttMs !== null) {
+        summary.rttSum += current.rttMs;
+        summary.rttSamples += 1;
+        summary.maxRtt = Math.max(summary.maxRtt, current.rttMs);
+      }
+      if (outgoing === 'poor' || incoming === 'poor') summary.poorSamples += 1;
+
+      adaptVideo(current, outgoing);
+      await applyVideoLevel(pc, level);
+    };
+
+    const save = async () => {
+      if (summary.samples === 0) return;
+
+      const { error } = await supabase.from('session_call_stats').upsert(
+        {
+          id: summaryId,
+          session_id: sessionId,
+          profile_id: profileId,
+          samples: summary.samples,
+          avg_rtt_ms: summary.rttSamples > 0 ? Math.round(summary.rttSum / summary.rttSamples) : null,
+          max_rtt_ms: summary.rttSamples > 0 ? Math.round(summary.maxRtt) : null,
+          avg_packet_loss: Number((summary.lossSum / summary.samples).toFixed(4)),
+          avg_incoming_kbps: Math.round(summary.incomingKbpsSum / summary.samples),
+          avg_outgoing_kbps: Math.round(summary.outgoingKbpsSum / summary.samples),
+          poor_samples: summary.poorSamples,
+          reconnect_count: reconnectCountRef.current,
+          lowest_video_scale: VIDEO_QUALITY_LEVELS[summary.lowestLevel].scaleResolutionDownBy,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'id' }
+      );
+      if (error) {
+        console.error('Error saving call stats:', error);
+      }
+    };
+
+    const sampleInterval = setInterval(() => {
+      sample().catch((error) => console.error('Error reading call stats:', error));
+    }, STATS_INTERVAL_MS);
+    const saveInterval = setInterval(save, STATS_SAVE_INTERVAL_MS);
+
+    return () => {
+      clearInterval(sampleInterval);
+      clearInterval(saveInterval);
+      save();
+      setStats(null);
+      setLocalQuality('unknown');
+      setRemoteQuality('unknown');
+    };
+  }, [sessionId, profileId, getPeerConnection]);
+
+  return { stats, localQuality, remoteQuality };
+}
@@ -0,0 +1,21 @@
+import { useEffect, useState } from 'react';
+
+/** Seconds left until `deadline` (epoch ms), ticking once per second. Returns 0 once it has passed. */
+export function useCountdown(deadline: number | null) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!deadline) return;
+
+    setNow(Date.now());
+    const interval = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= deadline) clearInterval(interval);
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [deadline]);
+
+  return deadline ? Math.max(0, Math.ceil((deadline - now) / 1000)) : 0;
+}
@@ -0,0 +1,25 @@
+import { useEffect, useState } from 'react';
+import { isEquationRendererLoaded, loadEquationRenderer } from '@/lib/equations';
+
+/** Loads MathJax on first use; true once `renderEquation` returns results. */
+export const useEquationRenderer = () => {
+  const [ready, setReady] = useState(isEquationRendererLoaded);
+
+  useEffect(() => {
+    if (ready) return;
+
+    let cancelled = false;
+    loadEquationRenderer().then(
+      () => {
+        if (!cancelled) setReady(true);
+      },
+      (error) => console.error('Error loading MathJax:', error),
+    );
+
+    return () => {
+      cancelled = true;
+    };
+  }, [ready]);
+
+  return ready;
+};
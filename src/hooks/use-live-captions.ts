@@ -0,0 +1,175 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { createBrowserRecognizer, RecognizerFactory, SpeechRecognizer } from '@/lib/speech-recognition';
+
+type CaptionMessage =
+  | { type: 'state'; from: string; enabled: boolean }
+  | { type: 'sync-request'; from: string }
+  | { type: 'caption'; from: string; text: string; isFinal: boolean };
+
+export interface Caption {
+  speakerId: string;
+  text: string;
+  isFinal: boolean;
+  updatedAt: number;
+}
+
+/** How long a finished line stays on screen. */
+const CAPTION_LINGER_MS = 5 * 1000;
+
+interface UseLiveCaptionsOptions {
+  sessionId: string | undefined;
+  profileId: string | undefined;
+  language: string;
+  /** Nothing is recognized while the microphone is muted. */
+  muted: boolean;
+  recognizerFactory?: RecognizerFactory;
+}
+
+/**
+ * Live captions for both participants. Captions are switched on and off for the whole session:
+ * each side then recognizes its own microphone, broadcasts what it hears on the session's
+ * captions channel and stores every finished utterance in `session_transcript_segments`.
+ */
+export function useLiveCaptions({
+  sessionId,
+  profileId,
+  language,
+  muted,
+  recognizerFactory = createBrowserRecognizer,
+}: UseLiveCaptionsOptions) {
+  const [enabled, setEnabled] = useState(false);
+  const [captions, setCaptions] = useState<Record<string, Caption>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const enabledRef = useRef(enabled);
+  enabledRef.current = enabled;
+
+  const broadcast = useCallback((message: CaptionMessage) => {
+    channelRef.current?.send({ type: 'broadcast', event: 'captions', payload: message });
+  }, []);
+
+  const showCaption = useCallback((speakerId: string, text: string, isFinal: boolean) => {
+    setCaptions((current) => ({
+      ...current,
+      [speakerId]: { speakerId, text, isFinal, updatedAt: Date.now() },
+    }));
+  }, []);
+
+  useEffect(() => {
+    if (!sessionId || !profileId) return;
+
+    const channel = supabase
+      .channel(`session-captions:${sessionId}`, {
+        config: { broadcast: { self: false } },
+      })
+      .on('broadcast', { event: 'captions' }, ({ payload }) => {
+        const message = payload as CaptionMessage;
+
+        switch (message.type) {
+          case 'state':
+            setEnabled(message.enabled);
+            if (!message.enabled) setCaptions({});
+            break;
+          case 'sync-request':
+            if (enabledRef.current) {
+              broadcast({ type: 'state', from: profileId, enabled: true });
+            }
+            break;
+          case 'caption':
+            showCaption(message.from, message.text, message.isFinal);
+            break;
+        }
+      })
+      .subscribe((status) => {
+        if (status === 'SUBSCRIBED') {
+          broadcast({ type: 'sync-request', from: profileId });
+        }
+      });
+
+    channelRef.current = channel;
+
+    return () => {
+      supabase.removeChannel(channel);
+      channelRef.current = null;
+      setEnabled(false);
+      setCaptions({});
+    };
+  }, [sessionId, profileId, broadcast, showCaption]);
+
+  useEffect(() => {
+    if (!enabled || muted || !sessionId || !profileId) return;
+
+    let utteranceStartedAt: Date | null = null;
+    let recognizer: SpeechRecognizer;
+
+    try {
+      recognizer = recognizerFactory({
+        language,
+        onResult: ({ text, isFinal }) => {
+          utteranceStartedAt ??= new Date();
+          showCaption(profileId, text, isFinal);
+          broadcast({ type: 'caption', from: profileId, text, isFinal });
+
+          if (isFinal) {
+            const startedAt = utteranceStartedAt;
+            utteranceStartedAt = null;
+            supabase
+              .from('session_transcript_segments')
+              .insert({
+                session_id: sessionId,
+                speaker_id: profileId,
+                text: text.slice(0, 2000),
+                language,
+                started_at: startedAt.toISOString(),
+                ended_at: new Date().toISOString(),
+              })
+              .then(({ error: insertError }) => {
+                if (insertError) console.error('Error saving transcript segment:', insertError);
+              });
+          }
+        },
+        onError: setError,
+      });
+      recognizer.start();
+    } catch (startError) {
+      console.error('Error starting speech recognition:', startError);
+      setError('unsupported');
+      return;
+    }
+
+    return () => recognizer.stop();
+  }, [enabled, muted, sessionId, profileId, language, recognizerFactory, broadcast, showCaption]);
+
+  // Finished lines fade out after a while
+  useEffect(() => {
+    if (!enabled) return;
+
+    const interval = setInterval(() => {
+      const cutoff = Date.now() - CAPTION_LINGER_MS;
+      setCaptions((current) => {
+        const stale = Object.values(current).filter((c) => c.isFinal && c.updatedAt < cutoff);
+        if (stale.length === 0) return current;
+        const next = { ...current };
+        stale.forEach((c) => delete next[c.speakerId]);
+        return next;
+      });
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [enabled]);
+
+  const toggleCaptions = useCallback(() => {
+    if (!profileId) return;
+
+    const next = !enabledRef.current;
+    setEnabled(next);
+    setError(null);
+    if (!next) setCaptions({});
+    broadcast({ type: 'state', from: profileId, enabled: next });
+  }, [broadcast, profileId]);
+
+  return { enabled, captions: Object.values(captions), error, toggleCaptions };
+}
@@ -0,0 +1,47 @@
+import { useEffect, useState } from 'react';
+
+interface MediaDeviceLists {
+  audioInputs: MediaDeviceInfo[];
+  videoInputs: MediaDeviceInfo[];
+  audioOutputs: MediaDeviceInfo[];
+}
+
+const emptyLists: MediaDeviceLists = { audioInputs: [], videoInputs: [], audioOutputs: [] };
+
+/**
+ * Available cameras, microphones and speakers. Browsers only reveal device labels once
+ * access has been granted, so the list is refreshed whenever `stream` changes and when
+ * devices are plugged in or removed.
+ */
+export function useMediaDevices(stream: MediaStream | null) {
+  const [devices, setDevices] = useState<MediaDeviceLists>(emptyLists);
+
+  useEffect(() => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+
+    let cancelled = false;
+
+    const refresh = async () => {
+      const all = await navigator.mediaDevices.enumerateDevices();
+      if (cancelled) return;
+
+      // Entries without an id come from before permission was granted and can't be selected
+      const usable = all.filter((device) => device.deviceId);
+      setDevices({
+        audioInputs: usable.filter((device) => device.kind === 'audioinput'),
+        videoInputs: usable.filter((device) => device.kind === 'videoinput'),
+        audioOutputs: usable.filter((device) => device.kind === 'audiooutput'),
+      });
+    };
+
+    refresh();
+    navigator.mediaDevices.addEventListener('devicechange', refresh);
+
+    return () => {
+      cancelled = true;
+      navigator.mediaDevices.removeEventListener('devicechange', refresh);
+    };
+  }, [stream]);
+
+  return devices;
+}
@@ -0,0 +1,98 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import type { OutgoingRequest } from '@/lib/sessions';
+
+export type UnansweredReason = 'declined' | 'expired';
+
+/**
+ * A live request the student sent and is waiting on. Opens the session once the teacher accepts,
+ * and tells the student when the teacher declines or doesn't answer in time. `onUnanswered` can
+ * take over in those cases, e.g. to try another teacher; it returns whether it did.
+ */
+export function useOutgoingRequest(onUnanswered?: (request: OutgoingRequest, reason: UnansweredReason) => boolean) {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [request, setRequest] = useState<OutgoingRequest | null>(null);
+  const withdrawingRef = useRef(false);
+  const onUnansweredRef = useRef(onUnanswered);
+  onUnansweredRef.current = onUnanswered;
+
+  const notifyUnanswered = useCallback((unanswered: OutgoingRequest, reason: UnansweredReason) => {
+    if (onUnansweredRef.current?.(unanswered, reason)) return;
+
+    const teacherName = unanswered.teacher.full_name;
+    toast(
+      reason === 'declined'
+        ? {
+            variant: 'destructive',
+            title: 'Solicitud rechazada',
+            description: `${teacherName} no puede atenderte ahora. Intenta con otro tutor.`,
+          }
+        : {
+            title: 'Sin respuesta',
+            description: `${teacherName} no respondió a tiempo. Intenta con otro tutor.`,
+          }
+    );
+  }, [toast]);
+
+  useEffect(() => {
+    if (!request) return;
+
+    const channel = supabase
+      .channel(`session-request-${request.id}`)
+      .on('postgres_changes', {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'sessions',
+        filter: `id=eq.${request.id}`
+      }, (payload) => {
+        if (payload.new.status === 'active') {
+          setRequest(null);
+          navigate(`/session/${payload.new.id}`);
+        } else if (payload.new.status === 'cancelled' && !withdrawingRef.current) {
+          setRequest(null);
+          notifyUnanswered(request, 'declined');
+        }
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [request, navigate, notifyUnanswered]);
+
+  // Withdraw the request, unless the teacher accepted it in the meantime
+  const withdraw = useCallback(async (pending: OutgoingRequest) => {
+    withdrawingRef.current = true;
+    await supabase.rpc('cancel_session_request', { _session_id: pending.id });
+
+    const { data } = await supabase
+      .from('sessions')
+      .select('status')
+      .eq('id', pending.id)
+      .single();
+
+    setRequest(null);
+    withdrawingRef.current = false;
+
+    if (data?.status === 'active') {
+      navigate(`/session/${pending.id}`);
+      return false;
+    }
+    return true;
+  }, [navigate]);
+
+  const cancel = useCallback(async () => {
+    if (!request) return;
+    await withdraw(request);
+  }, [request, withdraw]);
+
+  const expire = useCallback(async () => {
+    if (!request) return;
+    if (await withdraw(request)) notifyUnanswered(request, 'expired');
+  }, [request, withdraw, notifyUnanswered]);
+
+  return { request, setRequest, cancel, expire };
+}
@@ -0,0 +1,316 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  getIceServers,
+  getSignalingChannelName,
+  ICE_RESTART_DELAY_MS,
+  ICE_RESTART_TIMEOUT_MS,
+  MAX_ICE_RESTARTS,
+  PeerConnectionState,
+  SignalMessage,
+} from '@/lib/webrtc';
+
+interface UsePeerConnectionOptions {
+  sessionId: string | undefined;
+  peerId: string | undefined;
+  /** The offerer owns the transceivers and (re)starts negotiation; the other side only answers. */
+  isOfferer: boolean;
+  localStream: MediaStream | null;
+  /** Sent instead of the camera while set, e.g. a screen share. Swapped in without renegotiating. */
+  videoTrackOverride?: MediaStreamTrack | null;
+}
+
+/**
+ * 1:1 WebRTC connection for a session, signaled over a Supabase Realtime broadcast channel.
+ *
+ * Each side announces itself with `ready` once subscribed. Whenever a peer (re)joins both sides
+ * rebuild their `RTCPeerConnection` and the offerer sends a fresh offer, so a reload on either
+ * end recovers the call without any persisted signaling state.
+ *
+ * When an established connection drops (e.g. a phone switching networks) the offerer restarts
+ * ICE a few times, and if that doesn't bring it back both sides rejoin from scratch.
+ */
+export function usePeerConnection({
+  sessionId,
+  peerId,
+  isOfferer,
+  localStream,
+  videoTrackOverride = null,
+}: UsePeerConnectionOptions) {
+  const [remoteStream, setRemoteStream] = useState<MediaStream | null>(null);
+  const [connectionState, setConnectionState] = useState<PeerConnectionState>('waiting');
+  const [isReconnecting, setIsReconnecting] = useState(false);
+  const [reconnectCount, setReconnectCount] = useState(0);
+
+  const pcRef = useRef<RTCPeerConnection | null>(null);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const localStreamRef = useRef<MediaStream | null>(localStream);
+  const videoTrackOverrideRef = useRef<MediaStreamTrack | null>(videoTrackOverride);
+  const pendingCandidatesRef = useRef<RTCIceCandidateInit[]>([]);
+  const signalQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const wasConnectedRef = useRef(false);
+  const recoveryTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const restartAttemptsRef = useRef(0);
+
+  const sendSignal = useCallback((message: SignalMessage) => {
+    channelRef.current?.send({ type: 'broadcast', event: 'signal', payload: message });
+  }, []);
+
+  // Signals and recovery steps must be applied in order: an answer or candidate
+  // processed before its offer would be rejected by the peer connection.
+  const enqueue = useCallback((task: () => Promise<void> | void) => {
+    signalQueueRef.current = signalQueueRef.current
+      .then(task)
+      .catch((error) => console.error('Error handling signal:', error));
+  }, []);
+
+  const clearRecovery = useCallback(() => {
+    if (recoveryTimerRef.current) {
+      clearTimeout(recoveryTimerRef.current);
+      recoveryTimerRef.current = null;
+    }
+    restartAttemptsRef.current = 0;
+    setIsReconnecting(false);
+  }, []);
+
+  const attachLocalTracks = useCallback((pc: RTCPeerConnection) => {
+    const tracks = localStreamRef.current?.getTracks() ?? [];
+
+    pc.getTransceivers().forEach((transceiver) => {
+      if (transceiver.currentDirection === 'stopped') return;
+
+      const kind = transceiver.receiver.track.kind;
+      const track = kind === 'video' && videoTrackOverrideRef.current
+        ? videoTrackOverrideRef.current
+        : tracks.find((t) => t.kind === kind) ?? null;
+      if (transceiver.sender.track !== track) {
+        transceiver.sender.replaceTrack(track).catch((error) => {
+          console.error('Error replacing track:', error);
+        });
+      }
+    });
+  }, []);
+
+  const closePeerConnection = useCallback(() => {
+    clearRecovery();
+    wasConnectedRef.current = false;
+    pcRef.current?.close();
+    pcRef.current = null;
+    pendingCandidatesRef.current = [];
+    setRemoteStream(null);
+  }, [clearRecovery]);
+
+  const sendOffer = useCallback(async (pc: RTCPeerConnection, iceRestart = false) => {
+    if (!peerId) return;
+    await pc.setLocalDescription(await pc.createOffer({ iceRestart }));
+    sendSignal({ type: 'offer', from: peerId, description: pc.localDescription!.toJSON() });
+  }, [peerId, sendSignal]);
+
+  const resetPeerConnection = useCallback(() => {
+    // A rebuild during recovery keeps the reconnecting state until the new connection is up
+    const recovering = wasConnectedRef.current;
+    pcRef.current?.close();
+    pcRef.current = null;
+    pendingCandidatesRef.current = [];
+    setRemoteStream(null);
+
+    const pc = new RTCPeerConnection({ iceServers: getIceServers() });
+    const stream = new MediaStream();
+
+    pc.ontrack = (event) => {
+      stream.addTrack(event.track);
+      setRemoteStream(stream);
+    };
+
+    pc.onicecandidate = (event) => {
+      if (event.candidate && peerId) {
+        sendSignal({ type: 'ice', from: peerId, candidate: event.candidate.toJSON() });
+      }
+    };
+
+    pc.onconnectionstatechange = () => {
+      if (pcRef.current !== pc) return;
+      setConnectionState(pc.connectionState);
+
+      if (pc.connectionState === 'connected') {
+        wasConnectedRef.current = true;
+        clearRecovery();
+      } else if (
+        (pc.connectionState === 'disconnected' || pc.connectionState === 'failed') &&
+        wasConnectedRef.current
+      ) {
+        startRecoveryRef.current(pc.connectionState === 'failed' ? 0 : ICE_RESTART_DELAY_MS);
+      }
+    };
+
+    if (isOfferer) {
+      pc.addTransceiver('audio', { direction: 'sendrecv' });
+      pc.addTransceiver('video', { direction: 'sendrecv' });
+      attachLocalTracks(pc);
+    }
+
+    pcRef.current = pc;
+    wasConnectedRef.current = recovering;
+    setConnectionState('new');
+    return pc;
+  }, [attachLocalTracks, clearRecovery, isOfferer, peerId, sendSignal]);
+
+  /**
+   * The offerer restarts ICE a few times, then rebuilds the connection with a fresh `ready`.
+   * The answerer keeps asking the offerer to restart, so only one side drives recovery.
+   */
+  const recover = () => {
+    recoveryTimerRef.current = null;
+    const pc = pcRef.current;
+    if (!pc || !peerId || pc.connectionState === 'connected') return;
+
+    if (!isOfferer) {
+      sendSignal({ type: 'restart', from: peerId });
+    } else if (restartAttemptsRef.current < MAX_ICE_RESTARTS) {
+      restartAttemptsRef.current += 1;
+      enqueue(async () => {
+        if (pcRef.current === pc) await sendOffer(pc, true);
+      });
+    } else {
+      restartAttemptsRef.current = 0;
+      enqueue(() => {
+        resetPeerConnection();
+        sendSignal({ type: 'ready', from: peerId });
+      });
+    }
+
+    recoveryTimerRef.current = setTimeout(() => recoverRef.current(), ICE_RESTART_TIMEOUT_MS);
+  };
+
+  const recoverRef = useRef(recover);
+  recoverRef.current = recover;
+
+  const startRecovery = (delay: number) => {
+    if (!recoveryTimerRef.current) {
+      setIsReconnecting(true);
+      setReconnectCount((count) => count + 1);
+    } else if (delay > 0) {
+      return;
+    } else {
+      clearTimeout(recoveryTimerRef.current);
+    }
+    recoveryTimerRef.current = setTimeout(() => recoverRef.current(), delay);
+  };
+
+  const startRecoveryRef = useRef(startRecovery);
+  startRecoveryRef.current = startRecovery;
+
+  const flushPendingCandidates = async (pc: RTCPeerConnection) => {
+    const candidates = pendingCandidatesRef.current;
+    pendingCandidatesRef.current = [];
+    for (const candidate of candidates) {
+      await pc.addIceCandidate(candidate);
+    }
+  };
+
+  const handleSignal = async (message: SignalMessage) => {
+    if (!peerId || message.from === peerId) return;
+
+    switch (message.type) {
+      case 'ready': {
+        const pc = resetPeerConnection();
+        if (!message.reply) {
+          sendSignal({ type: 'ready', from: peerId, reply: true });
+        }
+        if (isOfferer) {
+          await sendOffer(pc);
+        }
+        break;
+      }
+      case 'restart': {
+        const pc = pcRef.current;
+        if (!isOfferer || !pc) return;
+        await sendOffer(pc, true);
+        break;
+      }
+      case 'offer': {
+        if (isOfferer) return;
+        const pc = pcRef.current ?? resetPeerConnection();
+        await pc.setRemoteDescription(message.description);
+        pc.getTransceivers().forEach((transceiver) => {
+          transceiver.direction = 'sendrecv';
+        });
+        attachLocalTracks(pc);
+        await flushPendingCandidates(pc);
+        await pc.setLocalDescription(await pc.createAnswer());
+        sendSignal({ type: 'answer', from: peerId, description: pc.localDescription!.toJSON() });
+        break;
+      }
+      case 'answer': {
+        const pc = pcRef.current;
+        if (!isOfferer || !pc || pc.signalingState !== 'have-local-offer') return;
+        await pc.setRemoteDescription(message.description);
+        await flushPendingCandidates(pc);
+        break;
+      }
+      case 'ice': {
+        const pc = pcRef.current;
+        if (pc?.remoteDescription) {
+          await pc.addIceCandidate(message.candidate);
+        } else {
+          pendingCandidatesRef.current.push(message.candidate);
+        }
+        break;
+      }
+      case 'bye': {
+        closePeerConnection();
+        setConnectionState('waiting');
+        break;
+      }
+    }
+  };
+
+  const handleSignalRef = useRef(handleSignal);
+  handleSignalRef.current = handleSignal;
+
+  useEffect(() => {
+    if (!sessionId || !peerId) return;
+
+    const channel = supabase
+      .channel(getSignalingChannelName(sessionId), {
+        config: { broadcast: { self: false } },
+      })
+      .on('broadcast', { event: 'signal' }, ({ payload }) => {
+        enqueue(() => handleSignalRef.current(payload as SignalMessage));
+      })
+      .subscribe((status) => {
+        if (status === 'SUBSCRIBED') {
+          sendSignal({ type: 'ready', from: peerId });
+        }
+      });
+
+    channelRef.current = channel;
+
+    // Coming back online is the best moment to retry rather than waiting for the timer
+    const handleOnline = () => {
+      if (recoveryTimerRef.current) startRecoveryRef.current(0);
+    };
+    window.addEventListener('online', handleOnline);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      sendSignal({ type: 'bye', from: peerId });
+      supabase.removeChannel(channel);
+      channelRef.current = null;
+      closePeerConnection();
+    };
+  }, [sessionId, peerId, sendSignal, closePeerConnection, enqueue]);
+
+  useEffect(() => {
+    localStreamRef.current = localStream;
+    videoTrackOverrideRef.current = videoTrackOverride;
+    if (pcRef.current) {
+      attachLocalTracks(pcRef.current);
+    }
+  }, [localStream, videoTrackOverride, attachLocalTracks]);
+
+  const getPeerConnection = useCallback(() => pcRef.current, []);
+
+  return { remoteStream, connectionState, isReconnecting, reconnectCount, getPeerConnection };
+}
@@ -0,0 +1,108 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+
+type ScreenShareMessage =
+  | { type: 'presenting'; from: string; presenting: boolean }
+  | { type: 'sync-request'; from: string };
+
+export const isScreenShareSupported = () =>
+  typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getDisplayMedia;
+
+/**
+ * Screen sharing for a session. Only one participant presents at a time: starting a share
+ * announces it on the session's screen channel and the current presenter falls back to
+ * their camera. `screenTrack` is what should replace the outgoing camera track.
+ */
+export function useScreenShare(sessionId: string | undefined, profileId: string | undefined) {
+  const [screenTrack, setScreenTrack] = useState<MediaStreamTrack | null>(null);
+  const [presenterId, setPresenterId] = useState<string | null>(null);
+
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const screenTrackRef = useRef<MediaStreamTrack | null>(null);
+
+  const broadcast = useCallback((message: ScreenShareMessage) => {
+    channelRef.current?.send({ type: 'broadcast', event: 'screen', payload: message });
+  }, []);
+
+  const releaseScreen = useCallback(() => {
+    const track = screenTrackRef.current;
+    screenTrackRef.current = null;
+    if (track) {
+      track.onended = null;
+      track.stop();
+    }
+    setScreenTrack(null);
+  }, []);
+
+  const stopScreenShare = useCallback(() => {
+    if (!screenTrackRef.current || !profileId) return;
+    releaseScreen();
+    setPresenterId(null);
+    broadcast({ type: 'presenting', from: profileId, presenting: false });
+  }, [broadcast, profileId, releaseScreen]);
+
+  const startScreenShare = useCallback(async () => {
+    if (!profileId) return;
+
+    const stream = await navigator.mediaDevices.getDisplayMedia({ video: true, audio: false });
+    const [track] = stream.getVideoTracks();
+
+    releaseScreen();
+    screenTrackRef.current = track;
+    // Sharing stopped from the browser's own "Stop sharing" UI
+    track.onended = () => stopScreenShareRef.current();
+
+    setScreenTrack(track);
+    setPresenterId(profileId);
+    broadcast({ type: 'presenting', from: profileId, presenting: true });
+  }, [broadcast, profileId, releaseScreen]);
+
+  const stopScreenShareRef = useRef(stopScreenShare);
+  stopScreenShareRef.current = stopScreenShare;
+
+  useEffect(() => {
+    if (!sessionId || !profileId) return;
+
+    const channel = supabase
+      .channel(`session-screen:${sessionId}`, {
+        config: { broadcast: { self: false } },
+      })
+      .on('broadcast', { event: 'screen' }, ({ payload }) => {
+        const message = payload as ScreenShareMessage;
+
+        if (message.type === 'sync-request') {
+          // The peer (re)joined, so whatever they were presenting before is gone
+          setPresenterId((current) => (current === message.from ? null : current));
+          if (screenTrackRef.current) {
+            broadcast({ type: 'presenting', from: profileId, presenting: true });
+          }
+          return;
+        }
+
+        if (message.presenting) {
+          // The other side took over the stage
+          releaseScreen();
+          setPresenterId(message.from);
+        } else {
+          setPresenterId((current) => (current === message.from ? null : current));
+        }
+      })
+      .subscribe((status) => {
+        if (status === 'SUBSCRIBED') {
+          broadcast({ type: 'sync-request', from: profileId });
+        }
+      });
+
+    channelRef.current = channel;
+
+    return () => {
+      supabase.removeChannel(channel);
+      channelRef.current = null;
+      releaseScreen();
+      setPresenterId(null);
+    };
+  }, [sessionId, profileId, broadcast, releaseScreen]);
+
+  return { screenTrack, presenterId, startScreenShare, stopScreenShare };
+}
@@ -0,0 +1,130 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { SESSION_FILES_BUCKET, validateSessionFile } from '@/lib/session-files';
+
+export type ChatMessage = Tables<'session_messages'>;
+
+/** Session chat: loads the transcript, follows new messages over Realtime and counts unread ones while the panel is closed. */
+export function useSessionChat(sessionId: string | undefined, profileId: string | undefined, isOpen: boolean) {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const isOpenRef = useRef(isOpen);
+  isOpenRef.current = isOpen;
+
+  const appendMessage = useCallback((message: ChatMessage) => {
+    setMessages((current) =>
+      current.some((m) => m.id === message.id) ? current : [...current, message]
+    );
+  }, []);
+
+  useEffect(() => {
+    if (!sessionId || !profileId) return;
+
+    const channel = supabase
+      .channel(`session-chat-${sessionId}`)
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'session_messages',
+        filter: `session_id=eq.${sessionId}`
+      }, (payload) => {
+        const message = payload.new as ChatMessage;
+        appendMessage(message);
+        if (message.sender_id !== profileId && !isOpenRef.current) {
+          setUnreadCount((count) => count + 1);
+        }
+      })
+      .subscribe();
+
+    supabase
+      .from('session_messages')
+      .select('*')
+      .eq('session_id', sessionId)
+      .order('created_at')
+      .then(({ data }) => {
+        if (data) {
+          setMessages((current) => {
+            const loadedIds = new Set(data.map((m) => m.id));
+            return [...data, ...current.filter((m) => !loadedIds.has(m.id))];
+          });
+        }
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [sessionId, profileId, appendMessage]);
+
+  useEffect(() => {
+    if (isOpen) setUnreadCount(0);
+  }, [isOpen]);
+
+  const sendMessage = useCallback(async (body: string) => {
+    if (!sessionId || !profileId) return false;
+
+    const { data, error } = await supabase
+      .from('session_messages')
+      .insert({ session_id: sessionId, sender_id: profileId, body })
+      .select()
+      .single();
+
+    if (data && !error) {
+      appendMessage(data);
+      return true;
+    }
+    return false;
+  }, [sessionId, profileId, appendMessage]);
+
+  /** Uploads a file to the session's storage folder and posts it to the chat. Resolves to an error message, or null on success. */
+  const sendAttachment = useCallback(async (file: File) => {
+    if (!sessionId || !profileId) return 'La sesión no está activa.';
+
+    const invalid = validateSessionFile(file);
+    if (invalid) return invalid;
+
+    const storagePath = `${sessionId}/${crypto.randomUUID()}-${file.name.replace(/[^\w.-]+/g, '_')}`;
+    const { error: uploadError } = await supabase.storage
+      .from(SESSION_FILES_BUCKET)
+      .upload(storagePath, file, { contentType: file.type });
+    if (uploadError) {
+      console.error('Error uploading session file:', uploadError);
+      return 'No se pudo subir el archivo.';
+    }
+
+    const { data: sessionFile, error: fileError } = await supabase
+      .from('session_files')
+      .insert({
+        session_id: sessionId,
+        uploader_id: profileId,
+        storage_path: storagePath,
+        file_name: file.name,
+        mime_type: file.type,
+        size_bytes: file.size,
+      })
+      .select()
+      .single();
+    if (!sessionFile || fileError) {
+      console.error('Error saving session file:', fileError);
+      return 'No se pudo guardar el archivo.';
+    }
+
+    const { data, error } = await supabase
+      .from('session_messages')
+      .insert({
+        session_id: sessionId,
+        sender_id: profileId,
+        body: file.name.slice(0, 4000),
+        attachment_id: sessionFile.id,
+      })
+      .select()
+      .single();
+
+    if (!data || error) return 'No se pudo enviar el archivo.';
+    appendMessage(data);
+    return null;
+  }, [sessionId, profileId, appendMessage]);
+
+  return { messages, unreadCount, sendMessage, sendAttachment };
+}
@@ -0,0 +1,91 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { EquationSource } from '@/lib/equations';
+
+export type SessionEquation = Tables<'session_equations'>;
+
+/** The session's equation history, oldest first, kept in sync over Realtime including the teacher's pins. */
+export function useSessionEquations(sessionId: string | undefined, profileId: string | undefined) {
+  const [equations, setEquations] = useState<SessionEquation[]>([]);
+
+  const upsertEquation = useCallback((equation: SessionEquation) => {
+    setEquations((current) =>
+      current.some((e) => e.id === equation.id)
+        ? current.map((e) => (e.id === equation.id ? equation : e))
+        : [...current, equation]
+    );
+  }, []);
+
+  useEffect(() => {
+    if (!sessionId || !profileId) return;
+
+    const channel = supabase
+      .channel(`session-equations-${sessionId}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'session_equations',
+        filter: `session_id=eq.${sessionId}`
+      }, (payload) => {
+        if (payload.eventType === 'INSERT' || payload.eventType === 'UPDATE') {
+          upsertEquation(payload.new as SessionEquation);
+        }
+      })
+      .subscribe();
+
+    supabase
+      .from('session_equations')
+      .select('*')
+      .eq('session_id', sessionId)
+      .order('created_at')
+      .then(({ data }) => {
+        if (data) {
+          setEquations((current) => {
+            const loadedIds = new Set(data.map((e) => e.id));
+            return [...data, ...current.filter((e) => !loadedIds.has(e.id))];
+          });
+        }
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+      setEquations([]);
+    };
+  }, [sessionId, profileId, upsertEquation]);
+
+  const addEquation = useCallback(async (latex: string, source: EquationSource) => {
+    if (!sessionId || !profileId) return false;
+
+    const { data, error } = await supabase
+      .from('session_equations')
+      .insert({ session_id: sessionId, author_id: profileId, latex, source })
+      .select()
+      .single();
+
+    if (data && !error) {
+      upsertEquation(data);
+      return true;
+    }
+    console.error('Error saving equation:', error);
+    return false;
+  }, [sessionId, profileId, upsertEquation]);
+
+  const setPinned = useCallback(async (equationId: string, pinned: boolean) => {
+    const { data, error } = await supabase.rpc('set_equation_pinned', {
+      _equation_id: equationId,
+      _pinned: pinned,
+    });
+
+    if (data && !error) {
+      upsertEquation(data);
+      return true;
+    }
+    console.error('Error pinning equation:', error);
+    return false;
+  }, [upsertEquation]);
+
+  return { equations, addEquation, setPinned };
+}
+
+export type SessionEquations = ReturnType<typeof useSessionEquations>;
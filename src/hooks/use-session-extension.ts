@@ -0,0 +1,119 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import {
+  getSessionExtensionErrorMessage,
+  MAX_SESSION_EXTENSION_MINUTES,
+  SESSION_EXTENSION_MINUTES,
+} from '@/lib/sessions';
+
+type LimitRow = Pick<Tables<'sessions'>, 'max_minutes' | 'extended_minutes' | 'extension_requested_by'>;
+
+interface SessionLimit {
+  maxMinutes: number;
+  extendedMinutes: number;
+  requestedBy: string | null;
+}
+
+const toLimit = (row: LimitRow): SessionLimit => ({
+  maxMinutes: row.max_minutes,
+  extendedMinutes: row.extended_minutes,
+  requestedBy: row.extension_requested_by,
+});
+
+/** What happened to this user's own extension request. */
+export interface ExtensionOutcome {
+  accepted: boolean;
+  at: number;
+}
+
+/**
+ * The session's time limit and "more time" requests. Both live on the sessions row: a request
+ * waits in `extension_requested_by` until the other participant answers, and an accepted one
+ * adds to `extended_minutes`, which the server also uses to cap the session. The limit is null
+ * until the row has loaded.
+ */
+export function useSessionExtension(sessionId: string | undefined, profileId: string | undefined) {
+  const [limit, setLimit] = useState<SessionLimit | null>(null);
+  const [outcome, setOutcome] = useState<ExtensionOutcome | null>(null);
+
+  const limitRef = useRef(limit);
+  const withdrawingRef = useRef(false);
+
+  const applyLimit = useCallback((next: SessionLimit) => {
+    const previous = limitRef.current;
+    if (previous?.requestedBy === profileId && !next.requestedBy && !withdrawingRef.current) {
+      setOutcome({ accepted: next.extendedMinutes > previous.extendedMinutes, at: Date.now() });
+    }
+
+    limitRef.current = next;
+    setLimit(next);
+  }, [profileId]);
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    const channel = supabase
+      .channel(`session-extension-${sessionId}`)
+      .on('postgres_changes', {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'sessions',
+        filter: `id=eq.${sessionId}`
+      }, (payload) => {
+        applyLimit(toLimit(payload.new as LimitRow));
+      })
+      .subscribe();
+
+    supabase
+      .from('sessions')
+      .select('max_minutes, extended_minutes, extension_requested_by')
+      .eq('id', sessionId)
+      .single()
+      .then(({ data }) => {
+        if (data) applyLimit(toLimit(data));
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [sessionId, applyLimit]);
+
+  /** Resolves to an error message, or null once the request is waiting for the other participant. */
+  const requestExtension = useCallback(async () => {
+    if (!sessionId) return 'La sesión no está activa.';
+
+    const { data, error } = await supabase.rpc('request_session_extension', { _session_id: sessionId });
+    if (error || !data) return getSessionExtensionErrorMessage(error ?? { message: '' });
+
+    applyLimit(toLimit(data));
+    return null;
+  }, [sessionId, applyLimit]);
+
+  /** Accepts or declines the other participant's request, or withdraws this user's own (`accept = false`). */
+  const respondToExtension = useCallback(async (accept: boolean) => {
+    if (!sessionId) return;
+
+    withdrawingRef.current = limitRef.current?.requestedBy === profileId;
+    const { data, error } = await supabase.rpc('respond_session_extension', {
+      _session_id: sessionId,
+      _accept: accept,
+    });
+    if (error) {
+      console.error('Error answering extension request:', error);
+    } else if (data) {
+      applyLimit(toLimit(data));
+    }
+    withdrawingRef.current = false;
+  }, [sessionId, profileId, applyLimit]);
+
+  return {
+    limitMinutes: limit ? limit.maxMinutes + limit.extendedMinutes : null,
+    extendedMinutes: limit?.extendedMinutes ?? 0,
+    requestedBy: limit?.requestedBy ?? null,
+    canExtend: !!limit && limit.extendedMinutes + SESSION_EXTENSION_MINUTES <= MAX_SESSION_EXTENSION_MINUTES,
+    outcome,
+    requestExtension,
+    respondToExtension,
+  };
+}
@@ -0,0 +1,36 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+/**
+ * Tracks this participant on the session's presence channel and reports whether the other one is there.
+ * `null` until the first presence sync, so callers can tell "not here yet" from "unknown".
+ */
+export function useSessionPresence(sessionId: string | undefined, profileId: string | undefined) {
+  const [peerPresent, setPeerPresent] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    if (!sessionId || !profileId) return;
+
+    const channel = supabase.channel(`session-presence:${sessionId}`, {
+      config: { presence: { key: profileId } },
+    });
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        const state = channel.presenceState();
+        setPeerPresent(Object.keys(state).some((key) => key !== profileId));
+      })
+      .subscribe(async (status) => {
+        if (status === 'SUBSCRIBED') {
+          await channel.track({ online_at: new Date().toISOString() });
+        }
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+      setPeerPresent(null);
+    };
+  }, [sessionId, profileId]);
+
+  return peerPresent;
+}
@@ -0,0 +1,233 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import {
+  composeCallStream,
+  getRecordingChunkPath,
+  getRecordingMimeType,
+  RECORDING_CHUNK_MS,
+  RECORDINGS_BUCKET,
+} from '@/lib/recording';
+
+type ConsentRow = Pick<
+  Tables<'sessions'>,
+  | 'student_id'
+  | 'teacher_id'
+  | 'recording_requested_by'
+  | 'student_recording_consent_at'
+  | 'teacher_recording_consent_at'
+>;
+
+interface RecordingConsent {
+  requestedBy: string | null;
+  consentedBy: string[];
+}
+
+const noConsent: RecordingConsent = { requestedBy: null, consentedBy: [] };
+
+const toConsent = (row: ConsentRow): RecordingConsent => ({
+  requestedBy: row.recording_requested_by,
+  consentedBy: [
+    row.student_recording_consent_at && row.student_id,
+    row.teacher_recording_consent_at && row.teacher_id,
+  ].filter((id): id is string => !!id),
+});
+
+interface UseSessionRecordingOptions {
+  sessionId: string | undefined;
+  profileId: string | undefined;
+  localStream: MediaStream | null;
+  remoteStream: MediaStream | null;
+}
+
+/**
+ * Two-party consent recording. Consent lives on the sessions row; once both participants
+ * have given it, the requester's browser records the composed call and uploads it in chunks.
+ * Withdrawing consent (either side) or leaving the session stops the recording.
+ */
+export function useSessionRecording({ sessionId, profileId, localStream, remoteStream }: UseSessionRecordingOptions) {
+  const [consent, setConsent] = useState<RecordingConsent>(noConsent);
+  const [isRecording, setIsRecording] = useState(false);
+  const [declinedAt, setDeclinedAt] = useState<number | null>(null);
+
+  const consentRef = useRef(consent);
+  const withdrawingRef = useRef(false);
+
+  const sourcesRef = useRef({ localStream, remoteStream });
+  sourcesRef.current = { localStream, remoteStream };
+  const composerRef = useRef<ReturnType<typeof composeCallStream> | null>(null);
+
+  const applyConsent = useCallback((next: RecordingConsent) => {
+    const previous = consentRef.current;
+    const wasDeclined =
+      previous.requestedBy === profileId &&
+      previous.consentedBy.length < 2 &&
+      !next.requestedBy &&
+      !withdrawingRef.current;
+
+    consentRef.current = next;
+    setConsent(next);
+    if (wasDeclined) setDeclinedAt(Date.now());
+  }, [profileId]);
+
+  useEffect(() => {
+    if (!sessionId) {
+      applyConsent(noConsent);
+      return;
+    }
+
+    const channel = supabase
+      .channel(`session-recording-${sessionId}`)
+      .on('postgres_changes', {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'sessions',
+        filter: `id=eq.${sessionId}`
+      }, (payload) => {
+        applyConsent(toConsent(payload.new as ConsentRow));
+      })
+      .subscribe();
+
+    supabase
+      .from('sessions')
+      .select('student_id, teacher_id, recording_requested_by, student_recording_consent_at, teacher_recording_consent_at')
+      .eq('id', sessionId)
+      .single()
+      .then(({ data }) => {
+        if (data) applyConsent(toConsent(data));
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [sessionId, applyConsent]);
+
+  const isAgreed = consent.consentedBy.length === 2;
+  const shouldRecord = !!sessionId && !!profileId && isAgreed && consent.requestedBy === profileId;
+
+  useEffect(() => {
+    if (!shouldRecord || !sessionId || !profileId) return;
+
+    let cancelled = false;
+    let recorder: MediaRecorder | null = null;
+
+    const start = async () => {
+      const mimeType = getRecordingMimeType();
+      const { data: recording, error } = await supabase
+        .from('session_recordings')
+        .insert({ session_id: sessionId, recorded_by: profileId, mime_type: mimeType })
+        .select()
+        .single();
+
+      if (!recording || error) {
+        console.error('Error starting recording:', error);
+        return;
+      }
+      if (cancelled) {
+        await supabase.from('session_recordings').delete().eq('id', recording.id);
+        return;
+      }
+
+      const composer = composeCallStream();
+      composer.setSources(sourcesRef.current.localStream, sourcesRef.current.remoteStream);
+      composerRef.current = composer;
+
+      // Chunks are uploaded one at a time and in order. After a failed upload the rest
+      // are dropped, so what was saved still plays back as one continuous file.
+      let uploads = Promise.resolve();
+      let chunkCount = 0;
+      let sizeBytes = 0;
+      let broken = false;
+
+      recorder = new MediaRecorder(composer.stream, { mimeType });
+      recorder.ondataavailable = ({ data }) => {
+        if (!data.size) return;
+
+        uploads = uploads.then(async () => {
+          if (broken) return;
+
+          const { error: uploadError } = await supabase.storage
+            .from(RECORDINGS_BUCKET)
+            .upload(getRecordingChunkPath(recording, chunkCount), data, {
+              contentType: mimeType.split(';')[0],
+            });
+          if (uploadError) {
+            console.error('Error uploading recording chunk:', uploadError);
+            broken = true;
+            return;
+          }
+
+          chunkCount += 1;
+          sizeBytes += data.size;
+          await supabase
+            .from('session_recordings')
+            .update({ chunk_count: chunkCount, size_bytes: sizeBytes })
+            .eq('id', recording.id);
+        });
+      };
+      recorder.onstop = () => {
+        composer.stop();
+        uploads = uploads.then(async () => {
+          await supabase
+            .from('session_recordings')
+            .update({ ended_at: new Date().toISOString() })
+            .eq('id', recording.id);
+        });
+      };
+
+      recorder.start(RECORDING_CHUNK_MS);
+      setIsRecording(true);
+    };
+
+    start();
+
+    return () => {
+      cancelled = true;
+      if (recorder && recorder.state !== 'inactive') {
+        recorder.stop();
+      }
+      composerRef.current = null;
+      setIsRecording(false);
+    };
+  }, [shouldRecord, sessionId, profileId]);
+
+  useEffect(() => {
+    composerRef.current?.setSources(localStream, remoteStream);
+  }, [localStream, remoteStream]);
+
+  const updateConsent = useCallback(async (value: boolean) => {
+    if (!sessionId) return false;
+
+    withdrawingRef.current = !value;
+    const { data, error } = await supabase.rpc('set_recording_consent', {
+      _session_id: sessionId,
+      _consent: value,
+    });
+
+    if (data && !error) applyConsent(toConsent(data));
+    withdrawingRef.current = false;
+
+    if (error || !data) {
+      console.error('Error updating recording consent:', error);
+      return false;
+    }
+    return true;
+  }, [sessionId, applyConsent]);
+
+  /** Asks to record, or accepts the other participant's request. */
+  const giveConsent = useCallback(() => updateConsent(true), [updateConsent]);
+
+  /** Declines a request, cancels one's own request, or stops the recording. */
+  const withdrawConsent = useCallback(() => updateConsent(false), [updateConsent]);
+
+  return {
+    requestedBy: consent.requestedBy,
+    hasConsented: !!profileId && consent.consentedBy.includes(profileId),
+    isAgreed,
+    isRecording,
+    /** Set when the other participant turns down this user's request. */
+    declinedAt,
+    giveConsent,
+    withdrawConsent,
+  };
+}
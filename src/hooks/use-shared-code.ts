@@ -0,0 +1,216 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import * as Y from 'yjs';
+import {
+  applyAwarenessUpdate,
+  Awareness,
+  encodeAwarenessUpdate,
+  removeAwarenessStates,
+} from 'y-protocols/awareness';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  CODE_SAVE_DEBOUNCE_MS,
+  CodeLanguage,
+  fromBase64,
+  isCodeLanguage,
+  pickCursorColor,
+  toBase64,
+} from '@/lib/code-editor';
+
+type CodeMessage =
+  | { type: 'update'; update: string }
+  | { type: 'awareness'; update: string }
+  // `answer` marks the reply to someone else's request, so the exchange stops there
+  | { type: 'sync-request'; stateVector: string; answer: boolean };
+
+// Origin for changes that came from the other participant or the saved copy
+const REMOTE = 'remote';
+
+export interface SharedCodeDocument {
+  doc: Y.Doc;
+  text: Y.Text;
+  awareness: Awareness;
+}
+
+interface UseSharedCodeOptions {
+  sessionId: string | undefined;
+  profileId: string | undefined;
+  userName: string | undefined;
+  defaultLanguage: CodeLanguage;
+}
+
+/**
+ * Shared code buffer for a session, kept as a Yjs document so both participants can type at the
+ * same time without conflicts. Updates and cursor positions (Yjs awareness) travel over the
+ * session's code channel; the merged document is saved to `session_code_documents` a moment
+ * after local edits stop, and once more when the session ends.
+ */
+export function useSharedCode({ sessionId, profileId, userName, defaultLanguage }: UseSharedCodeOptions) {
+  const [codeDocument, setCodeDocument] = useState<SharedCodeDocument | null>(null);
+  const [language, setLanguageState] = useState<CodeLanguage | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const flushRef = useRef<() => Promise<void>>(async () => {});
+  const userNameRef = useRef(userName);
+  userNameRef.current = userName;
+
+  useEffect(() => {
+    if (!sessionId || !profileId) return;
+
+    const doc = new Y.Doc();
+    const text = doc.getText('code');
+    const meta = doc.getMap<string>('meta');
+    const awareness = new Awareness(doc);
+    const color = pickCursorColor(profileId);
+    awareness.setLocalStateField('user', {
+      name: userNameRef.current ?? 'Participante',
+      color,
+      colorLight: `${color}33`,
+    });
+
+    let loaded = false;
+    let dirty = false;
+    let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const save = async (force = false) => {
+      if (saveTimer) {
+        clearTimeout(saveTimer);
+        saveTimer = null;
+      }
+      if (!loaded || (!dirty && !force) || (force && text.length === 0 && meta.size === 0)) return;
+      dirty = false;
+
+      const storedLanguage = meta.get('language');
+      const { error } = await supabase.from('session_code_documents').upsert(
+        {
+          session_id: sessionId,
+          language: isCodeLanguage(storedLanguage) ? storedLanguage : defaultLanguage,
+          content: text.toString(),
+          state: toBase64(Y.encodeStateAsUpdate(doc)),
+          updated_by: profileId,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'session_id' }
+      );
+      if (error) {
+        console.error('Error saving code:', error);
+      }
+    };
+
+    const channel = supabase.channel(`session-code:${sessionId}`, {
+      config: { broadcast: { self: false } },
+    });
+
+    const send = (message: CodeMessage) => {
+      channel.send({ type: 'broadcast', event: 'code', payload: message });
+    };
+
+    const sendOwnAwareness = () => {
+      send({ type: 'awareness', update: toBase64(encodeAwarenessUpdate(awareness, [doc.clientID])) });
+    };
+
+    const requestSync = (answer: boolean) => {
+      send({ type: 'sync-request', stateVector: toBase64(Y.encodeStateVector(doc)), answer });
+    };
+
+    doc.on('update', (update: Uint8Array, origin: unknown) => {
+      if (origin === REMOTE) return;
+
+      send({ type: 'update', update: toBase64(update) });
+      dirty = true;
+      if (saveTimer) clearTimeout(saveTimer);
+      saveTimer = setTimeout(save, CODE_SAVE_DEBOUNCE_MS);
+    });
+
+    awareness.on(
+      'update',
+      ({ added, updated, removed }: { added: number[]; updated: number[]; removed: number[] }, origin: unknown) => {
+        if (origin === REMOTE) return;
+        const changed = [...added, ...updated, ...removed];
+        send({ type: 'awareness', update: toBase64(encodeAwarenessUpdate(awareness, changed)) });
+      }
+    );
+
+    const syncLanguage = () => {
+      const stored = meta.get('language');
+      setLanguageState(isCodeLanguage(stored) ? stored : null);
+    };
+    meta.observe(syncLanguage);
+
+    channel
+      .on('broadcast', { event: 'code' }, ({ payload }) => {
+        const message = payload as CodeMessage;
+
+        switch (message.type) {
+          case 'update':
+            Y.applyUpdate(doc, fromBase64(message.update), REMOTE);
+            break;
+          case 'awareness':
+            applyAwarenessUpdate(awareness, fromBase64(message.update), REMOTE);
+            break;
+          case 'sync-request':
+            send({
+              type: 'update',
+              update: toBase64(Y.encodeStateAsUpdate(doc, fromBase64(message.stateVector))),
+            });
+            sendOwnAwareness();
+            // The requester may have edits we're missing too
+            if (!message.answer) requestSync(true);
+            break;
+        }
+      })
+      .subscribe(async (status) => {
+        if (status !== 'SUBSCRIBED') return;
+
+        if (!loaded) {
+          const { data } = await supabase
+            .from('session_code_documents')
+            .select('state')
+            .eq('session_id', sessionId)
+            .maybeSingle();
+
+          // Yjs updates are idempotent, so overlapping with what the other side sends is harmless
+          if (data) Y.applyUpdate(doc, fromBase64(data.state), REMOTE);
+          loaded = true;
+          setLoading(false);
+        }
+
+        requestSync(false);
+        sendOwnAwareness();
+      });
+
+    flushRef.current = () => save(true);
+    setCodeDocument({ doc, text, awareness });
+
+    return () => {
+      removeAwarenessStates(awareness, [doc.clientID], 'unmount');
+      save();
+      supabase.removeChannel(channel);
+      meta.unobserve(syncLanguage);
+      awareness.destroy();
+      doc.destroy();
+      flushRef.current = async () => {};
+      setCodeDocument(null);
+      setLanguageState(null);
+      setLoading(true);
+    };
+  }, [sessionId, profileId, defaultLanguage]);
+
+  useEffect(() => {
+    if (!codeDocument || !userName) return;
+
+    const current = codeDocument.awareness.getLocalState()?.user;
+    codeDocument.awareness.setLocalStateField('user', { ...current, name: userName });
+  }, [codeDocument, userName]);
+
+  const setLanguage = useCallback(
+    (next: CodeLanguage) => {
+      codeDocument?.doc.getMap<string>('meta').set('language', next);
+    },
+    [codeDocument]
+  );
+
+  /** Saves the buffer right away, e.g. before the session is closed. */
+  const flush = useCallback(() => flushRef.current(), []);
+
+  return { codeDocument, language: language ?? defaultLanguage, loading, setLanguage, flush };
+}
@@ -0,0 +1,70 @@
+import { useEffect, useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { AVAILABILITY_HEARTBEAT_INTERVAL_MS, TEACHER_PRESENCE_CHANNEL } from '@/lib/availability';
+
+/**
+ * While `online`, tracks the teacher on the presence channel and keeps their availability alive
+ * with heartbeats. `onGone` runs when the server already purged it, e.g. after the tab slept.
+ */
+export function useTeacherPresence(profileId: string | undefined, online: boolean, onGone: () => void) {
+  const onGoneRef = useRef(onGone);
+  onGoneRef.current = onGone;
+
+  useEffect(() => {
+    if (!profileId || !online) return;
+
+    const channel = supabase.channel(TEACHER_PRESENCE_CHANNEL, {
+      config: { presence: { key: profileId } },
+    });
+
+    channel.subscribe(async (status) => {
+      if (status === 'SUBSCRIBED') {
+        await channel.track({ online_at: new Date().toISOString() });
+      }
+    });
+
+    const sendHeartbeat = async () => {
+      const { data: listed, error } = await supabase.rpc('availability_heartbeat');
+      if (!error && !listed) onGoneRef.current();
+    };
+
+    // Catch up as soon as a throttled background tab comes back
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') sendHeartbeat();
+    };
+
+    sendHeartbeat();
+    const interval = setInterval(sendHeartbeat, AVAILABILITY_HEARTBEAT_INTERVAL_MS);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      supabase.removeChannel(channel);
+    };
+  }, [profileId, online]);
+}
+
+/**
+ * Profile ids of the teachers currently on the presence channel. `null` until the first sync,
+ * so callers can fall back to the availability rows alone.
+ */
+export function useOnlineTeachers() {
+  const [onlineTeachers, setOnlineTeachers] = useState<Set<string> | null>(null);
+
+  useEffect(() => {
+    const channel = supabase.channel(TEACHER_PRESENCE_CHANNEL);
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        setOnlineTeachers(new Set(Object.keys(channel.presenceState())));
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, []);
+
+  return onlineTeachers;
+}
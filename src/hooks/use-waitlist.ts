@@ -0,0 +1,80 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { WAITLIST_ENTRY_COLUMNS, WAITLIST_HEARTBEAT_INTERVAL_MS, WaitlistEntry } from '@/lib/waitlist';
+
+/**
+ * The student's place in the waitlist. While queued, the position is refreshed periodically,
+ * which also tells the server the student is still around. The entry disappears once the
+ * server sends a request to a teacher on the student's behalf, or after the student left.
+ */
+export function useWaitlist(profileId: string | undefined) {
+  const [entry, setEntry] = useState<WaitlistEntry | null>(null);
+  const [position, setPosition] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!profileId) return;
+
+    supabase
+      .from('waitlist_entries')
+      .select(WAITLIST_ENTRY_COLUMNS)
+      .eq('student_id', profileId)
+      .maybeSingle()
+      .then(({ data }) => setEntry(data as unknown as WaitlistEntry | null));
+  }, [profileId]);
+
+  useEffect(() => {
+    if (!entry) return;
+
+    const refreshPosition = async () => {
+      const { data, error } = await supabase.rpc('get_waitlist_position');
+      if (error) return;
+      if (data === null) {
+        setEntry(null);
+        setPosition(null);
+        return;
+      }
+      setPosition(data);
+    };
+
+    // Catch up as soon as a throttled background tab comes back
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') refreshPosition();
+    };
+
+    refreshPosition();
+    const interval = setInterval(refreshPosition, WAITLIST_HEARTBEAT_INTERVAL_MS);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [entry]);
+
+  /** Queues for the subject/topic, replacing any earlier entry. Resolves to an error message, or null. */
+  const join = useCallback(async (subjectId: string, topicId: string | null) => {
+    if (!profileId) return 'Inicia sesión para unirte a la lista de espera.';
+
+    await supabase.from('waitlist_entries').delete().eq('student_id', profileId);
+    const { data, error } = await supabase
+      .from('waitlist_entries')
+      .insert({ student_id: profileId, subject_id: subjectId, topic_id: topicId })
+      .select(WAITLIST_ENTRY_COLUMNS)
+      .single();
+    if (error || !data) return 'No se pudo unir a la lista de espera. Intenta de nuevo.';
+
+    setPosition(null);
+    setEntry(data as unknown as WaitlistEntry);
+    return null;
+  }, [profileId]);
+
+  const leave = useCallback(async () => {
+    if (!profileId) return;
+
+    await supabase.from('waitlist_entries').delete().eq('student_id', profileId);
+    setEntry(null);
+    setPosition(null);
+  }, [profileId]);
+
+  return { entry, position, join, leave };
+}
@@ -0,0 +1,119 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import {
+  applyOp,
+  emptyWhiteboard,
+  replayOps,
+  WhiteboardElement,
+  WhiteboardOp,
+  WhiteboardState,
+} from '@/lib/whiteboard';
+
+/**
+ * Shared whiteboard state for a session.
+ *
+ * Ops are persisted before being broadcast, so anyone (re)joining can rebuild the board from
+ * `session_whiteboard_ops`. Broadcasts that arrive while that initial load is in flight are
+ * buffered and replayed on top of it.
+ */
+export function useWhiteboard(sessionId: string | undefined, profileId: string | undefined) {
+  const [board, setBoard] = useState<WhiteboardState>(emptyWhiteboard);
+  const [loading, setLoading] = useState(true);
+  const [canUndo, setCanUndo] = useState(false);
+
+  const boardRef = useRef(board);
+  boardRef.current = board;
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  // Inverse of each of this user's own ops, most recent last
+  const undoStackRef = useRef<WhiteboardOp[]>([]);
+
+  useEffect(() => {
+    if (!sessionId || !profileId) return;
+
+    let loaded = false;
+    const buffered: WhiteboardOp[] = [];
+
+    const channel = supabase
+      .channel(`session-whiteboard:${sessionId}`, {
+        config: { broadcast: { self: false } },
+      })
+      .on('broadcast', { event: 'op' }, ({ payload }) => {
+        const op = payload as WhiteboardOp;
+        if (loaded) {
+          setBoard((current) => applyOp(current, op));
+        } else {
+          buffered.push(op);
+        }
+      })
+      .subscribe(async (status) => {
+        if (status !== 'SUBSCRIBED' || loaded) return;
+
+        const { data } = await supabase
+          .from('session_whiteboard_ops')
+          .select('op')
+          .eq('session_id', sessionId)
+          .order('id');
+
+        const persisted = (data ?? []).map((row) => row.op as unknown as WhiteboardOp);
+        setBoard(replayOps([...persisted, ...buffered]));
+        loaded = true;
+        setLoading(false);
+      });
+
+    channelRef.current = channel;
+
+    return () => {
+      supabase.removeChannel(channel);
+      channelRef.current = null;
+    };
+  }, [sessionId, profileId]);
+
+  const commit = useCallback(async (op: WhiteboardOp) => {
+    if (!sessionId || !profileId) return;
+
+    setBoard((current) => applyOp(current, op));
+
+    const { error } = await supabase.from('session_whiteboard_ops').insert({
+      session_id: sessionId,
+      author_id: profileId,
+      op: op as unknown as Json,
+    });
+    if (error) {
+      console.error('Error saving whiteboard op:', error);
+    }
+
+    channelRef.current?.send({ type: 'broadcast', event: 'op', payload: op });
+  }, [sessionId, profileId]);
+
+  const pushUndo = (inverse: WhiteboardOp) => {
+    undoStackRef.current.push(inverse);
+    setCanUndo(true);
+  };
+
+  const addElement = useCallback((element: WhiteboardElement) => {
+    commit({ type: 'add', element });
+    pushUndo({ type: 'remove', elementId: element.id });
+  }, [commit]);
+
+  const removeElement = useCallback((element: WhiteboardElement) => {
+    commit({ type: 'remove', elementId: element.id });
+    pushUndo({ type: 'add', element });
+  }, [commit]);
+
+  const undo = useCallback(() => {
+    const inverse = undoStackRef.current.pop();
+    setCanUndo(undoStackRef.current.length > 0);
+    if (inverse) commit(inverse);
+  }, [commit]);
+
+  /** Appends a page and returns its index. */
+  const addPage = useCallback(() => {
+    const page = boardRef.current.pageCount;
+    commit({ type: 'add-page', page });
+    return page;
+  }, [commit]);
+
+  return { board, loading, canUndo, addElement, removeElement, undo, addPage };
+}
@@ -35,6 +35,32 @@ export type Database = {
         }
         Relationships: []
       }
+      calendar_feed_tokens: {
+        Row: {
+          created_at: string
+          profile_id: string
+          token: string
+        }
+        Insert: {
+          created_at?: string
+          profile_id: string
+          token: string
+        }
+        Update: {
+          created_at?: string
+          profile_id?: string
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "calendar_feed_tokens_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           avatar_url: string | null
@@ -43,6 +69,7 @@ export type Database = {
           full_name: string
           id: string
           is_verified: boolean | null
+          last_seen_at: string | null
           role: Database["public"]["Enums"]["user_role"]
           updated_at: string
           user_id: string
@@ -54,6 +81,7 @@ export type Database = {
           full_name: string
           id?: string
           is_verified?: boolean | null
+          last_seen_at?: string | null
           role: Database["public"]["Enums"]["user_role"]
           updated_at?: string
           user_id: string
@@ -65,6 +93,7 @@ export type Database = {
           full_name?: string
           id?: string
           is_verified?: boolean | null
+          last_seen_at?: string | null
           role?: Database["public"]["Enums"]["user_role"]
           updated_at?: string
           user_id?: string
@@ -123,44 +152,476 @@ export type Database = {
           },
         ]
       }
+      session_call_stats: {
+        Row: {
+          avg_incoming_kbps: number | null
+          avg_outgoing_kbps: number | null
+          avg_packet_loss: number | null
+          avg_rtt_ms: number | null
+          created_at: string
+          id: string
+          lowest_video_scale: number
+          max_rtt_ms: number | null
+          poor_samples: number
+          profile_id: string
+          reconnect_count: number
+          samples: number
+          session_id: string
+          updated_at: string
+        }
+        Insert: {
+          avg_incoming_kbps?: number | null
+          avg_outgoing_kbps?: number | null
+          avg_packet_loss?: number | null
+          avg_rtt_ms?: number | null
+          created_at?: string
+          id?: string
+          lowest_video_scale?: number
+          max_rtt_ms?: number | null
+          poor_samples?: number
+          profile_id: string
+          reconnect_count?: number
+          samples?: number
+          session_id: string
+          updated_at?: string
+        }
+        Update: {
+          avg_incoming_kbps?: number | null
+          avg_outgoing_kbps?: number | null
+          avg_packet_loss?: number | null
+          avg_rtt_ms?: number | null
+          created_at?: string
+          id?: string
+          lowest_video_scale?: number
+          max_rtt_ms?: number | null
+          poor_samples?: number
+          profile_id?: string
+          reconnect_count?: number
+          samples?: number
+          session_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "session_call_stats_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "session_call_stats_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      session_code_documents: {
+        Row: {
+          content: string
+          language: string
+          session_id: string
+          state: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          content?: string
+          language?: string
+          session_id: string
+          state: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          content?: string
+          language?: string
+          session_id?: string
+          state?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "session_code_documents_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: true
+            referencedRelation: "sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "session_code_documents_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      session_equations: {
+        Row: {
+          author_id: string
+          created_at: string
+          id: string
+          latex: string
+          pinned_at: string | null
+          session_id: string
+          source: string
+        }
+        Insert: {
+          author_id: string
+          created_at?: string
+          id?: string
+          latex: string
+          pinned_at?: string | null
+          session_id: string
+          source: string
+        }
+        Update: {
+          author_id?: string
+          created_at?: string
+          id?: string
+          latex?: string
+          pinned_at?: string | null
+          session_id?: string
+          source?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "session_equations_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "session_equations_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      session_files: {
+        Row: {
+          created_at: string
+          file_name: string
+          id: string
+          mime_type: string
+          session_id: string
+          size_bytes: number
+          storage_path: string
+          uploader_id: string
+        }
+        Insert: {
+          created_at?: string
+          file_name: string
+          id?: string
+          mime_type: string
+          session_id: string
+          size_bytes: number
+          storage_path: string
+          uploader_id: string
+        }
+        Update: {
+          created_at?: string
+          file_name?: string
+          id?: string
+          mime_type?: string
+          session_id?: string
+          size_bytes?: number
+          storage_path?: string
+          uploader_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "session_files_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "session_files_uploader_id_fkey"
+            columns: ["uploader_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      session_messages: {
+        Row: {
+          attachment_id: string | null
+          body: string
+          created_at: string
+          id: string
+          sender_id: string
+          session_id: string
+        }
+        Insert: {
+          attachment_id?: string | null
+          body: string
+          created_at?: string
+          id?: string
+          sender_id: string
+          session_id: string
+        }
+        Update: {
+          attachment_id?: string | null
+          body?: string
+          created_at?: string
+          id?: string
+          sender_id?: string
+          session_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "session_messages_attachment_id_fkey"
+            columns: ["attachment_id"]
+            isOneToOne: false
+            referencedRelation: "session_files"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "session_messages_sender_id_fkey"
+            columns: ["sender_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "session_messages_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      session_recordings: {
+        Row: {
+          chunk_count: number
+          ended_at: string | null
+          expires_at: string
+          id: string
+          mime_type: string
+          recorded_by: string
+          session_id: string
+          size_bytes: number
+          started_at: string
+        }
+        Insert: {
+          chunk_count?: number
+          ended_at?: string | null
+          expires_at?: string
+          id?: string
+          mime_type: string
+          recorded_by: string
+          session_id: string
+          size_bytes?: number
+          started_at?: string
+        }
+        Update: {
+          chunk_count?: number
+          ended_at?: string | null
+          expires_at?: string
+          id?: string
+          mime_type?: string
+          recorded_by?: string
+          session_id?: string
+          size_bytes?: number
+          started_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "session_recordings_recorded_by_fkey"
+            columns: ["recorded_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "session_recordings_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      session_transcript_segments: {
+        Row: {
+          created_at: string
+          ended_at: string
+          id: string
+          language: string
+          session_id: string
+          speaker_id: string
+          started_at: string
+          text: string
+        }
+        Insert: {
+          created_at?: string
+          ended_at: string
+          id?: string
+          language: string
+          session_id: string
+          speaker_id: string
+          started_at: string
+          text: string
+        }
+        Update: {
+          created_at?: string
+          ended_at?: string
+          id?: string
+          language?: string
+          session_id?: string
+          speaker_id?: string
+          started_at?: string
+          text?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "session_transcript_segments_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "session_transcript_segments_speaker_id_fkey"
+            columns: ["speaker_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      session_whiteboard_ops: {
+        Row: {
+          author_id: string
+          created_at: string
+          id: number
+          op: Json
+          session_id: string
+        }
+        Insert: {
+          author_id: string
+          created_at?: string
+          id?: never
+          op: Json
+          session_id: string
+        }
+        Update: {
+          author_id?: string
+          created_at?: string
+          id?: never
+          op?: Json
+          session_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "session_whiteboard_ops_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "session_whiteboard_ops_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       sessions: {
         Row: {
           created_at: string
           duration_minutes: number | null
           ended_at: string | null
+          extended_minutes: number
+          extension_requested_at: string | null
+          extension_requested_by: string | null
           id: string
+          max_minutes: number
+          recording_requested_by: string | null
+          scheduled_at: string | null
           started_at: string | null
           status: Database["public"]["Enums"]["session_status"]
           student_id: string
+          student_last_seen_at: string | null
+          student_recording_consent_at: string | null
           subject_id: string
           teacher_id: string
+          teacher_last_seen_at: string | null
+          teacher_recording_consent_at: string | null
           topic_id: string | null
         }
         Insert: {
           created_at?: string
           duration_minutes?: number | null
           ended_at?: string | null
+          extended_minutes?: number
+          extension_requested_at?: string | null
+          extension_requested_by?: string | null
           id?: string
+          max_minutes?: number
+          recording_requested_by?: string | null
+          scheduled_at?: string | null
           started_at?: string | null
           status?: Database["public"]["Enums"]["session_status"]
           student_id: string
+          student_last_seen_at?: string | null
+          student_recording_consent_at?: string | null
           subject_id: string
           teacher_id: string
+          teacher_last_seen_at?: string | null
+          teacher_recording_consent_at?: string | null
           topic_id?: string | null
         }
         Update: {
           created_at?: string
           duration_minutes?: number | null
           ended_at?: string | null
+          extended_minutes?: number
+          extension_requested_at?: string | null
+          extension_requested_by?: string | null
           id?: string
+          max_minutes?: number
+          recording_requested_by?: string | null
+          scheduled_at?: string | null
           started_at?: string | null
           status?: Database["public"]["Enums"]["session_status"]
           student_id?: string
+          student_last_seen_at?: string | null
+          student_recording_consent_at?: string | null
           subject_id?: string
           teacher_id?: string
+          teacher_last_seen_at?: string | null
+          teacher_recording_consent_at?: string | null
           topic_id?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "sessions_extension_requested_by_fkey"
+            columns: ["extension_requested_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sessions_recording_requested_by_fkey"
+            columns: ["recording_requested_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "sessions_student_id_fkey"
             columns: ["student_id"]
@@ -197,18 +658,21 @@ export type Database = {
           icon: string | null
           id: string
           name: string
+          session_minutes: number
         }
         Insert: {
           created_at?: string
           icon?: string | null
           id?: string
           name: string
+          session_minutes?: number
         }
         Update: {
           created_at?: string
           icon?: string | null
           id?: string
           name?: string
+          session_minutes?: number
         }
         Relationships: []
       }
@@ -248,7 +712,7 @@ export type Database = {
           {
             foreignKeyName: "teacher_availability_teacher_id_fkey"
             columns: ["teacher_id"]
-            isOneToOne: true
+            isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
@@ -261,9 +725,48 @@ export type Database = {
           },
         ]
       }
+      teacher_schedule: {
+        Row: {
+          created_at: string
+          end_time: string
+          id: string
+          start_time: string
+          teacher_id: string
+          timezone: string
+          weekday: number
+        }
+        Insert: {
+          created_at?: string
+          end_time: string
+          id?: string
+          start_time: string
+          teacher_id: string
+          timezone: string
+          weekday: number
+        }
+        Update: {
+          created_at?: string
+          end_time?: string
+          id?: string
+          start_time?: string
+          teacher_id?: string
+          timezone?: string
+          weekday?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "teacher_schedule_teacher_id_fkey"
+            columns: ["teacher_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       teacher_subjects: {
         Row: {
           created_at: string
+          experience_level: Database["public"]["Enums"]["experience_level"]
           id: string
           subject_id: string
           teacher_id: string
@@ -271,6 +774,7 @@ export type Database = {
         }
         Insert: {
           created_at?: string
+          experience_level?: Database["public"]["Enums"]["experience_level"]
           id?: string
           subject_id: string
           teacher_id: string
@@ -278,6 +782,7 @@ export type Database = {
         }
         Update: {
           created_at?: string
+          experience_level?: Database["public"]["Enums"]["experience_level"]
           id?: string
           subject_id?: string
           teacher_id?: string
@@ -357,11 +862,189 @@ export type Database = {
         }
         Relationships: []
       }
+      waitlist_entries: {
+        Row: {
+          created_at: string
+          id: string
+          last_seen_at: string
+          student_id: string
+          subject_id: string
+          topic_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          last_seen_at?: string
+          student_id: string
+          subject_id: string
+          topic_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          last_seen_at?: string
+          student_id?: string
+          subject_id?: string
+          topic_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "waitlist_entries_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "waitlist_entries_subject_id_fkey"
+            columns: ["subject_id"]
+            isOneToOne: false
+            referencedRelation: "subjects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "waitlist_entries_topic_id_fkey"
+            columns: ["topic_id"]
+            isOneToOne: false
+            referencedRelation: "topics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      accept_session_request: {
+        Args: { _session_id: string }
+        Returns: Database["public"]["Enums"]["session_status"]
+      }
+      availability_heartbeat: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      book_session: {
+        Args: {
+          _scheduled_at: string
+          _subject_id: string
+          _teacher_id: string
+          _topic_id: string
+        }
+        Returns: {
+          created_at: string
+          duration_minutes: number | null
+          ended_at: string | null
+          extended_minutes: number
+          extension_requested_at: string | null
+          extension_requested_by: string | null
+          id: string
+          max_minutes: number
+          recording_requested_by: string | null
+          scheduled_at: string | null
+          started_at: string | null
+          status: Database["public"]["Enums"]["session_status"]
+          student_id: string
+          student_last_seen_at: string | null
+          student_recording_consent_at: string | null
+          subject_id: string
+          teacher_id: string
+          teacher_last_seen_at: string | null
+          teacher_recording_consent_at: string | null
+          topic_id: string | null
+        }
+      }
+      cancel_session_request: {
+        Args: { _session_id: string }
+        Returns: undefined
+      }
+      claim_teacher_availability: {
+        Args: { _availability_id: string }
+        Returns: {
+          created_at: string
+          duration_minutes: number | null
+          ended_at: string | null
+          extended_minutes: number
+          extension_requested_at: string | null
+          extension_requested_by: string | null
+          id: string
+          max_minutes: number
+          recording_requested_by: string | null
+          scheduled_at: string | null
+          started_at: string | null
+          status: Database["public"]["Enums"]["session_status"]
+          student_id: string
+          student_last_seen_at: string | null
+          student_recording_consent_at: string | null
+          subject_id: string
+          teacher_id: string
+          teacher_last_seen_at: string | null
+          teacher_recording_consent_at: string | null
+          topic_id: string | null
+        }
+      }
+      close_stale_sessions: { Args: Record<PropertyKey, never>; Returns: undefined }
+      current_profile_id: { Args: Record<PropertyKey, never>; Returns: string }
+      end_session: {
+        Args: { _session_id: string }
+        Returns: {
+          created_at: string
+          duration_minutes: number | null
+          ended_at: string | null
+          extended_minutes: number
+          extension_requested_at: string | null
+          extension_requested_by: string | null
+          id: string
+          max_minutes: number
+          recording_requested_by: string | null
+          scheduled_at: string | null
+          started_at: string | null
+          status: Database["public"]["Enums"]["session_status"]
+          student_id: string
+          student_last_seen_at: string | null
+          student_recording_consent_at: string | null
+          subject_id: string
+          teacher_id: string
+          teacher_last_seen_at: string | null
+          teacher_recording_consent_at: string | null
+          topic_id: string | null
+        }
+      }
+      generate_calendar_feed_token: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      get_calendar_feed_token: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      get_teacher_busy_slots: {
+        Args: {
+          _from: string
+          _teacher_id: string
+          _to: string
+        }
+        Returns: {
+          ends_at: string
+          starts_at: string
+        }[]
+      }
+      get_teacher_completed_sessions: {
+        Args: { _teacher_id: string }
+        Returns: number
+      }
+      get_waitlist_counts: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          subject_id: string
+          topic_id: string
+          waiting: number
+        }[]
+      }
+      get_waitlist_position: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -369,9 +1052,203 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_availability_stale: {
+        Args: {
+          _started_at: string
+          _teacher_id: string
+        }
+        Returns: boolean
+      }
+      is_declared_specialization: {
+        Args: {
+          _subject_id: string
+          _teacher_id: string
+          _topic_id: string
+        }
+        Returns: boolean
+      }
+      is_session_participant: {
+        Args: { _session_id: string }
+        Returns: boolean
+      }
+      purge_stale_availability: { Args: Record<PropertyKey, never>; Returns: undefined }
+      purge_stale_waitlist_entries: { Args: Record<PropertyKey, never>; Returns: undefined }
+      rank_available_teachers: {
+        Args: {
+          _subject_id: string
+          _topic_id: string
+        }
+        Returns: {
+          availability_id: string
+          score: number
+          teacher_id: string
+        }[]
+      }
+      request_best_teacher: {
+        Args: {
+          _exclude_teacher_ids: string[]
+          _subject_id: string
+          _topic_id: string
+        }
+        Returns: {
+          created_at: string
+          duration_minutes: number | null
+          ended_at: string | null
+          extended_minutes: number
+          extension_requested_at: string | null
+          extension_requested_by: string | null
+          id: string
+          max_minutes: number
+          recording_requested_by: string | null
+          scheduled_at: string | null
+          started_at: string | null
+          status: Database["public"]["Enums"]["session_status"]
+          student_id: string
+          student_last_seen_at: string | null
+          student_recording_consent_at: string | null
+          subject_id: string
+          teacher_id: string
+          teacher_last_seen_at: string | null
+          teacher_recording_consent_at: string | null
+          topic_id: string | null
+        }
+      }
+      request_session_extension: {
+        Args: { _session_id: string }
+        Returns: {
+          created_at: string
+          duration_minutes: number | null
+          ended_at: string | null
+          extended_minutes: number
+          extension_requested_at: string | null
+          extension_requested_by: string | null
+          id: string
+          max_minutes: number
+          recording_requested_by: string | null
+          scheduled_at: string | null
+          started_at: string | null
+          status: Database["public"]["Enums"]["session_status"]
+          student_id: string
+          student_last_seen_at: string | null
+          student_recording_consent_at: string | null
+          subject_id: string
+          teacher_id: string
+          teacher_last_seen_at: string | null
+          teacher_recording_consent_at: string | null
+          topic_id: string | null
+        }
+      }
+      respond_session_extension: {
+        Args: { _accept: boolean; _session_id: string }
+        Returns: {
+          created_at: string
+          duration_minutes: number | null
+          ended_at: string | null
+          extended_minutes: number
+          extension_requested_at: string | null
+          extension_requested_by: string | null
+          id: string
+          max_minutes: number
+          recording_requested_by: string | null
+          scheduled_at: string | null
+          started_at: string | null
+          status: Database["public"]["Enums"]["session_status"]
+          student_id: string
+          student_last_seen_at: string | null
+          student_recording_consent_at: string | null
+          subject_id: string
+          teacher_id: string
+          teacher_last_seen_at: string | null
+          teacher_recording_consent_at: string | null
+          topic_id: string | null
+        }
+      }
+      rotate_calendar_feed_token: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      session_heartbeat: {
+        Args: { _session_id: string }
+        Returns: Database["public"]["Enums"]["session_status"]
+      }
+      set_equation_pinned: {
+        Args: { _equation_id: string; _pinned: boolean }
+        Returns: {
+          author_id: string
+          created_at: string
+          id: string
+          latex: string
+          pinned_at: string | null
+          session_id: string
+          source: string
+        }
+      }
+      set_recording_consent: {
+        Args: { _consent: boolean; _session_id: string }
+        Returns: {
+          created_at: string
+          duration_minutes: number | null
+          ended_at: string | null
+          extended_minutes: number
+          extension_requested_at: string | null
+          extension_requested_by: string | null
+          id: string
+          max_minutes: number
+          recording_requested_by: string | null
+          scheduled_at: string | null
+          started_at: string | null
+          status: Database["public"]["Enums"]["session_status"]
+          student_id: string
+          student_last_seen_at: string | null
+          student_recording_consent_at: string | null
+          subject_id: string
+          teacher_id: string
+          teacher_last_seen_at: string | null
+          teacher_recording_consent_at: string | null
+          topic_id: string | null
+        }
+      }
+      start_scheduled_session: {
+        Args: { _session_id: string }
+        Returns: {
+          created_at: string
+          duration_minutes: number | null
+          ended_at: string | null
+          extended_minutes: number
+          extension_requested_at: string | null
+          extension_requested_by: string | null
+          id: string
+          max_minutes: number
+          recording_requested_by: string | null
+          scheduled_at: string | null
+          started_at: string | null
+          status: Database["public"]["Enums"]["session_status"]
+          student_id: string
+          student_last_seen_at: string | null
+          student_recording_consent_at: string | null
+          subject_id: string
+          teacher_id: string
+          teacher_last_seen_at: string | null
+          teacher_recording_consent_at: string | null
+          topic_id: string | null
+        }
+      }
+      try_uuid: {
+        Args: { _value: string }
+        Returns: string
+      }
+      waitlist_entry_matches: {
+        Args: {
+          _entry: Database["public"]["Tables"]["waitlist_entries"]["Row"]
+          _subject_id: string
+          _topic_id: string
+        }
+        Returns: boolean
+      }
     }
     Enums: {
       app_role: "admin" | "teacher" | "student"
+      experience_level: "beginner" | "intermediate" | "advanced" | "expert"
       session_status: "pending" | "active" | "completed" | "cancelled"
       user_role: "student" | "teacher"
     }
@@ -502,6 +1379,7 @@ export const Constants = {
   public: {
     Enums: {
       app_role: ["admin", "teacher", "student"],
+      experience_level: ["beginner", "intermediate", "advanced", "expert"],
       session_status: ["pending", "active", "completed", "cancelled"],
       user_role: ["student", "teacher"],
     },
@@ -12,12 +12,17 @@ interface Profile {
   is_verified: boolean;
 }
 
+/** The profile fields users edit themselves. */
+export type ProfileChanges = Partial<Pick<Profile, 'full_name' | 'bio' | 'avatar_url'>>;
+
 interface AuthContextType {
   user: User | null;
   session: Session | null;
   profile: Profile | null;
   loading: boolean;
   signOut: () => Promise<void>;
+  /** Saves the changes and shares the updated profile with every consumer. Resolves to an error message, or null. */
+  updateProfile: (changes: ProfileChanges) => Promise<string | null>;
 }
 
 const AuthContext = createContext<AuthContextType>({
@@ -26,6 +31,7 @@ const AuthContext = createContext<AuthContextType>({
   profile: null,
   loading: true,
   signOut: async () => {},
+  updateProfile: async () => null,
 });
 
 export const useAuth = () => useContext(AuthContext);
@@ -85,8 +91,24 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     setProfile(null);
   };
 
+  const updateProfile = async (changes: ProfileChanges) => {
+    if (!profile) return 'Inicia sesión para editar tu perfil.';
+
+    const { data, error } = await supabase
+      .from('profiles')
+      .update(changes)
+      .eq('id', profile.id)
+      .select('*')
+      .single();
+
+    if (error || !data) return 'No se pudo guardar tu perfil. Intenta de nuevo.';
+
+    setProfile(data as Profile);
+    return null;
+  };
+
   return (
-    <AuthContext.Provider value={{ user, session, profile, loading, signOut }}>
+    <AuthContext.Provider value={{ user, session, profile, loading, signOut, updateProfile }}>
       {children}
     </AuthContext.Provider>
   );
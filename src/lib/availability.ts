@@ -0,0 +1,71 @@
+import type { Database } from '@/integrations/supabase/types';
+
+/** One subject a teacher offers; `topic_id` null means any topic of the subject. */
+export interface SubjectTopic {
+  subject_id: string;
+  topic_id: string | null;
+}
+
+const sameOffer = (a: SubjectTopic, b: SubjectTopic) => a.subject_id === b.subject_id && a.topic_id === b.topic_id;
+
+/** Adds the subject (any topic) or removes it together with all its topics. */
+export const toggleSubject = (offers: SubjectTopic[], subjectId: string) =>
+  offers.some((o) => o.subject_id === subjectId)
+    ? offers.filter((o) => o.subject_id !== subjectId)
+    : [...offers, { subject_id: subjectId, topic_id: null }];
+
+/**
+ * Toggles one topic of a subject that is already offered. Picking a topic replaces "any topic";
+ * removing the last one goes back to it. `topicId` null selects "any topic" again.
+ */
+export const toggleTopic = (offers: SubjectTopic[], subjectId: string, topicId: string | null) => {
+  const others = offers.filter((o) => o.subject_id !== subjectId);
+  if (topicId === null) return [...others, { subject_id: subjectId, topic_id: null }];
+
+  const topics = offers.filter((o) => o.subject_id === subjectId && o.topic_id !== null);
+  const offer = { subject_id: subjectId, topic_id: topicId };
+  const next = topics.some((o) => sameOffer(o, offer))
+    ? topics.filter((o) => !sameOffer(o, offer))
+    : [...topics, offer];
+
+  return next.length > 0 ? [...others, ...next] : [...others, { subject_id: subjectId, topic_id: null }];
+};
+
+/** Whether an offer covers a subject/topic filter. "Any topic" offers cover every topic of their subject. */
+export const offerMatches = (offer: SubjectTopic, subjectId: string | null, topicId: string | null) =>
+  (!subjectId || offer.subject_id === subjectId)
+  && (!topicId || offer.topic_id === topicId || (offer.topic_id === null && offer.subject_id === subjectId));
+
+export type ExperienceLevel = Database['public']['Enums']['experience_level'];
+
+export const experienceLevelLabels: Record<ExperienceLevel, string> = {
+  beginner: 'Inicial',
+  intermediate: 'Intermedio',
+  advanced: 'Avanzado',
+  expert: 'Experto',
+};
+
+/** A declared specialization: a whole subject (topic_id null) or one of its topics. */
+export interface Specialization extends SubjectTopic {
+  experience_level: ExperienceLevel;
+}
+
+/**
+ * The specialization that lets a teacher offer this subject/topic: the topic itself, otherwise
+ * the whole subject. "Any topic" offers need a whole-subject specialization. Must match
+ * is_declared_specialization().
+ */
+export const findSpecialization = <T extends SubjectTopic>(specializations: T[], offer: SubjectTopic) =>
+  specializations.find((s) => s.subject_id === offer.subject_id && s.topic_id !== null && s.topic_id === offer.topic_id)
+  ?? specializations.find((s) => s.subject_id === offer.subject_id && s.topic_id === null);
+
+/**
+ * How often the dashboard pings while the teacher is online. Five minutes without a ping and the
+ * teacher's availability can't be claimed anymore and is purged (see is_availability_stale()).
+ * Background tabs may only fire this once a minute; students already stop seeing a teacher
+ * who left through the presence channel.
+ */
+export const AVAILABILITY_HEARTBEAT_INTERVAL_MS = 60 * 1000;
+
+/** Realtime presence channel online teachers are tracked on, keyed by profile id. */
+export const TEACHER_PRESENCE_CHANNEL = 'teacher-presence';
@@ -0,0 +1,111 @@
+import { supabase } from '@/integrations/supabase/client';
+import { formatFileSize } from './session-files';
+
+// Mirrors the limits configured on the `avatars` bucket
+export const AVATARS_BUCKET = 'avatars';
+export const MAX_AVATAR_BYTES = 2 * 1024 * 1024;
+export const ALLOWED_AVATAR_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+/** Pictures are cropped before upload, so the source may be larger than the bucket allows. */
+export const MAX_AVATAR_SOURCE_BYTES = 10 * 1024 * 1024;
+
+/** Side of the square image that gets uploaded. */
+export const AVATAR_SIZE = 512;
+
+/** Returns a user-facing error if the picture can't be used, or null if it's fine. */
+export const validateAvatarFile = (file: File) => {
+  if (!ALLOWED_AVATAR_TYPES.includes(file.type)) {
+    return 'Solo se admiten imágenes PNG, JPG o WebP.';
+  }
+  if (file.size > MAX_AVATAR_SOURCE_BYTES) {
+    return `La imagen supera el límite de ${formatFileSize(MAX_AVATAR_SOURCE_BYTES)}.`;
+  }
+  return null;
+};
+
+/**
+ * Where the picture sits in a square crop `viewport` pixels wide: scaled to cover it at zoom 1,
+ * offset from its top-left corner.
+ */
+export interface AvatarCrop {
+  zoom: number;
+  x: number;
+  y: number;
+}
+
+export const getCropScale = (image: HTMLImageElement, viewport: number, zoom: number) =>
+  (viewport / Math.min(image.naturalWidth, image.naturalHeight)) * zoom;
+
+/** Keeps the picture covering the whole viewport. */
+export const clampCrop = (image: HTMLImageElement, viewport: number, crop: AvatarCrop): AvatarCrop => {
+  const scale = getCropScale(image, viewport, crop.zoom);
+  const clamp = (value: number, size: number) => Math.min(0, Math.max(viewport - size * scale, value));
+  return {
+    zoom: crop.zoom,
+    x: clamp(crop.x, image.naturalWidth),
+    y: clamp(crop.y, image.naturalHeight),
+  };
+};
+
+/** The picture centered at zoom 1. */
+export const getInitialCrop = (image: HTMLImageElement, viewport: number): AvatarCrop => {
+  const scale = getCropScale(image, viewport, 1);
+  return {
+    zoom: 1,
+    x: (viewport - image.naturalWidth * scale) / 2,
+    y: (viewport - image.naturalHeight * scale) / 2,
+  };
+};
+
+/** Renders what the viewport shows as an AVATAR_SIZE square JPEG. */
+export const renderAvatar = (image: HTMLImageElement, viewport: number, crop: AvatarCrop) =>
+  new Promise<Blob>((resolve, reject) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = AVATAR_SIZE;
+    canvas.height = AVATAR_SIZE;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      reject(new Error('Canvas not supported'));
+      return;
+    }
+
+    const ratio = AVATAR_SIZE / viewport;
+    const scale = getCropScale(image, viewport, crop.zoom) * ratio;
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, AVATAR_SIZE, AVATAR_SIZE);
+    context.drawImage(
+      image,
+      crop.x * ratio,
+      crop.y * ratio,
+      image.naturalWidth * scale,
+      image.naturalHeight * scale,
+    );
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not encode avatar'))), 'image/jpeg', 0.9);
+  });
+
+const getAvatarPath = (url: string | null) => {
+  const marker = `/storage/v1/object/public/${AVATARS_BUCKET}/`;
+  return url?.includes(marker) ? url.slice(url.indexOf(marker) + marker.length) : null;
+};
+
+/** Uploads a new avatar under the user's folder and returns its public URL. */
+export const uploadAvatar = async (userId: string, avatar: Blob) => {
+  if (avatar.size > MAX_AVATAR_BYTES) {
+    throw new Error(`La imagen supera el límite de ${formatFileSize(MAX_AVATAR_BYTES)}.`);
+  }
+
+  // A fresh name per upload, so cached copies of the old picture don't linger
+  const path = `${userId}/${crypto.randomUUID()}.jpg`;
+  const { error } = await supabase.storage
+    .from(AVATARS_BUCKET)
+    .upload(path, avatar, { contentType: 'image/jpeg' });
+  if (error) throw error;
+
+  return supabase.storage.from(AVATARS_BUCKET).getPublicUrl(path).data.publicUrl;
+};
+
+/** Deletes a previous avatar, if it was uploaded to our bucket rather than set at sign-up. */
+export const removeAvatar = async (url: string | null) => {
+  const path = getAvatarPath(url);
+  if (path) await supabase.storage.from(AVATARS_BUCKET).remove([path]);
+};
@@ -0,0 +1,102 @@
+import { format } from 'date-fns';
+import { downloadTextFile } from './transcript';
+
+/** A session as it appears in the user's calendar. */
+export interface CalendarSession {
+  id: string;
+  status: string;
+  created_at: string;
+  scheduled_at: string | null;
+  started_at: string | null;
+  ended_at: string | null;
+  max_minutes: number;
+  extended_minutes: number;
+  subjectName: string;
+  topicName: string | null;
+  otherName: string;
+}
+
+export const getSessionJoinUrl = (sessionId: string, origin = window.location.origin) =>
+  `${origin}/session/${sessionId}`;
+
+/** The subscription URL served by the calendar-feed edge function. */
+export const getCalendarFeedUrl = (token: string) =>
+  `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/calendar-feed?token=${token}`;
+
+/** Same feed with the webcal scheme, which opens the calendar app's "subscribe" flow. */
+export const toWebcalUrl = (url: string) => url.replace(/^https?:/, 'webcal:');
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const formatDate = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Content lines are limited to 75 octets; longer ones continue on lines starting with a space
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let bytes = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (bytes + size > (parts.length ? 74 : 75)) {
+      parts.push(current);
+      current = '';
+      bytes = 0;
+    }
+    current += char;
+    bytes += size;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+const getSessionTimes = (session: CalendarSession) => {
+  const start = new Date(session.started_at ?? session.scheduled_at ?? session.created_at);
+  const end = session.ended_at
+    ? new Date(session.ended_at)
+    : new Date(start.getTime() + (session.max_minutes + session.extended_minutes) * 60 * 1000);
+  return { start, end };
+};
+
+const toEvent = (session: CalendarSession, origin: string) => {
+  const { start, end } = getSessionTimes(session);
+  const joinUrl = getSessionJoinUrl(session.id, origin);
+  const subject = session.topicName ? `${session.subjectName} • ${session.topicName}` : session.subjectName;
+  const status = session.status === 'cancelled' ? 'CANCELLED' : session.status === 'pending' ? 'TENTATIVE' : 'CONFIRMED';
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${session.id}@clasify`,
+    `DTSTAMP:${formatDate(new Date())}`,
+    `DTSTART:${formatDate(start)}`,
+    `DTEND:${formatDate(end)}`,
+    `SUMMARY:${escapeText(`Clasify: ${subject} con ${session.otherName}`)}`,
+    `DESCRIPTION:${escapeText(`Únete a la sesión: ${joinUrl}`)}`,
+    `URL:${joinUrl}`,
+    `STATUS:${status}`,
+    'END:VEVENT',
+  ];
+};
+
+/** An iCalendar document with one event per session. */
+export const sessionsToIcs = (sessions: CalendarSession[], origin = window.location.origin) =>
+  [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Clasify//Sesiones//ES',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...sessions.flatMap((session) => toEvent(session, origin)),
+    'END:VCALENDAR',
+  ]
+    .map(foldLine)
+    .join('\r\n') + '\r\n';
+
+/** Downloads a single session as an .ics file to import into any calendar app. */
+export const downloadSessionIcs = (session: CalendarSession) => {
+  const start = new Date(session.started_at ?? session.scheduled_at ?? session.created_at);
+  downloadTextFile(sessionsToIcs([session]), `clasify-${format(start, 'yyyy-MM-dd-HHmm')}.ics`, 'text/calendar');
+};
@@ -0,0 +1,122 @@
+export type CallQuality = 'good' | 'fair' | 'poor' | 'unknown';
+
+export const callQualityLabels: Record<CallQuality, string> = {
+  good: 'Buena',
+  fair: 'Regular',
+  poor: 'Débil',
+  unknown: 'Sin datos',
+};
+
+/** How often the peer connection's stats are sampled. */
+export const STATS_INTERVAL_MS = 2 * 1000;
+/** How often the running summary is saved for the session. */
+export const STATS_SAVE_INTERVAL_MS = 60 * 1000;
+
+export interface DirectionStats {
+  kbps: number;
+  /** Fraction of packets lost, 0 to 1. */
+  packetLoss: number;
+}
+
+export interface CallStatsSample {
+  outgoing: DirectionStats;
+  incoming: DirectionStats;
+  rttMs: number | null;
+  availableOutgoingKbps: number | null;
+}
+
+/** Cumulative counters from the previous sample, used to turn totals into rates. */
+export interface StatsCounters {
+  timestamp: number;
+  bytesSent: number;
+  bytesReceived: number;
+  packetsReceived: number;
+  packetsLost: number;
+}
+
+/** Encodings the outgoing video steps through as bandwidth falls, best first. */
+export const VIDEO_QUALITY_LEVELS = [
+  { scaleResolutionDownBy: 1, maxBitrate: 1_500_000 },
+  { scaleResolutionDownBy: 2, maxBitrate: 500_000 },
+  { scaleResolutionDownBy: 4, maxBitrate: 150_000 },
+];
+
+/** Reads one `getStats()` report. The first call only primes the counters and returns no sample. */
+export function readStats(report: RTCStatsReport, previous: StatsCounters | null) {
+  const counters: StatsCounters = {
+    timestamp: performance.now(),
+    bytesSent: 0,
+    bytesReceived: 0,
+    packetsReceived: 0,
+    packetsLost: 0,
+  };
+  let outgoingLoss = 0;
+  let rttSeconds: number | null = null;
+  let availableOutgoingBitrate: number | null = null;
+
+  report.forEach((stat) => {
+    switch (stat.type) {
+      case 'outbound-rtp':
+        counters.bytesSent += stat.bytesSent ?? 0;
+        break;
+      case 'inbound-rtp':
+        counters.bytesReceived += stat.bytesReceived ?? 0;
+        counters.packetsReceived += stat.packetsReceived ?? 0;
+        counters.packetsLost += Math.max(0, stat.packetsLost ?? 0);
+        break;
+      case 'remote-inbound-rtp':
+        outgoingLoss = Math.max(outgoingLoss, stat.fractionLost ?? 0);
+        break;
+      case 'candidate-pair':
+        if (stat.nominated && stat.state === 'succeeded') {
+          rttSeconds = stat.currentRoundTripTime ?? rttSeconds;
+          availableOutgoingBitrate = stat.availableOutgoingBitrate ?? availableOutgoingBitrate;
+        }
+        break;
+    }
+  });
+
+  if (!previous) return { counters, sample: null };
+
+  const elapsedMs = Math.max(1, counters.timestamp - previous.timestamp);
+  const received = Math.max(0, counters.packetsReceived - previous.packetsReceived);
+  const lost = Math.max(0, counters.packetsLost - previous.packetsLost);
+
+  const sample: CallStatsSample = {
+    outgoing: {
+      kbps: Math.max(0, ((counters.bytesSent - previous.bytesSent) * 8) / elapsedMs),
+      packetLoss: outgoingLoss,
+    },
+    incoming: {
+      kbps: Math.max(0, ((counters.bytesReceived - previous.bytesReceived) * 8) / elapsedMs),
+      packetLoss: received + lost > 0 ? lost / (received + lost) : 0,
+    },
+    rttMs: rttSeconds !== null ? rttSeconds * 1000 : null,
+    availableOutgoingKbps: availableOutgoingBitrate !== null ? availableOutgoingBitrate / 1000 : null,
+  };
+
+  return { counters, sample };
+}
+
+/** Bitrate is left out on purpose: a muted or camera-off participant sends very little. */
+export const rateQuality = (direction: DirectionStats, rttMs: number | null): CallQuality => {
+  if (direction.packetLoss > 0.1 || (rttMs ?? 0) > 600) return 'poor';
+  if (direction.packetLoss > 0.03 || (rttMs ?? 0) > 300) return 'fair';
+  return 'good';
+};
+
+/** Applies a video quality level to the connection's video sender, if it isn't already. */
+export async function applyVideoLevel(pc: RTCPeerConnection, level: number) {
+  const sender = pc.getSenders().find((s) => s.track?.kind === 'video');
+  if (!sender) return;
+
+  const parameters = sender.getParameters();
+  const [encoding] = parameters.encodings ?? [];
+  if (!encoding) return;
+
+  const { scaleResolutionDownBy, maxBitrate } = VIDEO_QUALITY_LEVELS[level];
+  if (encoding.scaleResolutionDownBy === scaleResolutionDownBy && encoding.maxBitrate === maxBitrate) return;
+
+  parameters.encodings[0] = { ...encoding, scaleResolutionDownBy, maxBitrate };
+  await sender.setParameters(parameters);
+}
@@ -0,0 +1,50 @@
+export type CodeLanguage = 'python' | 'javascript' | 'java' | 'sql';
+
+// Syntax support lives in CodeEditorPanel, so CodeMirror is only fetched with the editor
+export const codeLanguages: Record<CodeLanguage, { label: string; extension: string }> = {
+  python: { label: 'Python', extension: 'py' },
+  javascript: { label: 'JavaScript', extension: 'js' },
+  java: { label: 'Java', extension: 'java' },
+  sql: { label: 'SQL', extension: 'sql' },
+};
+
+export const isCodeLanguage = (value: unknown): value is CodeLanguage =>
+  typeof value === 'string' && value in codeLanguages;
+
+/** The code editor is only offered in sessions of this subject. */
+export const isProgrammingSubject = (subjectName: string | undefined) => subjectName === 'Programación';
+
+/** Starting language for a session, picked from its topic. */
+export const getDefaultCodeLanguage = (topicName: string | undefined): CodeLanguage => {
+  switch (topicName) {
+    case 'JavaScript':
+      return 'javascript';
+    case 'Java':
+      return 'java';
+    case 'Base de Datos':
+      return 'sql';
+    default:
+      return 'python';
+  }
+};
+
+/** How long typing must pause before the document is saved. */
+export const CODE_SAVE_DEBOUNCE_MS = 2 * 1000;
+
+// Colors for the other participant's cursor and selection
+export const cursorColors = ['#2563eb', '#dc2626', '#16a34a', '#f59e0b', '#9333ea'];
+
+export const pickCursorColor = (profileId: string) => {
+  let hash = 0;
+  for (const char of profileId) hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  return cursorColors[Math.abs(hash) % cursorColors.length];
+};
+
+// Yjs updates are binary; Realtime payloads and the saved state are JSON, so they travel as base64
+export const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach((byte) => (binary += String.fromCharCode(byte)));
+  return btoa(binary);
+};
+
+export const fromBase64 = (encoded: string) => Uint8Array.from(atob(encoded), (char) => char.charCodeAt(0));
@@ -0,0 +1,95 @@
+export const EQUATION_MAX_LENGTH = 1000;
+
+export type EquationSource = 'chat' | 'whiteboard';
+
+/** Subjects whose sessions get the equation editor in chat and on the whiteboard. */
+export const isEquationSubject = (subjectName: string | undefined) =>
+  subjectName === 'Matemáticas' || subjectName === 'Física' || subjectName === 'Química';
+
+export type RenderedEquation = { svg: string; error: null } | { svg: null; error: string };
+
+type EquationRenderer = (latex: string, display: boolean) => RenderedEquation;
+
+let renderer: EquationRenderer | null = null;
+let rendererPromise: Promise<EquationRenderer> | null = null;
+
+/** Fetches MathJax, which is too large to ship with every page. Resolves once equations can be rendered. */
+export const loadEquationRenderer = () => {
+  rendererPromise ??= import('./mathjax').then(
+    (module) => (renderer = module.renderEquation),
+    (error) => {
+      // Let the next caller try again
+      rendererPromise = null;
+      throw error;
+    },
+  );
+  return rendererPromise;
+};
+
+export const isEquationRendererLoaded = () => renderer !== null;
+
+/** Renders LaTeX to a standalone SVG string that takes the surrounding text color; null until MathJax is loaded. */
+export const renderEquation = (latex: string, display = true): RenderedEquation | null =>
+  renderer ? renderer(latex, display) : null;
+
+/** Chat messages carry equations as display math, which `MessageContent` renders. */
+export const toEquationMessage = (latex: string) => `$$\n${latex}\n$$`;
+
+export interface EquationImage {
+  image: HTMLImageElement;
+  width: number;
+  height: number;
+}
+
+// Canvas can't draw markup, so whiteboard equations are drawn from images of their SVG
+const loadedImages = new Map<string, EquationImage | null>();
+const pendingImages = new Map<string, Promise<EquationImage | null>>();
+
+const imageKey = (latex: string, color: string, exPx: number) => `${color}|${exPx}|${latex}`;
+
+/** The image for an equation if it has finished loading (null if it can't be rendered), undefined otherwise. */
+export const getEquationImage = (latex: string, color: string, exPx: number) =>
+  loadedImages.get(imageKey(latex, color, exPx));
+
+export const loadEquationImage = (latex: string, color: string, exPx: number) => {
+  const key = imageKey(latex, color, exPx);
+  const pending = pendingImages.get(key);
+  if (pending) return pending;
+
+  const promise = loadEquationRenderer().then(() => new Promise<EquationImage | null>((resolve) => {
+    const svg = renderEquation(latex)?.svg;
+    const widthEx = parseFloat(svg?.match(/width="([\d.]+)ex"/)?.[1] ?? '');
+    const heightEx = parseFloat(svg?.match(/height="([\d.]+)ex"/)?.[1] ?? '');
+    if (!svg || !widthEx || !heightEx) {
+      loadedImages.set(key, null);
+      resolve(null);
+      return;
+    }
+
+    const width = widthEx * exPx;
+    const height = heightEx * exPx;
+    const sized = svg
+      .replace(/width="[\d.]+ex"/, `width="${width}"`)
+      .replace(/height="[\d.]+ex"/, `height="${height}"`)
+      .replace('<svg ', `<svg color="${color}" `);
+
+    const image = new Image();
+    image.onload = () => {
+      const loaded = { image, width, height };
+      loadedImages.set(key, loaded);
+      resolve(loaded);
+    };
+    image.onerror = () => {
+      loadedImages.set(key, null);
+      resolve(null);
+    };
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(sized)}`;
+  }), () => {
+    // MathJax couldn't be fetched; try again on the next draw
+    pendingImages.delete(key);
+    return null;
+  });
+
+  pendingImages.set(key, promise);
+  return promise;
+};
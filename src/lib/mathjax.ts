@@ -0,0 +1,42 @@
+import { mathjax } from 'mathjax-full/js/mathjax.js';
+import { TeX } from 'mathjax-full/js/input/tex.js';
+import { SVG } from 'mathjax-full/js/output/svg.js';
+import { liteAdaptor } from 'mathjax-full/js/adaptors/liteAdaptor.js';
+import { RegisterHTMLHandler } from 'mathjax-full/js/handlers/html.js';
+import { AllPackages } from 'mathjax-full/js/input/tex/AllPackages.js';
+import type { RenderedEquation } from './equations';
+
+// Only imported through `loadEquationRenderer` in ./equations, so MathJax stays out of the main bundle
+
+const adaptor = liteAdaptor();
+RegisterHTMLHandler(adaptor);
+
+// `html` allows links and arbitrary styles in equations other people will see; `noerrors` would hide typos
+const packages = AllPackages.filter((name) => name !== 'html' && name !== 'noerrors');
+
+let mathDocument: ReturnType<typeof mathjax.document> | null = null;
+
+// Built on first use; MathJax's setup is too heavy to run for every page load
+const getMathDocument = () => {
+  mathDocument ??= mathjax.document('', {
+    InputJax: new TeX({
+      packages,
+      // Report mistakes to the caller instead of rendering them in red
+      formatError: (_jax: unknown, error: Error) => {
+        throw error;
+      },
+    }),
+    OutputJax: new SVG({ fontCache: 'none' }),
+  });
+  return mathDocument;
+};
+
+/** Renders LaTeX to a standalone SVG string; the SVG uses `currentColor`, so it takes the surrounding text color. */
+export const renderEquation = (latex: string, display = true): RenderedEquation => {
+  try {
+    const node = getMathDocument().convert(latex, { display });
+    return { svg: adaptor.innerHTML(node), error: null };
+  } catch (error) {
+    return { svg: null, error: (error as { message?: string }).message ?? 'LaTeX no válido' };
+  }
+};
@@ -0,0 +1,103 @@
+/** Devices the user picked, remembered across sessions. Missing entries mean the browser default. */
+export interface DevicePreferences {
+  audioInputId?: string;
+  videoInputId?: string;
+  audioOutputId?: string;
+}
+
+export const devicePreferenceKeys: Record<MediaDeviceKind, keyof DevicePreferences> = {
+  audioinput: 'audioInputId',
+  videoinput: 'videoInputId',
+  audiooutput: 'audioOutputId',
+};
+
+const STORAGE_KEY = 'clasify:media-devices';
+const TEST_TONE_SECONDS = 1.2;
+
+export const loadDevicePreferences = (): DevicePreferences => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const saveDevicePreferences = (preferences: DevicePreferences) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
+};
+
+const deviceConstraint = (deviceId: string | undefined): MediaTrackConstraints | boolean =>
+  deviceId ? { deviceId: { exact: deviceId } } : true;
+
+/**
+ * Opens the microphone and, when there is one, the camera. A remembered device that is
+ * gone falls back to the defaults, and a missing or busy camera falls back to audio only.
+ */
+export async function openLocalStream(preferences: DevicePreferences) {
+  const attempts: MediaStreamConstraints[] = [
+    {
+      audio: deviceConstraint(preferences.audioInputId),
+      video: deviceConstraint(preferences.videoInputId),
+    },
+    { audio: true, video: true },
+    { audio: true, video: false },
+  ];
+
+  let lastError: unknown;
+  for (const constraints of attempts) {
+    try {
+      return await navigator.mediaDevices.getUserMedia(constraints);
+    } catch (error) {
+      lastError = error;
+      // Retrying won't help once the user has blocked access
+      if (error instanceof DOMException && error.name === 'NotAllowedError') break;
+    }
+  }
+  throw lastError;
+}
+
+/** Opens a single track from the given input device, e.g. to switch microphones mid-call. */
+export async function openDeviceTrack(kind: 'audioinput' | 'videoinput', deviceId: string) {
+  const stream = await navigator.mediaDevices.getUserMedia(
+    kind === 'audioinput'
+      ? { audio: deviceConstraint(deviceId) }
+      : { video: deviceConstraint(deviceId) }
+  );
+  return stream.getTracks()[0];
+}
+
+type SinkableElement = HTMLMediaElement & { setSinkId: (sinkId: string) => Promise<void> };
+
+export const isAudioOutputSelectionSupported = () =>
+  typeof HTMLMediaElement !== 'undefined' && 'setSinkId' in HTMLMediaElement.prototype;
+
+export const setAudioOutput = async (element: HTMLMediaElement, deviceId: string | undefined) => {
+  if (!isAudioOutputSelectionSupported()) return;
+  await (element as SinkableElement).setSinkId(deviceId ?? '');
+};
+
+/** Plays a short chime on the given speaker so the user can check they hear it. */
+export async function playTestTone(deviceId: string | undefined) {
+  const context = new AudioContext();
+  const oscillator = context.createOscillator();
+  const gain = context.createGain();
+  const destination = context.createMediaStreamDestination();
+
+  oscillator.frequency.value = 660;
+  gain.gain.setValueAtTime(0.001, context.currentTime);
+  gain.gain.exponentialRampToValueAtTime(0.3, context.currentTime + 0.05);
+  gain.gain.exponentialRampToValueAtTime(0.001, context.currentTime + TEST_TONE_SECONDS);
+  oscillator.connect(gain).connect(destination);
+
+  const audio = new Audio();
+  audio.srcObject = destination.stream;
+  await setAudioOutput(audio, deviceId);
+
+  oscillator.start();
+  oscillator.stop(context.currentTime + TEST_TONE_SECONDS);
+  await audio.play();
+
+  await new Promise((resolve) => setTimeout(resolve, TEST_TONE_SECONDS * 1000));
+  audio.srcObject = null;
+  await context.close();
+}
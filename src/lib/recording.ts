@@ -0,0 +1,166 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type SessionRecording = Tables<'session_recordings'>;
+
+// Mirrors the `session-recordings` bucket and the retention job
+export const RECORDINGS_BUCKET = 'session-recordings';
+export const RECORDING_RETENTION_DAYS = 30;
+/** Length of each uploaded chunk; a dropped tab loses at most this much. */
+export const RECORDING_CHUNK_MS = 10 * 1000;
+
+const RECORDING_WIDTH = 1280;
+const RECORDING_HEIGHT = 720;
+const RECORDING_FPS = 24;
+const PIP_WIDTH = 320;
+const PIP_HEIGHT = 180;
+const PIP_MARGIN = 24;
+
+const MIME_TYPES = [
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm',
+  'video/mp4',
+];
+
+export const isRecordingSupported = () =>
+  typeof MediaRecorder !== 'undefined' && typeof HTMLCanvasElement.prototype.captureStream === 'function';
+
+export const getRecordingMimeType = () =>
+  MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) ?? 'video/webm';
+
+export const getRecordingChunkPath = (
+  recording: Pick<SessionRecording, 'id' | 'session_id' | 'mime_type'>,
+  index: number
+) => {
+  const extension = recording.mime_type.startsWith('video/mp4') ? 'mp4' : 'webm';
+  return `${recording.session_id}/${recording.id}/${index.toString().padStart(5, '0')}.${extension}`;
+};
+
+/** Downloads every chunk of a recording and stitches them into a single playable blob. */
+export const downloadRecording = async (recording: SessionRecording) => {
+  const paths = Array.from({ length: recording.chunk_count }, (_, i) => getRecordingChunkPath(recording, i));
+  const chunks = await Promise.all(
+    paths.map(async (path) => {
+      const { data, error } = await supabase.storage.from(RECORDINGS_BUCKET).download(path);
+      if (error) throw error;
+      return data;
+    })
+  );
+  return new Blob(chunks, { type: recording.mime_type.split(';')[0] });
+};
+
+export const deleteRecording = async (recording: SessionRecording) => {
+  const paths = Array.from({ length: recording.chunk_count }, (_, i) => getRecordingChunkPath(recording, i));
+  if (paths.length > 0) {
+    const { error } = await supabase.storage.from(RECORDINGS_BUCKET).remove(paths);
+    if (error) throw error;
+  }
+  const { error } = await supabase.from('session_recordings').delete().eq('id', recording.id);
+  if (error) throw error;
+};
+
+const createSourceVideo = () => {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  return video;
+};
+
+const drawFitted = (
+  ctx: CanvasRenderingContext2D,
+  video: HTMLVideoElement,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  mode: 'contain' | 'cover'
+) => {
+  if (!video.videoWidth || !video.videoHeight) return;
+
+  const scale = (mode === 'contain' ? Math.min : Math.max)(
+    width / video.videoWidth,
+    height / video.videoHeight
+  );
+  const w = video.videoWidth * scale;
+  const h = video.videoHeight * scale;
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(x, y, width, height);
+  ctx.clip();
+  ctx.drawImage(video, x + (width - w) / 2, y + (height - h) / 2, w, h);
+  ctx.restore();
+};
+
+/**
+ * Mixes both sides of the call into one stream: the remote video fills the frame with the
+ * local one picture-in-picture, and both audio tracks are mixed. Frames are drawn on a timer
+ * rather than requestAnimationFrame so recording keeps going in a background tab.
+ */
+export function composeCallStream() {
+  const canvas = document.createElement('canvas');
+  canvas.width = RECORDING_WIDTH;
+  canvas.height = RECORDING_HEIGHT;
+  const ctx = canvas.getContext('2d')!;
+
+  const remoteVideo = createSourceVideo();
+  const localVideo = createSourceVideo();
+
+  const audioContext = new AudioContext();
+  const destination = audioContext.createMediaStreamDestination();
+  let audioSources: MediaStreamAudioSourceNode[] = [];
+
+  const draw = () => {
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, RECORDING_WIDTH, RECORDING_HEIGHT);
+    drawFitted(ctx, remoteVideo, 0, 0, RECORDING_WIDTH, RECORDING_HEIGHT, 'contain');
+    if (localVideo.srcObject) {
+      drawFitted(
+        ctx,
+        localVideo,
+        RECORDING_WIDTH - PIP_WIDTH - PIP_MARGIN,
+        RECORDING_HEIGHT - PIP_HEIGHT - PIP_MARGIN,
+        PIP_WIDTH,
+        PIP_HEIGHT,
+        'cover'
+      );
+    }
+  };
+  const interval = setInterval(draw, 1000 / RECORDING_FPS);
+
+  const stream = new MediaStream([
+    ...canvas.captureStream(RECORDING_FPS).getVideoTracks(),
+    ...destination.stream.getAudioTracks(),
+  ]);
+
+  /** Swaps the inputs, e.g. when a screen share starts or the peer reconnects. */
+  const setSources = (local: MediaStream | null, remote: MediaStream | null) => {
+    for (const [video, source] of [[localVideo, local], [remoteVideo, remote]] as const) {
+      if (video.srcObject !== source) {
+        video.srcObject = source;
+        if (source) video.play().catch(() => {});
+      }
+    }
+
+    audioSources.forEach((node) => node.disconnect());
+    audioSources = [local, remote]
+      .filter((s): s is MediaStream => !!s && s.getAudioTracks().length > 0)
+      .map((s) => {
+        const node = audioContext.createMediaStreamSource(s);
+        node.connect(destination);
+        return node;
+      });
+  };
+
+  const stop = () => {
+    clearInterval(interval);
+    stream.getTracks().forEach((track) => track.stop());
+    audioSources.forEach((node) => node.disconnect());
+    audioContext.close();
+    localVideo.srcObject = null;
+    remoteVideo.srcObject = null;
+  };
+
+  return { stream, setSources, stop };
+}
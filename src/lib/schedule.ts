@@ -0,0 +1,133 @@
+import { addDays, format, isSameDay, startOfDay } from 'date-fns';
+
+/** How far ahead a slot can be booked. Must match book_session(). */
+export const BOOKING_WINDOW_DAYS = 30;
+
+/** Indexed like EXTRACT(DOW) and Date.getDay(): 0 = Sunday. */
+export const weekdayLabels = ['Domingo', 'Lunes', 'Martes', 'Miércoles', 'Jueves', 'Viernes', 'Sábado'];
+
+/** Weekdays in the order a Spanish-speaking user expects them, Monday first. */
+export const weekdayOrder = [1, 2, 3, 4, 5, 6, 0];
+
+/** One weekly window of a teacher's schedule, in the teacher's own timezone. */
+export interface ScheduleWindow {
+  weekday: number;
+  start_time: string;
+  end_time: string;
+  timezone: string;
+}
+
+export interface BusySlot {
+  starts_at: string;
+  ends_at: string;
+}
+
+export const getBrowserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+/** "HH:mm" from a Postgres time ("HH:mm:ss"). */
+export const formatScheduleTime = (time: string) => time.slice(0, 5);
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// How far `timeZone`'s wall clock is ahead of UTC at `date`, in milliseconds
+const getTimeZoneOffset = (date: Date, timeZone: string) => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    })
+      .formatToParts(date)
+      .map((part) => [part.type, part.value])
+  );
+  const wallClock = Date.UTC(+parts.year, +parts.month - 1, +parts.day, +parts.hour, +parts.minute, +parts.second);
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+/**
+ * The instant at which the wall clock in `timeZone` shows `date` ("yyyy-MM-dd") at `minutes`
+ * past midnight. The offset is looked up twice so slots next to a DST change land correctly.
+ */
+export const zonedTimeToDate = (date: string, minutes: number, timeZone: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day) + minutes * 60 * 1000;
+  const guess = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone);
+  return new Date(wallClock - getTimeZoneOffset(new Date(guess), timeZone));
+};
+
+/**
+ * Bookable start times on `day` (a day in the viewer's timezone), rendered as instants so they
+ * display in the viewer's local time. Slots are `minutes` long and laid out from the start of
+ * each window in the teacher's timezone, so a window can land on a different local day.
+ */
+export const getAvailableSlots = (
+  windows: ScheduleWindow[],
+  day: Date,
+  minutes: number,
+  busy: BusySlot[],
+  now = new Date()
+) => {
+  const latest = addDays(startOfDay(now), BOOKING_WINDOW_DAYS);
+  const busyRanges = busy.map((slot) => [new Date(slot.starts_at).getTime(), new Date(slot.ends_at).getTime()]);
+  const slots = new Map<number, Date>();
+
+  // The teacher's calendar date can be a day off the viewer's in either direction
+  [-1, 0, 1].forEach((offset) => {
+    const date = format(addDays(day, offset), 'yyyy-MM-dd');
+    const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+
+    windows
+      .filter((window) => window.weekday === weekday)
+      .forEach((window) => {
+        const end = toMinutes(window.end_time);
+        for (let start = toMinutes(window.start_time); start + minutes <= end; start += minutes) {
+          const slot = zonedTimeToDate(date, start, window.timezone);
+          const slotStart = slot.getTime();
+          const slotEnd = slotStart + minutes * 60 * 1000;
+
+          if (
+            isSameDay(slot, day) &&
+            slot > now &&
+            slot <= latest &&
+            !busyRanges.some(([busyStart, busyEnd]) => busyStart < slotEnd && busyEnd > slotStart)
+          ) {
+            slots.set(slotStart, slot);
+          }
+        }
+      });
+  });
+
+  return [...slots.values()].sort((a, b) => a.getTime() - b.getTime());
+};
+
+const bookingErrorMessages: Record<string, string> = {
+  NOT_A_STUDENT: 'Solo los estudiantes pueden reservar clases.',
+  SUBJECT_NOT_TAUGHT: 'Este tutor no enseña esa materia o tema.',
+  SLOT_PAST: 'Ese horario ya pasó. Elige otro.',
+  SLOT_UNAVAILABLE: 'El tutor no está disponible en ese horario.',
+  SLOT_TAKEN: 'Otro estudiante acaba de reservar ese horario.',
+  STUDENT_CONFLICT: 'Ya tienes otra clase a esa hora.',
+};
+
+/** Maps the error codes raised by book_session() to a user-facing message. */
+export const getBookingErrorMessage = (error: { message: string }) =>
+  bookingErrorMessages[error.message] ?? 'No se pudo reservar la clase. Intenta de nuevo.';
+
+const startErrorMessages: Record<string, string> = {
+  BOOKING_NOT_STARTED: 'La clase todavía no ha empezado.',
+  SESSION_OVER: 'El horario de esta clase ya terminó.',
+  TEACHER_BUSY: 'El tutor sigue en otra sesión. Intenta de nuevo en unos minutos.',
+  STUDENT_BUSY: 'El estudiante sigue en otra sesión. Intenta de nuevo en unos minutos.',
+};
+
+/** Maps the error codes raised by start_scheduled_session() to a user-facing message. */
+export const getStartSessionErrorMessage = (error: { message: string }) =>
+  startErrorMessages[error.message] ?? 'No se pudo iniciar la clase. Intenta de nuevo.';
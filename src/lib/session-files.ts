@@ -0,0 +1,41 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Mirrors the limits configured on the `session-files` bucket
+export const SESSION_FILES_BUCKET = 'session-files';
+export const MAX_SESSION_FILE_BYTES = 10 * 1024 * 1024;
+export const ALLOWED_SESSION_FILE_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+];
+
+/** Signed URLs are short-lived so a leaked link stops working soon after the session. */
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+/** Returns a user-facing error if the file can't be shared, or null if it's fine. */
+export const validateSessionFile = (file: File) => {
+  if (!ALLOWED_SESSION_FILE_TYPES.includes(file.type)) {
+    return 'Solo se pueden compartir imágenes (PNG, JPG, GIF, WebP) y archivos PDF.';
+  }
+  if (file.size > MAX_SESSION_FILE_BYTES) {
+    return `El archivo supera el límite de ${formatFileSize(MAX_SESSION_FILE_BYTES)}.`;
+  }
+  return null;
+};
+
+export const getSessionFileUrl = async (storagePath: string) => {
+  const { data } = await supabase.storage
+    .from(SESSION_FILES_BUCKET)
+    .createSignedUrl(storagePath, SIGNED_URL_TTL_SECONDS);
+  return data?.signedUrl ?? null;
+};
+
+export const isImageFile = (mimeType: string) => mimeType.startsWith('image/');
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
@@ -0,0 +1,64 @@
+/** Seconds a teacher has to answer a session request. Must match accept_session_request(). */
+export const SESSION_REQUEST_TIMEOUT_SECONDS = 30;
+
+export const getRequestDeadline = (createdAt: string) =>
+  new Date(createdAt).getTime() + SESSION_REQUEST_TIMEOUT_SECONDS * 1000;
+
+/** A live request a student sent and is waiting on a teacher to answer. */
+export interface OutgoingRequest {
+  id: string;
+  created_at: string;
+  teacher: {
+    full_name: string;
+    avatar_url: string | null;
+  };
+}
+
+const sessionClaimErrorMessages: Record<string, string> = {
+  TEACHER_UNAVAILABLE: 'Otro estudiante acaba de conectarse con este tutor.',
+  TEACHER_BUSY: 'Este tutor está en otra sesión en este momento.',
+  STUDENT_BUSY: 'Ya tienes una sesión activa o una solicitud pendiente.',
+  NOT_A_STUDENT: 'Solo los estudiantes pueden solicitar sesiones.',
+};
+
+/** Maps the error codes raised by claim_teacher_availability() to a user-facing message. */
+export const getSessionClaimErrorMessage = (error: { message: string }) =>
+  sessionClaimErrorMessages[error.message] ?? 'No se pudo enviar la solicitud. Intenta de nuevo.';
+
+const tutorMatchErrorMessages: Record<string, string> = {
+  ...sessionClaimErrorMessages,
+  NO_TEACHER_AVAILABLE: 'No hay más tutores disponibles para esta materia en este momento.',
+};
+
+/** Maps the error codes raised by request_best_teacher() to a user-facing message. */
+export const getTutorMatchErrorMessage = (error: { message: string }) =>
+  tutorMatchErrorMessages[error.message] ?? 'No se pudo buscar un tutor. Intenta de nuevo.';
+
+/**
+ * Length of a session whose subject doesn't configure one. Each session carries its own limit
+ * (`max_minutes` plus any accepted `extended_minutes`); the server clamps ended_at to it as well.
+ */
+export const DEFAULT_SESSION_MINUTES = 60;
+
+/** Minutes an accepted extension adds, and the most a session can be extended. Must match request_session_extension(). */
+export const SESSION_EXTENSION_MINUTES = 15;
+export const MAX_SESSION_EXTENSION_MINUTES = 60;
+
+/** Both participants are warned when this many minutes are left. */
+export const SESSION_WARNING_MINUTES = [5, 1];
+
+const sessionExtensionErrorMessages: Record<string, string> = {
+  EXTENSION_PENDING: 'Ya hay una solicitud de extensión esperando respuesta.',
+  EXTENSION_LIMIT: `La sesión ya se extendió el máximo de ${MAX_SESSION_EXTENSION_MINUTES} minutos.`,
+  SESSION_OVER: 'La sesión ya ha terminado.',
+};
+
+/** Maps the error codes raised by request_session_extension() to a user-facing message. */
+export const getSessionExtensionErrorMessage = (error: { message: string }) =>
+  sessionExtensionErrorMessages[error.message] ?? 'No se pudo solicitar más tiempo. Intenta de nuevo.';
+
+/** How often the Session page reports it is still open; two minutes of silence from both sides ends the session. */
+export const SESSION_HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+/** How long the other participant may be gone from the call before the session is ended for them. */
+export const PEER_DISCONNECT_GRACE_SECONDS = 60;
@@ -0,0 +1,106 @@
+export interface RecognitionResult {
+  text: string;
+  /** Interim results keep changing until a final one closes the utterance. */
+  isFinal: boolean;
+}
+
+export interface RecognizerOptions {
+  language: string;
+  onResult: (result: RecognitionResult) => void;
+  /** Unrecoverable errors, e.g. microphone access denied. The recognizer stops itself. */
+  onError: (error: string) => void;
+}
+
+export interface SpeechRecognizer {
+  start: () => void;
+  stop: () => void;
+}
+
+/**
+ * Builds a recognizer for the local microphone. The browser's Web Speech API is the default;
+ * another engine (e.g. a WASM model) can be dropped in by passing a different factory to
+ * `useLiveCaptions`.
+ */
+export type RecognizerFactory = (options: RecognizerOptions) => SpeechRecognizer;
+
+// The Web Speech API isn't part of TypeScript's DOM typings yet
+interface BrowserSpeechRecognitionEvent {
+  resultIndex: number;
+  results: ArrayLike<{ isFinal: boolean; 0: { transcript: string } }>;
+}
+
+interface BrowserSpeechRecognition {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: BrowserSpeechRecognitionEvent) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  stop: () => void;
+}
+
+type BrowserSpeechRecognitionConstructor = new () => BrowserSpeechRecognition;
+
+const getBrowserRecognition = () => {
+  if (typeof window === 'undefined') return undefined;
+  const scope = window as unknown as {
+    SpeechRecognition?: BrowserSpeechRecognitionConstructor;
+    webkitSpeechRecognition?: BrowserSpeechRecognitionConstructor;
+  };
+  return scope.SpeechRecognition ?? scope.webkitSpeechRecognition;
+};
+
+export const isBrowserRecognitionSupported = () => !!getBrowserRecognition();
+
+// Errors after which restarting would just fail again
+const FATAL_ERRORS = ['not-allowed', 'service-not-allowed', 'language-not-supported', 'audio-capture'];
+
+export const createBrowserRecognizer: RecognizerFactory = ({ language, onResult, onError }) => {
+  const Recognition = getBrowserRecognition();
+  if (!Recognition) {
+    throw new Error('Speech recognition is not supported in this browser');
+  }
+
+  const recognition = new Recognition();
+  recognition.lang = language;
+  recognition.continuous = true;
+  recognition.interimResults = true;
+
+  let active = false;
+
+  recognition.onresult = (event) => {
+    for (let i = event.resultIndex; i < event.results.length; i++) {
+      const result = event.results[i];
+      const text = result[0].transcript.trim();
+      if (text) onResult({ text, isFinal: result.isFinal });
+    }
+  };
+
+  recognition.onerror = (event) => {
+    if (FATAL_ERRORS.includes(event.error)) {
+      active = false;
+      onError(event.error);
+    }
+  };
+
+  // Browsers end continuous recognition after a pause or a network hiccup
+  recognition.onend = () => {
+    if (active) recognition.start();
+  };
+
+  return {
+    start: () => {
+      active = true;
+      recognition.start();
+    },
+    stop: () => {
+      active = false;
+      recognition.stop();
+    },
+  };
+};
+
+/** English classes are captioned in English, everything else in Spanish. */
+export const getCaptionLanguage = (subjectName: string | undefined) =>
+  subjectName?.toLowerCase().startsWith('ingl') ? 'en-US' : 'es-ES';
@@ -0,0 +1,64 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+export type TranscriptSegment = Tables<'session_transcript_segments'>;
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+/** Milliseconds between the start of the session and `timestamp`, never negative. */
+const offsetMs = (timestamp: string, sessionStartedAt: string) =>
+  Math.max(0, new Date(timestamp).getTime() - new Date(sessionStartedAt).getTime());
+
+/** `mm:ss` (or `h:mm:ss` past the first hour) from the start of the session. */
+export const formatTranscriptOffset = (timestamp: string, sessionStartedAt: string) => {
+  const totalSeconds = Math.floor(offsetMs(timestamp, sessionStartedAt) / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${pad(minutes)}:${pad(seconds)}`;
+};
+
+const formatVttTimestamp = (ms: number) => {
+  const hours = Math.floor(ms / 3600000);
+  const minutes = Math.floor((ms % 3600000) / 60000);
+  const seconds = Math.floor((ms % 60000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}.${pad(ms % 1000, 3)}`;
+};
+
+const speakerName = (participants: Record<string, string>, speakerId: string) =>
+  participants[speakerId] ?? 'Participante';
+
+export const transcriptToText = (
+  segments: TranscriptSegment[],
+  participants: Record<string, string>,
+  sessionStartedAt: string
+) =>
+  segments
+    .map(
+      (segment) =>
+        `[${formatTranscriptOffset(segment.started_at, sessionStartedAt)}] ${speakerName(participants, segment.speaker_id)}: ${segment.text}`
+    )
+    .join('\n');
+
+/** WebVTT captions aligned with the session start, so they line up with the recording. */
+export const transcriptToVtt = (
+  segments: TranscriptSegment[],
+  participants: Record<string, string>,
+  sessionStartedAt: string
+) => {
+  const cues = segments.map((segment, index) => {
+    const start = offsetMs(segment.started_at, sessionStartedAt);
+    const end = Math.max(start + 1000, offsetMs(segment.ended_at, sessionStartedAt));
+    return `${index + 1}\n${formatVttTimestamp(start)} --> ${formatVttTimestamp(end)}\n<v ${speakerName(participants, segment.speaker_id)}>${segment.text}`;
+  });
+  return ['WEBVTT', ...cues].join('\n\n');
+};
+
+export const downloadTextFile = (content: string, filename: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Some browsers start the download after click() returns, so the URL has to outlive it
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
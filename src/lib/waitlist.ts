@@ -0,0 +1,29 @@
+import type { SubjectTopic } from './availability';
+
+/**
+ * How often a waiting student's dashboard refreshes their position, which also keeps them in
+ * the queue. Five minutes without it and purge_stale_waitlist_entries() drops them; background
+ * tabs may only refresh once a minute.
+ */
+export const WAITLIST_HEARTBEAT_INTERVAL_MS = 15 * 1000;
+
+/** How often the teacher dashboard refreshes how many students are waiting. */
+export const WAITLIST_COUNTS_REFRESH_MS = 30 * 1000;
+
+/** The student's own queue entry, with the names to show it. */
+export interface WaitlistEntry extends SubjectTopic {
+  subjects: {
+    name: string;
+    icon: string;
+  };
+  topics: {
+    name: string;
+  } | null;
+}
+
+export const WAITLIST_ENTRY_COLUMNS = 'subject_id, topic_id, subjects (name, icon), topics (name)';
+
+/** Students waiting for one subject/topic; `topic_id` null means any topic of the subject. */
+export interface WaitlistCount extends SubjectTopic {
+  waiting: number;
+}
@@ -0,0 +1,75 @@
+const DEFAULT_STUN_URLS = ['stun:stun.l.google.com:19302', 'stun:stun1.l.google.com:19302'];
+
+/** How long a `disconnected` connection gets to recover on its own before an ICE restart. */
+export const ICE_RESTART_DELAY_MS = 3 * 1000;
+/** How long each ICE restart gets before trying again. */
+export const ICE_RESTART_TIMEOUT_MS = 8 * 1000;
+/** ICE restarts attempted before rebuilding the connection from scratch. */
+export const MAX_ICE_RESTARTS = 2;
+
+export type PeerConnectionState = RTCPeerConnectionState | 'waiting';
+
+export type SignalMessage =
+  | { type: 'ready'; from: string; reply?: boolean }
+  | { type: 'offer'; from: string; description: RTCSessionDescriptionInit }
+  | { type: 'answer'; from: string; description: RTCSessionDescriptionInit }
+  | { type: 'ice'; from: string; candidate: RTCIceCandidateInit }
+  // Sent by the answerer to ask the offerer for an ICE restart
+  | { type: 'restart'; from: string }
+  | { type: 'bye'; from: string };
+
+const splitUrls = (value: string | undefined) =>
+  (value || '')
+    .split(',')
+    .map((url) => url.trim())
+    .filter(Boolean);
+
+/**
+ * Builds the ICE server list from the environment.
+ *
+ * `VITE_ICE_SERVERS` takes a full JSON `RTCIceServer[]` and wins over everything else.
+ * Otherwise `VITE_STUN_URLS` (comma separated) and `VITE_TURN_URLS` with
+ * `VITE_TURN_USERNAME` / `VITE_TURN_CREDENTIAL` are combined, falling back to public STUN.
+ */
+export const getIceServers = (): RTCIceServer[] => {
+  const env = import.meta.env;
+
+  if (env.VITE_ICE_SERVERS) {
+    try {
+      const servers = JSON.parse(env.VITE_ICE_SERVERS);
+      if (Array.isArray(servers) && servers.length > 0) {
+        return servers as RTCIceServer[];
+      }
+    } catch (error) {
+      console.error('Invalid VITE_ICE_SERVERS, using defaults:', error);
+    }
+  }
+
+  const stunUrls = splitUrls(env.VITE_STUN_URLS);
+  const servers: RTCIceServer[] = [
+    { urls: stunUrls.length > 0 ? stunUrls : DEFAULT_STUN_URLS },
+  ];
+
+  const turnUrls = splitUrls(env.VITE_TURN_URLS);
+  if (turnUrls.length > 0) {
+    servers.push({
+      urls: turnUrls,
+      username: env.VITE_TURN_USERNAME,
+      credential: env.VITE_TURN_CREDENTIAL,
+    });
+  }
+
+  return servers;
+};
+
+export const getSignalingChannelName = (sessionId: string) => `session:${sessionId}`;
+
+export const connectionStateLabels: Record<PeerConnectionState, string> = {
+  waiting: 'Esperando al otro participante',
+  new: 'Preparando conexión',
+  connecting: 'Conectando...',
+  connected: 'Conectado',
+  disconnected: 'Conexión inestable',
+  failed: 'Conexión fallida',
+  closed: 'Conexión cerrada',
+};
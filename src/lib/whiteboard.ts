@@ -0,0 +1,247 @@
+import { getEquationImage, loadEquationImage } from './equations';
+
+// Elements are stored in a fixed logical coordinate space and scaled to whatever size the board is shown at
+export const WHITEBOARD_WIDTH = 1600;
+export const WHITEBOARD_HEIGHT = 900;
+
+export type WhiteboardTool = 'pen' | 'line' | 'rect' | 'ellipse' | 'text' | 'equation' | 'eraser';
+
+export type Point = [number, number];
+
+interface BaseElement {
+  id: string;
+  page: number;
+  color: string;
+  size: number;
+  authorId: string;
+}
+
+export type WhiteboardElement =
+  | (BaseElement & { kind: 'stroke'; points: Point[] })
+  | (BaseElement & { kind: 'line' | 'rect' | 'ellipse'; from: Point; to: Point })
+  | (BaseElement & { kind: 'text'; at: Point; text: string })
+  | (BaseElement & { kind: 'equation'; at: Point; latex: string });
+
+export type WhiteboardOp =
+  | { type: 'add'; element: WhiteboardElement }
+  | { type: 'remove'; elementId: string }
+  | { type: 'add-page'; page: number };
+
+export interface WhiteboardState {
+  elements: WhiteboardElement[];
+  pageCount: number;
+}
+
+export const emptyWhiteboard: WhiteboardState = { elements: [], pageCount: 1 };
+
+/** Ops are idempotent, so replaying the persisted log over live broadcasts converges to the same board. */
+export const applyOp = (state: WhiteboardState, op: WhiteboardOp): WhiteboardState => {
+  switch (op.type) {
+    case 'add':
+      if (state.elements.some((e) => e.id === op.element.id)) return state;
+      return {
+        elements: [...state.elements, op.element],
+        pageCount: Math.max(state.pageCount, op.element.page + 1),
+      };
+    case 'remove':
+      return { ...state, elements: state.elements.filter((e) => e.id !== op.elementId) };
+    case 'add-page':
+      return { ...state, pageCount: Math.max(state.pageCount, op.page + 1) };
+  }
+};
+
+export const replayOps = (ops: WhiteboardOp[]) => ops.reduce(applyOp, emptyWhiteboard);
+
+// Equations are sized in ex units; this maps the element's size to pixels per ex
+const equationExPx = (size: number) => size * 3;
+
+const getElementEquationImage = (element: WhiteboardElement & { kind: 'equation' }) =>
+  getEquationImage(element.latex, element.color, equationExPx(element.size));
+
+/** Loads the images `drawElement` needs for equations; until then they are skipped. */
+export const loadEquationImages = (elements: WhiteboardElement[]) =>
+  Promise.all(
+    elements
+      .filter((e): e is WhiteboardElement & { kind: 'equation' } => e.kind === 'equation')
+      .map((e) => loadEquationImage(e.latex, e.color, equationExPx(e.size)))
+  );
+
+export const drawElement = (ctx: CanvasRenderingContext2D, element: WhiteboardElement) => {
+  ctx.strokeStyle = element.color;
+  ctx.fillStyle = element.color;
+  ctx.lineWidth = element.size;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  switch (element.kind) {
+    case 'stroke': {
+      const [first, ...rest] = element.points;
+      if (!first) return;
+      ctx.beginPath();
+      ctx.moveTo(first[0], first[1]);
+      if (rest.length === 0) ctx.lineTo(first[0] + 0.1, first[1]);
+      rest.forEach(([x, y]) => ctx.lineTo(x, y));
+      ctx.stroke();
+      break;
+    }
+    case 'line':
+      ctx.beginPath();
+      ctx.moveTo(element.from[0], element.from[1]);
+      ctx.lineTo(element.to[0], element.to[1]);
+      ctx.stroke();
+      break;
+    case 'rect':
+      ctx.strokeRect(
+        element.from[0],
+        element.from[1],
+        element.to[0] - element.from[0],
+        element.to[1] - element.from[1]
+      );
+      break;
+    case 'ellipse': {
+      const cx = (element.from[0] + element.to[0]) / 2;
+      const cy = (element.from[1] + element.to[1]) / 2;
+      ctx.beginPath();
+      ctx.ellipse(
+        cx,
+        cy,
+        Math.abs(element.to[0] - element.from[0]) / 2,
+        Math.abs(element.to[1] - element.from[1]) / 2,
+        0,
+        0,
+        Math.PI * 2
+      );
+      ctx.stroke();
+      break;
+    }
+    case 'text':
+      ctx.font = `${element.size * 6}px sans-serif`;
+      ctx.textBaseline = 'top';
+      ctx.fillText(element.text, element.at[0], element.at[1]);
+      break;
+    case 'equation': {
+      const equation = getElementEquationImage(element);
+      if (equation) ctx.drawImage(equation.image, element.at[0], element.at[1], equation.width, equation.height);
+      break;
+    }
+  }
+};
+
+export const renderPage = (
+  ctx: CanvasRenderingContext2D,
+  elements: WhiteboardElement[],
+  page: number
+) => {
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, WHITEBOARD_WIDTH, WHITEBOARD_HEIGHT);
+  elements.filter((e) => e.page === page).forEach((e) => drawElement(ctx, e));
+};
+
+const distanceToSegment = ([px, py]: Point, [ax, ay]: Point, [bx, by]: Point) => {
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0
+    ? 0
+    : Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / lengthSquared));
+  return Math.hypot(px - (ax + t * dx), py - (ay + t * dy));
+};
+
+const getBounds = (element: WhiteboardElement) => {
+  if (element.kind === 'text') {
+    const height = element.size * 6;
+    return {
+      minX: element.at[0],
+      minY: element.at[1],
+      maxX: element.at[0] + element.text.length * height * 0.6,
+      maxY: element.at[1] + height,
+    };
+  }
+  if (element.kind === 'equation') {
+    const equation = getElementEquationImage(element);
+    const exPx = equationExPx(element.size);
+    return {
+      minX: element.at[0],
+      minY: element.at[1],
+      maxX: element.at[0] + (equation?.width ?? element.latex.length * exPx),
+      maxY: element.at[1] + (equation?.height ?? exPx * 3),
+    };
+  }
+  const points = element.kind === 'stroke' ? element.points : [element.from, element.to];
+  return {
+    minX: Math.min(...points.map((p) => p[0])),
+    minY: Math.min(...points.map((p) => p[1])),
+    maxX: Math.max(...points.map((p) => p[0])),
+    maxY: Math.max(...points.map((p) => p[1])),
+  };
+};
+
+/** Whether the eraser at `point` (with `radius`) touches the element. */
+export const hitTest = (element: WhiteboardElement, point: Point, radius: number) => {
+  const reach = radius + element.size / 2;
+
+  switch (element.kind) {
+    case 'stroke':
+      if (element.points.length === 1) {
+        return Math.hypot(point[0] - element.points[0][0], point[1] - element.points[0][1]) <= reach;
+      }
+      return element.points.some(
+        (p, i) => i > 0 && distanceToSegment(point, element.points[i - 1], p) <= reach
+      );
+    case 'line':
+      return distanceToSegment(point, element.from, element.to) <= reach;
+    default: {
+      const bounds = getBounds(element);
+      return (
+        point[0] >= bounds.minX - reach &&
+        point[0] <= bounds.maxX + reach &&
+        point[1] >= bounds.minY - reach &&
+        point[1] <= bounds.maxY + reach
+      );
+    }
+  }
+};
+
+const renderPageToCanvas = (elements: WhiteboardElement[], page: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = WHITEBOARD_WIDTH;
+  canvas.height = WHITEBOARD_HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (ctx) renderPage(ctx, elements, page);
+  return canvas;
+};
+
+const downloadDataUrl = (dataUrl: string, filename: string) => {
+  const link = document.createElement('a');
+  link.href = dataUrl;
+  link.download = filename;
+  link.click();
+};
+
+/** Downloads one PNG per page. */
+export const exportWhiteboardPng = async (state: WhiteboardState, filename: string) => {
+  await loadEquationImages(state.elements);
+  for (let page = 0; page < state.pageCount; page++) {
+    const suffix = state.pageCount > 1 ? `-${page + 1}` : '';
+    downloadDataUrl(renderPageToCanvas(state.elements, page).toDataURL('image/png'), `${filename}${suffix}.png`);
+  }
+};
+
+/** Downloads the whole board as a PDF with one landscape page per whiteboard page. */
+export const exportWhiteboardPdf = async (state: WhiteboardState, filename: string) => {
+  // jsPDF is only fetched for an export, not with every page that shows a board
+  const [{ jsPDF }] = await Promise.all([import('jspdf'), loadEquationImages(state.elements)]);
+  const pdf = new jsPDF({
+    orientation: 'landscape',
+    unit: 'px',
+    format: [WHITEBOARD_WIDTH, WHITEBOARD_HEIGHT],
+  });
+
+  for (let page = 0; page < state.pageCount; page++) {
+    if (page > 0) pdf.addPage([WHITEBOARD_WIDTH, WHITEBOARD_HEIGHT], 'landscape');
+    const image = renderPageToCanvas(state.elements, page).toDataURL('image/png');
+    pdf.addImage(image, 'PNG', 0, 0, WHITEBOARD_WIDTH, WHITEBOARD_HEIGHT);
+  }
+
+  pdf.save(`${filename}.pdf`);
+};
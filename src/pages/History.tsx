@@ -5,19 +5,42 @@ import { useAuth } from '@/lib/auth';
 import DashboardHeader from '@/components/dashboard/DashboardHeader';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { 
   Clock, 
   Star, 
   Calendar,
   ChevronRight,
   Loader2,
+  PenTool,
+  MessageSquare,
+  Paperclip,
+  Video,
+  Captions,
+  Code2,
+  Sigma,
   History as HistoryIcon
 } from 'lucide-react';
 import { format } from 'date-fns';
 import { es } from 'date-fns/locale';
+import ChatTranscriptDialog from '@/components/history/ChatTranscriptDialog';
+import SessionFilesDialog from '@/components/history/SessionFilesDialog';
+import RecordingsDialog from '@/components/history/RecordingsDialog';
+import TranscriptDialog from '@/components/history/TranscriptDialog';
+import CodeDialog, { SessionCode } from '@/components/history/CodeDialog';
+import EquationSummaryDialog, { PinnedEquation } from '@/components/history/EquationSummaryDialog';
+import { exportWhiteboardPdf, exportWhiteboardPng, replayOps, WhiteboardOp } from '@/lib/whiteboard';
 
 interface SessionHistory {
   id: string;
+  student_id: string;
+  teacher_id: string;
   started_at: string;
   ended_at: string | null;
   duration_minutes: number | null;
@@ -40,6 +63,23 @@ interface SessionHistory {
   ratings: {
     rating: number;
   }[] | null;
+  session_whiteboard_ops: {
+    count: number;
+  }[];
+  session_messages: {
+    count: number;
+  }[];
+  session_files: {
+    count: number;
+  }[];
+  session_recordings: {
+    count: number;
+  }[];
+  session_transcript_segments: {
+    count: number;
+  }[];
+  session_code_documents: SessionCode | null;
+  session_equations: PinnedEquation[];
 }
 
 const History = () => {
@@ -47,6 +87,12 @@ const History = () => {
   const { user, profile, loading: authLoading } = useAuth();
   const [sessions, setSessions] = useState<SessionHistory[]>([]);
   const [loading, setLoading] = useState(true);
+  const [transcriptSession, setTranscriptSession] = useState<SessionHistory | null>(null);
+  const [filesSession, setFilesSession] = useState<SessionHistory | null>(null);
+  const [recordingsSession, setRecordingsSession] = useState<SessionHistory | null>(null);
+  const [captionsSession, setCaptionsSession] = useState<SessionHistory | null>(null);
+  const [codeSession, setCodeSession] = useState<SessionHistory | null>(null);
+  const [pinnedEquations, setPinnedEquations] = useState<PinnedEquation[] | null>(null);
 
   useEffect(() => {
     if (!authLoading && !user) {
@@ -74,10 +120,19 @@ const History = () => {
         teacher:profiles!sessions_teacher_id_fkey(full_name, avatar_url),
         subjects(name, icon),
         topics(name),
-        ratings(rating)
+        ratings(rating),
+        session_whiteboard_ops(count),
+        session_messages(count),
+        session_files(count),
+        session_recordings(count),
+        session_transcript_segments(count),
+        session_code_documents(language, content),
+        session_equations(latex, pinned_at)
       `)
       .eq(filterColumn, profile.id)
       .in('status', ['completed', 'cancelled'])
+      // Declined, expired and withdrawn requests are cancelled too, but never started
+      .not('started_at', 'is', null)
       .order('created_at', { ascending: false });
 
     if (data) {
@@ -86,10 +141,35 @@ const History = () => {
     setLoading(false);
   };
 
+  const exportWhiteboard = async (session: SessionHistory, fileType: 'png' | 'pdf') => {
+    const { data } = await supabase
+      .from('session_whiteboard_ops')
+      .select('op')
+      .eq('session_id', session.id)
+      .order('id');
+
+    const board = replayOps((data ?? []).map((row) => row.op as unknown as WhiteboardOp));
+    const filename = `pizarra-${session.subjects.name}-${format(new Date(session.started_at), 'yyyy-MM-dd-HHmm')}`;
+
+    if (fileType === 'png') {
+      await exportWhiteboardPng(board, filename);
+    } else {
+      await exportWhiteboardPdf(board, filename);
+    }
+  };
+
   const getInitials = (name: string) => {
     return name.split(' ').map(n => n[0]).join('').toUpperCase().slice(0, 2);
   };
 
+  const getParticipants = (session: SessionHistory | null): Record<string, string> =>
+    session
+      ? {
+          [session.student_id]: session.student.full_name,
+          [session.teacher_id]: session.teacher.full_name,
+        }
+      : {};
+
   const isTeacher = profile?.role === 'teacher';
 
   if (authLoading || loading) {
@@ -133,6 +213,15 @@ const History = () => {
               {sessions.map((session) => {
                 const otherUser = isTeacher ? session.student : session.teacher;
                 const sessionRating = session.ratings?.[0]?.rating;
+                const hasWhiteboard = (session.session_whiteboard_ops?.[0]?.count ?? 0) > 0;
+                const hasChat = (session.session_messages?.[0]?.count ?? 0) > 0;
+                const hasFiles = (session.session_files?.[0]?.count ?? 0) > 0;
+                const hasRecordings = (session.session_recordings?.[0]?.count ?? 0) > 0;
+                const hasCaptions = (session.session_transcript_segments?.[0]?.count ?? 0) > 0;
+                const hasCode = !!session.session_code_documents?.content;
+                const pinned = (session.session_equations ?? [])
+                  .filter((e) => e.pinned_at)
+                  .sort((a, b) => a.pinned_at!.localeCompare(b.pinned_at!));
 
                 return (
                   <div
@@ -191,6 +280,97 @@ const History = () => {
                           )}
                         </div>
                       </div>
+
+                      {hasChat && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="shrink-0"
+                          onClick={() => setTranscriptSession(session)}
+                        >
+                          <MessageSquare className="w-4 h-4 mr-2" />
+                          Chat
+                        </Button>
+                      )}
+
+                      {hasFiles && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="shrink-0"
+                          onClick={() => setFilesSession(session)}
+                        >
+                          <Paperclip className="w-4 h-4 mr-2" />
+                          Archivos
+                        </Button>
+                      )}
+
+                      {hasRecordings && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="shrink-0"
+                          onClick={() => setRecordingsSession(session)}
+                        >
+                          <Video className="w-4 h-4 mr-2" />
+                          Grabación
+                        </Button>
+                      )}
+
+                      {hasCaptions && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="shrink-0"
+                          onClick={() => setCaptionsSession(session)}
+                        >
+                          <Captions className="w-4 h-4 mr-2" />
+                          Transcripción
+                        </Button>
+                      )}
+
+                      {hasCode && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="shrink-0"
+                          onClick={() => setCodeSession(session)}
+                        >
+                          <Code2 className="w-4 h-4 mr-2" />
+                          Código
+                        </Button>
+                      )}
+
+                      {pinned.length > 0 && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="shrink-0"
+                          onClick={() => setPinnedEquations(pinned)}
+                        >
+                          <Sigma className="w-4 h-4 mr-2" />
+                          Ecuaciones
+                        </Button>
+                      )}
+
+                      {hasWhiteboard && (
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button variant="outline" size="sm" className="shrink-0">
+                              <PenTool className="w-4 h-4 mr-2" />
+                              Pizarra
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            <DropdownMenuItem onClick={() => exportWhiteboard(session, 'png')}>
+                              Descargar PNG
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => exportWhiteboard(session, 'pdf')}>
+                              Descargar PDF
+                            </DropdownMenuItem>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      )}
                     </div>
                   </div>
                 );
@@ -199,6 +379,54 @@ const History = () => {
           )}
         </div>
       </main>
+
+      <ChatTranscriptDialog
+        sessionId={transcriptSession?.id ?? null}
+        participants={getParticipants(transcriptSession)}
+        onClose={() => setTranscriptSession(null)}
+      />
+
+      <SessionFilesDialog
+        sessionId={filesSession?.id ?? null}
+        participants={getParticipants(filesSession)}
+        onClose={() => setFilesSession(null)}
+      />
+
+      <RecordingsDialog
+        sessionId={recordingsSession?.id ?? null}
+        onClose={() => setRecordingsSession(null)}
+        onDeleted={(sessionId, remaining) =>
+          setSessions((current) =>
+            current.map((s) =>
+              s.id === sessionId ? { ...s, session_recordings: [{ count: remaining }] } : s
+            )
+          )
+        }
+      />
+
+      <TranscriptDialog
+        sessionId={captionsSession?.id ?? null}
+        sessionStartedAt={captionsSession?.started_at}
+        participants={getParticipants(captionsSession)}
+        filename={
+          captionsSession
+            ? `transcripcion-${captionsSession.subjects.name}-${format(new Date(captionsSession.started_at), 'yyyy-MM-dd-HHmm')}`
+            : 'transcripcion'
+        }
+        onClose={() => setCaptionsSession(null)}
+      />
+
+      <CodeDialog
+        code={codeSession?.session_code_documents ?? null}
+        filename={
+          codeSession
+            ? `codigo-${codeSession.subjects.name}-${format(new Date(codeSession.started_at), 'yyyy-MM-dd-HHmm')}`
+            : 'codigo'
+        }
+        onClose={() => setCodeSession(null)}
+      />
+
+      <EquationSummaryDialog equations={pinnedEquations} onClose={() => setPinnedEquations(null)} />
     </div>
   );
 };
@@ -2,6 +2,7 @@ import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/lib/auth';
+import { useOnlineTeachers } from '@/hooks/use-teacher-presence';
 import { Button } from '@/components/ui/button';
 import { 
   GraduationCap, 
@@ -24,7 +25,8 @@ const Index = () => {
   const navigate = useNavigate();
   const { user, profile } = useAuth();
   const [stats, setStats] = useState<AppStats>({ total_sessions: 0, average_rating: 0 });
-  const [activeTeachers, setActiveTeachers] = useState(0);
+  const [availableTeachers, setAvailableTeachers] = useState<Set<string>>(new Set());
+  const onlineTeachers = useOnlineTeachers();
 
   useEffect(() => {
     fetchStats();
@@ -49,14 +51,20 @@ const Index = () => {
     }
   };
 
+  // A teacher has one row per subject they advertise, so count teachers rather than rows
   const fetchActiveTeachers = async () => {
-    const { count } = await supabase
+    const { data } = await supabase
       .from('teacher_availability')
-      .select('*', { count: 'exact', head: true })
+      .select('teacher_id')
       .eq('is_available', true);
-    setActiveTeachers(count || 0);
+    setAvailableTeachers(new Set(data?.map((row) => row.teacher_id)));
   };
 
+  // Availability rows can outlive a closed tab by a few minutes; presence can't
+  const activeTeachers = onlineTeachers
+    ? [...availableTeachers].filter((id) => onlineTeachers.has(id)).length
+    : availableTeachers.size;
+
   const subjects = [
     { name: 'Matemáticas', icon: '📐', color: 'bg-blue-500/10 text-blue-600' },
     { name: 'Física', icon: '⚛️', color: 'bg-purple-500/10 text-purple-600' },
@@ -0,0 +1,277 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useAuth } from '@/lib/auth';
+import DashboardHeader from '@/components/dashboard/DashboardHeader';
+import AvatarCropDialog from '@/components/settings/AvatarCropDialog';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Camera, Loader2, Trash2, UserCog } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { formatFileSize } from '@/lib/session-files';
+import {
+  ALLOWED_AVATAR_TYPES,
+  MAX_AVATAR_SOURCE_BYTES,
+  removeAvatar,
+  uploadAvatar,
+  validateAvatarFile,
+} from '@/lib/avatars';
+
+const MAX_BIO_LENGTH = 500;
+
+const profileSchema = z.object({
+  fullName: z
+    .string()
+    .trim()
+    .min(2, 'El nombre debe tener al menos 2 caracteres')
+    .max(80, 'El nombre no puede superar los 80 caracteres'),
+  bio: z
+    .string()
+    .trim()
+    .max(MAX_BIO_LENGTH, `La presentación no puede superar los ${MAX_BIO_LENGTH} caracteres`),
+});
+
+type ProfileForm = z.infer<typeof profileSchema>;
+
+const ProfileSettings = () => {
+  const navigate = useNavigate();
+  const { user, profile, loading, updateProfile } = useAuth();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [avatarFile, setAvatarFile] = useState<File | null>(null);
+  const [removingAvatar, setRemovingAvatar] = useState(false);
+
+  const form = useForm<ProfileForm>({
+    resolver: zodResolver(profileSchema),
+    defaultValues: { fullName: '', bio: '' },
+  });
+
+  useEffect(() => {
+    if (!loading && !user) {
+      navigate('/auth');
+    }
+  }, [user, loading, navigate]);
+
+  // Fill the form once the profile is in, without overwriting later edits
+  useEffect(() => {
+    if (profile && !form.formState.isDirty) {
+      form.reset({ fullName: profile.full_name, bio: profile.bio ?? '' });
+    }
+  }, [profile, form]);
+
+  const onSubmit = async (values: ProfileForm) => {
+    const error = await updateProfile({ full_name: values.fullName, bio: values.bio || null });
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error,
+      });
+      return;
+    }
+
+    form.reset(values);
+    toast({
+      title: 'Perfil actualizado',
+      description: 'Tus cambios ya son visibles.',
+    });
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const error = validateAvatarFile(file);
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Imagen no válida',
+        description: error,
+      });
+      return;
+    }
+    setAvatarFile(file);
+  };
+
+  const saveAvatar = async (avatar: Blob) => {
+    if (!user || !profile) return;
+
+    const previousUrl = profile.avatar_url;
+    try {
+      const url = await uploadAvatar(user.id, avatar);
+      const error = await updateProfile({ avatar_url: url });
+      if (error) {
+        await removeAvatar(url);
+        throw new Error(error);
+      }
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'No se pudo subir la foto.',
+      });
+      return;
+    }
+
+    setAvatarFile(null);
+    await removeAvatar(previousUrl);
+    toast({ title: 'Foto actualizada' });
+  };
+
+  const deleteAvatar = async () => {
+    if (!profile?.avatar_url) return;
+
+    setRemovingAvatar(true);
+    const previousUrl = profile.avatar_url;
+    const error = await updateProfile({ avatar_url: null });
+    if (!error) await removeAvatar(previousUrl);
+    setRemovingAvatar(false);
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error,
+      });
+    }
+  };
+
+  const getInitials = (name: string) => {
+    return name.split(' ').map((n) => n[0]).join('').toUpperCase().slice(0, 2);
+  };
+
+  if (loading || !profile) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="w-12 h-12 text-primary animate-spin" />
+      </div>
+    );
+  }
+
+  const bioLength = form.watch('bio').length;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <DashboardHeader />
+
+      <main className="pt-24 pb-12 px-6">
+        <div className="container mx-auto max-w-2xl">
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold text-foreground mb-2 flex items-center gap-3">
+              <UserCog className="w-8 h-8 text-primary" />
+              Mi perfil
+            </h1>
+            <p className="text-muted-foreground">
+              {profile.role === 'teacher'
+                ? 'Así te verán los estudiantes en tu perfil público.'
+                : 'Así te verán los tutores en tus sesiones.'}
+            </p>
+          </div>
+
+          {/* Avatar */}
+          <div className="bg-card rounded-2xl border border-border p-6 mb-6 flex flex-col sm:flex-row items-center gap-6">
+            <Avatar className="h-24 w-24">
+              <AvatarImage src={profile.avatar_url || undefined} />
+              <AvatarFallback className="bg-primary text-primary-foreground text-2xl">
+                {getInitials(profile.full_name)}
+              </AvatarFallback>
+            </Avatar>
+            <div className="flex-1 text-center sm:text-left">
+              <p className="font-medium text-foreground mb-1">Foto de perfil</p>
+              <p className="text-sm text-muted-foreground mb-4">
+                PNG, JPG o WebP de hasta {formatFileSize(MAX_AVATAR_SOURCE_BYTES)}. Podrás recortarla antes de subirla.
+              </p>
+              <div className="flex flex-wrap justify-center sm:justify-start gap-2">
+                <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+                  <Camera className="w-4 h-4 mr-2" />
+                  Cambiar foto
+                </Button>
+                {profile.avatar_url && (
+                  <Button variant="ghost" size="sm" onClick={deleteAvatar} disabled={removingAvatar}>
+                    {removingAvatar ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Trash2 className="w-4 h-4 mr-2" />}
+                    Quitar
+                  </Button>
+                )}
+              </div>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={ALLOWED_AVATAR_TYPES.join(',')}
+                className="hidden"
+                onChange={handleFileChange}
+              />
+            </div>
+          </div>
+
+          {/* Details */}
+          <div className="bg-card rounded-2xl border border-border p-6">
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                <FormField
+                  control={form.control}
+                  name="fullName"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Nombre completo</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="bio"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Presentación</FormLabel>
+                      <FormControl>
+                        <Textarea
+                          rows={5}
+                          placeholder={profile.role === 'teacher'
+                            ? 'Cuéntales a los estudiantes sobre tu experiencia y cómo enseñas.'
+                            : 'Cuéntales a tus tutores qué estás estudiando.'}
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        {bioLength}/{MAX_BIO_LENGTH} caracteres
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <div className="flex justify-end">
+                  <Button type="submit" disabled={form.formState.isSubmitting || !form.formState.isDirty}>
+                    {form.formState.isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Guardar cambios
+                  </Button>
+                </div>
+              </form>
+            </Form>
+          </div>
+        </div>
+      </main>
+
+      <AvatarCropDialog file={avatarFile} onClose={() => setAvatarFile(null)} onConfirm={saveAvatar} />
+    </div>
+  );
+};
+
+export default ProfileSettings;
@@ -1,4 +1,4 @@
-import { useEffect, useState, useRef } from 'react';
+import { lazy, Suspense, useEffect, useMemo, useState, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/lib/auth';
@@ -13,9 +13,63 @@ import {
   PhoneOff, 
   Clock,
   GraduationCap,
-  Loader2
+  Loader2,
+  WifiOff,
+  ScreenShare,
+  ScreenShareOff,
+  PenTool,
+  MessageSquare,
+  Circle,
+  Square,
+  Settings,
+  Captions,
+  CaptionsOff,
+  Code2
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import Whiteboard from '@/components/session/Whiteboard';
+import ChatPanel from '@/components/session/ChatPanel';
+import RecordingConsentDialog from '@/components/session/RecordingConsentDialog';
+import PreJoinLobby from '@/components/session/PreJoinLobby';
+import ScheduledSessionWaiting from '@/components/session/ScheduledSessionWaiting';
+import DeviceSettingsDialog from '@/components/session/DeviceSettingsDialog';
+import QualityIndicator from '@/components/session/QualityIndicator';
+import ExtensionRequestDialog from '@/components/session/ExtensionRequestDialog';
+import { ToastAction } from '@/components/ui/toast';
+import { useSessionChat } from '@/hooks/use-session-chat';
+import { usePeerConnection } from '@/hooks/use-peer-connection';
+import { useSessionPresence } from '@/hooks/use-session-presence';
+import { useCountdown } from '@/hooks/use-countdown';
+import { isScreenShareSupported, useScreenShare } from '@/hooks/use-screen-share';
+import { useSessionRecording } from '@/hooks/use-session-recording';
+import { useCallQuality } from '@/hooks/use-call-quality';
+import { useLiveCaptions } from '@/hooks/use-live-captions';
+import { useSharedCode } from '@/hooks/use-shared-code';
+import { useSessionEquations } from '@/hooks/use-session-equations';
+import { useSessionExtension } from '@/hooks/use-session-extension';
+import { getCaptionLanguage } from '@/lib/speech-recognition';
+import { getDefaultCodeLanguage, isProgrammingSubject } from '@/lib/code-editor';
+import { isEquationSubject } from '@/lib/equations';
+import { isRecordingSupported } from '@/lib/recording';
+import { getStartSessionErrorMessage } from '@/lib/schedule';
+import {
+  DevicePreferences,
+  devicePreferenceKeys,
+  loadDevicePreferences,
+  openDeviceTrack,
+  saveDevicePreferences,
+  setAudioOutput,
+} from '@/lib/media-devices';
+import { connectionStateLabels } from '@/lib/webrtc';
+import {
+  PEER_DISCONNECT_GRACE_SECONDS,
+  SESSION_EXTENSION_MINUTES,
+  SESSION_HEARTBEAT_INTERVAL_MS,
+  SESSION_WARNING_MINUTES,
+} from '@/lib/sessions';
+
+// CodeMirror is only needed in programming sessions
+const CodeEditorPanel = lazy(() => import('@/components/session/CodeEditorPanel'));
 
 interface SessionData {
   id: string;
@@ -25,6 +79,7 @@ interface SessionData {
   topic_id: string | null;
   status: string;
   started_at: string;
+  scheduled_at: string | null;
   student: {
     full_name: string;
     avatar_url: string | null;
@@ -58,14 +113,88 @@ const Session = () => {
   const [rating, setRating] = useState(0);
   const [comment, setComment] = useState('');
   const [submittingRating, setSubmittingRating] = useState(false);
+  const [localStream, setLocalStream] = useState<MediaStream | null>(null);
+  const [isFinished, setIsFinished] = useState(false);
+  const [peerLeftAt, setPeerLeftAt] = useState<number | null>(null);
+  const [showWhiteboard, setShowWhiteboard] = useState(false);
+  const [showChat, setShowChat] = useState(false);
+  const [showCode, setShowCode] = useState(false);
+  const [hasJoined, setHasJoined] = useState(false);
+  const [startingBooking, setStartingBooking] = useState(false);
+  const [showDevices, setShowDevices] = useState(false);
+  const [devicePreferences, setDevicePreferences] = useState<DevicePreferences>(loadDevicePreferences);
 
   const localVideoRef = useRef<HTMLVideoElement>(null);
   const remoteVideoRef = useRef<HTMLVideoElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
+  const endedRef = useRef(false);
+  const peerSeenRef = useRef(false);
+  // Warnings already shown, keyed by the limit they were for so an extension re-arms them
+  const warnedRef = useRef(new Set<string>());
+  // Read by the notification effects below, which fire once per event rather than whenever the session reloads
+  const otherNameRef = useRef<string>();
+  otherNameRef.current = (profile?.role === 'student' ? session?.teacher : session?.student)?.full_name;
+
+  // Heartbeats and status updates run from the lobby on; the call itself (media, presence,
+  // chat...) only once the user has joined. Once the session is over, dropping the id tears
+  // everything down.
+  const activeSessionId = isFinished ? undefined : session?.id;
+  const liveSessionId = hasJoined ? activeSessionId : undefined;
+
+  const { screenTrack, presenterId, startScreenShare, stopScreenShare } = useScreenShare(
+    liveSessionId,
+    profile?.id
+  );
+  const { remoteStream, connectionState, isReconnecting, reconnectCount, getPeerConnection } = usePeerConnection({
+    sessionId: liveSessionId,
+    peerId: profile?.id,
+    isOfferer: profile?.role === 'student',
+    localStream,
+    videoTrackOverride: screenTrack,
+  });
+  const peerPresent = useSessionPresence(liveSessionId, profile?.id);
+  const extension = useSessionExtension(activeSessionId, profile?.id);
+  const extensionRef = useRef(extension);
+  extensionRef.current = extension;
+  const { stats, localQuality, remoteQuality } = useCallQuality({
+    sessionId: liveSessionId,
+    profileId: profile?.id,
+    getPeerConnection,
+    reconnectCount,
+  });
+  const { messages, unreadCount, sendMessage, sendAttachment } = useSessionChat(liveSessionId, profile?.id, showChat);
+  const hasEquations = isEquationSubject(session?.subjects.name);
+  const equations = useSessionEquations(hasEquations ? liveSessionId : undefined, profile?.id);
+  // The recording shows what each side is sending, screen share included
+  const recordedLocalStream = useMemo(
+    () => (screenTrack && localStream ? new MediaStream([screenTrack, ...localStream.getAudioTracks()]) : localStream),
+    [screenTrack, localStream]
+  );
+  const recording = useSessionRecording({
+    sessionId: liveSessionId,
+    profileId: profile?.id,
+    localStream: recordedLocalStream,
+    remoteStream,
+  });
+  const captions = useLiveCaptions({
+    sessionId: liveSessionId,
+    profileId: profile?.id,
+    language: getCaptionLanguage(session?.subjects.name),
+    muted: isMuted,
+  });
+  const hasCodeEditor = isProgrammingSubject(session?.subjects.name);
+  const sharedCode = useSharedCode({
+    sessionId: hasCodeEditor ? liveSessionId : undefined,
+    profileId: profile?.id,
+    userName: profile?.full_name,
+    defaultLanguage: getDefaultCodeLanguage(session?.topics?.name),
+  });
+  const graceRemaining = useCountdown(
+    peerLeftAt ? peerLeftAt + PEER_DISCONNECT_GRACE_SECONDS * 1000 : null
+  );
 
   useEffect(() => {
     fetchSession();
-    startCamera();
 
     return () => {
       if (streamRef.current) {
@@ -75,7 +204,7 @@ const Session = () => {
   }, [id]);
 
   useEffect(() => {
-    if (!session?.started_at) return;
+    if (!session?.started_at || isFinished) return;
 
     const interval = setInterval(() => {
       const start = new Date(session.started_at).getTime();
@@ -83,18 +212,157 @@ const Session = () => {
       const elapsed = Math.floor((now - start) / 1000);
       setElapsedTime(elapsed);
 
-      // 1 hour limit
-      if (elapsed >= 3600) {
-        endSession();
+      // Nothing to enforce until the session's own limit has loaded
+      if (extension.limitMinutes === null) return;
+
+      const remaining = extension.limitMinutes * 60 - elapsed;
+      if (remaining <= 0) {
+        // The interval keeps ticking until the session is marked as finished
+        if (endedRef.current) return;
+        endSessionRef.current();
         toast({
           title: 'Sesión finalizada',
-          description: 'Se ha alcanzado el límite de 1 hora.',
+          description: `Se ha alcanzado el límite de ${extension.limitMinutes} minutos.`,
         });
+        return;
+      }
+
+      // Only the closest warning, so joining late doesn't show several at once
+      const warning = [...SESSION_WARNING_MINUTES].sort((a, b) => a - b).find((m) => remaining <= m * 60);
+      if (warning && !warnedRef.current.has(`${extension.limitMinutes}:${warning}`)) {
+        SESSION_WARNING_MINUTES.filter((m) => m >= warning).forEach((m) =>
+          warnedRef.current.add(`${extension.limitMinutes}:${m}`)
+        );
+        warnAboutTimeLeftRef.current(warning);
       }
     }, 1000);
 
     return () => clearInterval(interval);
-  }, [session?.started_at]);
+  }, [session?.started_at, isFinished, extension.limitMinutes, toast]);
+
+  useEffect(() => {
+    if (!activeSessionId || session?.status !== 'active') return;
+
+    const sendHeartbeat = async () => {
+      const { data: status } = await supabase.rpc('session_heartbeat', { _session_id: activeSessionId });
+      if (status === 'completed' || status === 'cancelled') {
+        handleSessionClosedRef.current(status);
+      }
+    };
+
+    sendHeartbeat();
+    const interval = setInterval(sendHeartbeat, SESSION_HEARTBEAT_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [activeSessionId, session?.status]);
+
+  useEffect(() => {
+    if (!activeSessionId) return;
+
+    const channel = supabase
+      .channel(`session-status-${activeSessionId}`)
+      .on('postgres_changes', {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'sessions',
+        filter: `id=eq.${activeSessionId}`
+      }, (payload) => {
+        if (payload.new.status === 'completed' || payload.new.status === 'cancelled') {
+          handleSessionClosedRef.current(payload.new.status);
+        } else if (payload.new.status === 'active') {
+          // A booking the other participant started
+          setSession((current) => current && {
+            ...current,
+            status: payload.new.status,
+            started_at: payload.new.started_at,
+          });
+        }
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [activeSessionId]);
+
+  useEffect(() => {
+    if (peerPresent) {
+      peerSeenRef.current = true;
+      setPeerLeftAt(null);
+    } else if (peerPresent === false && peerSeenRef.current) {
+      setPeerLeftAt((current) => current ?? Date.now());
+    }
+  }, [peerPresent]);
+
+  useEffect(() => {
+    if (peerLeftAt && graceRemaining === 0) {
+      toast({
+        title: 'Sesión finalizada',
+        description: 'El otro participante se desconectó y no volvió.',
+      });
+      endSessionRef.current();
+    }
+  }, [peerLeftAt, graceRemaining, toast]);
+
+  useEffect(() => {
+    if (!recording.declinedAt) return;
+
+    toast({
+      title: 'Grabación rechazada',
+      description: `${otherNameRef.current ?? 'El otro participante'} no aceptó grabar la sesión.`,
+    });
+  }, [recording.declinedAt, toast]);
+
+  useEffect(() => {
+    if (!extension.outcome) return;
+
+    const otherName = otherNameRef.current;
+    toast(
+      extension.outcome.accepted
+        ? {
+            title: 'Sesión extendida',
+            description: `${otherName ?? 'El otro participante'} aceptó ${SESSION_EXTENSION_MINUTES} minutos más.`,
+          }
+        : {
+            title: 'Extensión rechazada',
+            description: `${otherName ?? 'El otro participante'} no aceptó alargar la sesión.`,
+          }
+    );
+  }, [extension.outcome, toast]);
+
+  useEffect(() => {
+    if (!captions.error) return;
+
+    toast({
+      title: 'Subtítulos no disponibles',
+      description:
+        captions.error === 'not-allowed' || captions.error === 'service-not-allowed'
+          ? 'No se pudo usar el micrófono para reconocer tu voz. Seguirás viendo los subtítulos del otro participante.'
+          : 'Tu navegador no puede reconocer tu voz. Seguirás viendo los subtítulos del otro participante.',
+      variant: 'destructive',
+    });
+  }, [captions.error, toast]);
+
+  useEffect(() => {
+    if (remoteVideoRef.current) {
+      remoteVideoRef.current.srcObject = remoteStream;
+    }
+  }, [remoteStream]);
+
+  useEffect(() => {
+    if (hasJoined && remoteVideoRef.current) {
+      setAudioOutput(remoteVideoRef.current, devicePreferences.audioOutputId).catch((error) => {
+        console.error('Error selecting speaker:', error);
+      });
+    }
+  }, [hasJoined, devicePreferences.audioOutputId]);
+
+  // While presenting, the PiP previews what the other side sees
+  useEffect(() => {
+    if (localVideoRef.current) {
+      localVideoRef.current.srcObject = screenTrack ? new MediaStream([screenTrack]) : localStream;
+    }
+  }, [screenTrack, localStream]);
 
   const fetchSession = async () => {
     if (!id) return;
@@ -117,22 +385,63 @@ const Session = () => {
     setLoading(false);
   };
 
-  const startCamera = async () => {
+  // Booked sessions stay pending until one of the participants opens them at the start time
+  const startScheduledSession = async () => {
+    if (!session) return;
+
+    setStartingBooking(true);
+    const { data, error } = await supabase.rpc('start_scheduled_session', { _session_id: session.id });
+    setStartingBooking(false);
+
+    if (data && !error) {
+      setSession((current) => current && { ...current, status: data.status, started_at: data.started_at });
+      return;
+    }
+
+    toast({
+      variant: 'destructive',
+      title: 'No se pudo iniciar la clase',
+      description: getStartSessionErrorMessage(error ?? { message: '' }),
+    });
+    if (error?.message === 'SESSION_OVER') navigate('/dashboard');
+  };
+
+  const joinCall = (stream: MediaStream | null, preferences: DevicePreferences) => {
+    streamRef.current = stream;
+    setLocalStream(stream);
+    setDevicePreferences(preferences);
+    setIsMuted(!stream?.getAudioTracks()[0]?.enabled);
+    setIsVideoOff(!stream?.getVideoTracks()[0]?.enabled);
+    setHasJoined(true);
+  };
+
+  // Swaps a single track in place; the peer connection picks it up with replaceTrack
+  const switchDevice = async (kind: MediaDeviceKind, deviceId: string) => {
+    const preferences = { ...devicePreferences, [devicePreferenceKeys[kind]]: deviceId };
+    setDevicePreferences(preferences);
+    saveDevicePreferences(preferences);
+    if (kind === 'audiooutput') return;
+
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ 
-        video: true, 
-        audio: true 
-      });
-      streamRef.current = stream;
-      if (localVideoRef.current) {
-        localVideoRef.current.srcObject = stream;
+      const track = await openDeviceTrack(kind, deviceId);
+      const current = streamRef.current?.getTracks() ?? [];
+      const replaced = current.find((t) => t.kind === track.kind);
+      if (replaced) {
+        track.enabled = replaced.enabled;
+        replaced.stop();
       }
+
+      const stream = new MediaStream([...current.filter((t) => t.kind !== track.kind), track]);
+      streamRef.current = stream;
+      setLocalStream(stream);
+      if (track.kind === 'audio') setIsMuted(!track.enabled);
+      if (track.kind === 'video') setIsVideoOff(!track.enabled);
     } catch (error) {
-      console.error('Error accessing camera:', error);
+      console.error('Error switching device:', error);
       toast({
         variant: 'destructive',
-        title: 'Error de cámara',
-        description: 'No se pudo acceder a la cámara. Por favor verifica los permisos.',
+        title: 'Error de dispositivo',
+        description: 'No se pudo usar el dispositivo seleccionado.',
       });
     }
   };
@@ -157,32 +466,138 @@ const Session = () => {
     }
   };
 
-  const endSession = async () => {
-    if (!session || !profile) return;
+  const requestExtension = async () => {
+    const error = await extension.requestExtension();
+    if (error) {
+      toast({ title: 'No se pudo pedir más tiempo', description: error, variant: 'destructive' });
+    }
+  };
+
+  const warnAboutTimeLeft = (minutes: number) => {
+    // Called from the timer, so read the latest request state
+    const { canExtend, requestedBy } = extensionRef.current;
+    const canAsk = canExtend && !requestedBy;
+    toast({
+      title: minutes === 1 ? 'Queda 1 minuto' : `Quedan ${minutes} minutos`,
+      description: canAsk
+        ? `La sesión terminará pronto. Puedes pedir ${SESSION_EXTENSION_MINUTES} minutos más.`
+        : 'La sesión terminará pronto.',
+      action: canAsk ? (
+        <ToastAction altText={`Pedir ${SESSION_EXTENSION_MINUTES} minutos más`} onClick={requestExtension}>
+          +{SESSION_EXTENSION_MINUTES} min
+        </ToastAction>
+      ) : undefined,
+    });
+  };
 
-    const duration = Math.floor(elapsedTime / 60);
+  const warnAboutTimeLeftRef = useRef(warnAboutTimeLeft);
+  warnAboutTimeLeftRef.current = warnAboutTimeLeft;
 
-    await supabase
-      .from('sessions')
-      .update({
-        status: 'completed',
-        ended_at: new Date().toISOString(),
-        duration_minutes: duration,
-      })
-      .eq('id', session.id);
+  const toggleScreenShare = async () => {
+    if (screenTrack) {
+      stopScreenShare();
+      return;
+    }
 
+    try {
+      await startScreenShare();
+    } catch (error) {
+      // Closing the browser's picker is not an error worth reporting
+      if (error instanceof DOMException && error.name === 'NotAllowedError') return;
+
+      console.error('Error sharing screen:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error al compartir pantalla',
+        description: 'No se pudo compartir tu pantalla. Intenta de nuevo.',
+      });
+    }
+  };
+
+  const shareFile = async (file: File) => {
+    const error = await sendAttachment(file);
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error al compartir archivo',
+        description: error,
+      });
+      return false;
+    }
+    return true;
+  };
+
+  const toggleRecording = async () => {
+    if (!recording.requestedBy) {
+      if (await recording.giveConsent()) {
+        toast({
+          title: 'Solicitud de grabación enviada',
+          description: 'La grabación empezará cuando el otro participante la acepte.',
+        });
+      } else {
+        toast({
+          variant: 'destructive',
+          title: 'Error',
+          description: 'No se pudo solicitar la grabación.',
+        });
+      }
+      return;
+    }
+
+    await recording.withdrawConsent();
+  };
+
+  const finishSession = (status: 'completed' | 'cancelled') => {
     if (streamRef.current) {
       streamRef.current.getTracks().forEach(track => track.stop());
     }
+    setIsFinished(true);
+    setPeerLeftAt(null);
 
     // Show rating dialog if student
-    if (profile.role === 'student') {
+    if (profile?.role === 'student' && status === 'completed') {
       setShowRating(true);
     } else {
       navigate('/dashboard');
     }
   };
 
+  const endSession = async () => {
+    if (!session || !profile || endedRef.current) return;
+    endedRef.current = true;
+
+    // Save the latest code while the session still accepts writes
+    await sharedCode.flush();
+
+    // The server sets ended_at and duration_minutes
+    const { data } = await supabase.rpc('end_session', { _session_id: session.id });
+
+    finishSession(data?.status === 'cancelled' ? 'cancelled' : 'completed');
+  };
+
+  // The timer and the disconnect grace period end the session with the latest state
+  const endSessionRef = useRef(endSession);
+  endSessionRef.current = endSession;
+
+  // The other participant hung up, or the server closed the session
+  const handleSessionClosed = (status: 'completed' | 'cancelled') => {
+    if (endedRef.current) return;
+    endedRef.current = true;
+
+    const otherName = (profile?.role === 'student' ? session?.teacher : session?.student)?.full_name;
+    toast({
+      title: status === 'completed' ? 'Sesión finalizada' : 'Sesión cancelada',
+      description: otherName
+        ? `La sesión con ${otherName} ha terminado.`
+        : 'La sesión ha terminado.',
+    });
+
+    finishSession(status);
+  };
+
+  const handleSessionClosedRef = useRef(handleSessionClosed);
+  handleSessionClosedRef.current = handleSessionClosed;
+
   const submitRating = async () => {
     if (!session || !profile || rating === 0) return;
 
@@ -216,6 +631,11 @@ const Session = () => {
 
   const isStudent = profile?.role === 'student';
   const otherUser = isStudent ? session?.teacher : session?.student;
+  const timeLeft = extension.limitMinutes === null ? null : extension.limitMinutes * 60 - elapsedTime;
+  const isConnected = connectionState === 'connected' && !!remoteStream;
+  const isPresenting = !!presenterId && presenterId === profile?.id;
+  const isPeerPresenting = !!presenterId && presenterId !== profile?.id;
+  const hasCamera = !!localStream && localStream.getVideoTracks().length > 0;
 
   if (loading) {
     return (
@@ -279,6 +699,29 @@ const Session = () => {
     );
   }
 
+  if (session?.status === 'pending' && session.scheduled_at && !isFinished) {
+    return (
+      <ScheduledSessionWaiting
+        otherUser={otherUser}
+        subjectLabel={`${session.subjects.icon} ${session.subjects.name}${session.topics ? ` • ${session.topics.name}` : ''}`}
+        scheduledAt={session.scheduled_at}
+        starting={startingBooking}
+        onStart={startScheduledSession}
+      />
+    );
+  }
+
+  if (!hasJoined && session && !isFinished) {
+    return (
+      <PreJoinLobby
+        otherUser={otherUser}
+        subjectLabel={`${session.subjects.icon} ${session.subjects.name}${session.topics ? ` • ${session.topics.name}` : ''}`}
+        initialPreferences={devicePreferences}
+        onJoin={joinCall}
+      />
+    );
+  }
+
   return (
     <div className="min-h-screen bg-foreground flex flex-col">
       {/* Header */}
@@ -318,12 +761,61 @@ const Session = () => {
           </div>
 
           <div className="flex items-center gap-4">
-            <div className="flex items-center gap-2 text-primary-foreground/70">
+            <div className="hidden sm:flex items-center gap-2 text-sm text-primary-foreground/70">
+              <span
+                className={`w-2 h-2 rounded-full ${
+                  connectionState === 'connected'
+                    ? 'bg-emerald-500'
+                    : connectionState === 'failed'
+                      ? 'bg-destructive'
+                      : 'bg-amber-400 animate-pulse'
+                }`}
+              />
+              <span>{isReconnecting ? 'Reconectando...' : connectionStateLabels[connectionState]}</span>
+              {connectionState === 'connected' && (
+                <QualityIndicator
+                  quality={remoteQuality}
+                  label={`Conexión de ${otherUser?.full_name ?? 'el otro participante'}`}
+                  direction={stats?.incoming}
+                  rttMs={stats?.rttMs}
+                />
+              )}
+            </div>
+            <div
+              className={`flex items-center gap-2 ${
+                timeLeft === null
+                  ? 'text-primary-foreground/70'
+                  : timeLeft <= 60 ? 'text-destructive' : timeLeft <= 5 * 60 ? 'text-amber-400' : 'text-primary-foreground/70'
+              }`}
+            >
               <Clock className="w-4 h-4" />
               <span className="font-mono">{formatTime(elapsedTime)}</span>
               <span className="text-xs">/</span>
-              <span className="text-xs">60:00</span>
+              <span className="text-xs">{extension.limitMinutes === null ? '--:--' : formatTime(extension.limitMinutes * 60)}</span>
             </div>
+            {session?.status === 'active' && extension.canExtend && (
+              extension.requestedBy === profile?.id ? (
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => extension.respondToExtension(false)}
+                  title="Cancelar solicitud"
+                >
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Esperando respuesta
+                </Button>
+              ) : (
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={requestExtension}
+                  disabled={!!extension.requestedBy}
+                  title={`Pedir ${SESSION_EXTENSION_MINUTES} minutos más`}
+                >
+                  +{SESSION_EXTENSION_MINUTES} min
+                </Button>
+              )
+            )}
           </div>
         </div>
       </header>
@@ -336,23 +828,145 @@ const Session = () => {
             ref={remoteVideoRef}
             autoPlay 
             playsInline
-            className="w-full h-full object-cover"
+            className={`w-full h-full ${isPeerPresenting ? 'object-contain' : 'object-cover'}`}
           />
-          <div className="absolute inset-0 flex items-center justify-center">
-            <div className="text-center">
-              <Avatar className="h-32 w-32 mx-auto mb-4">
-                <AvatarImage src={otherUser?.avatar_url || undefined} />
-                <AvatarFallback className="bg-primary text-primary-foreground text-4xl">
-                  {otherUser ? getInitials(otherUser.full_name) : 'U'}
-                </AvatarFallback>
-              </Avatar>
-              <p className="text-primary-foreground/70 text-lg">
-                Esperando conexión de video...
-              </p>
+          {isReconnecting ? (
+            <div className="absolute inset-0 flex items-center justify-center bg-foreground/60 backdrop-blur-sm">
+              <div className="text-center">
+                <Loader2 className="w-12 h-12 text-primary animate-spin mx-auto mb-4" />
+                <p className="text-primary-foreground text-lg font-medium">Reconectando...</p>
+                <p className="text-primary-foreground/70 text-sm">
+                  Se interrumpió la conexión. Estamos intentando recuperarla.
+                </p>
+              </div>
             </div>
-          </div>
+          ) : !isConnected && (
+            <div className="absolute inset-0 flex items-center justify-center">
+              <div className="text-center">
+                <Avatar className="h-32 w-32 mx-auto mb-4">
+                  <AvatarImage src={otherUser?.avatar_url || undefined} />
+                  <AvatarFallback className="bg-primary text-primary-foreground text-4xl">
+                    {otherUser ? getInitials(otherUser.full_name) : 'U'}
+                  </AvatarFallback>
+                </Avatar>
+                <p className="text-primary-foreground/70 text-lg">
+                  {connectionState === 'failed'
+                    ? 'No se pudo establecer la conexión de video.'
+                    : 'Esperando conexión de video...'}
+                </p>
+              </div>
+            </div>
+          )}
         </div>
 
+        <Whiteboard
+          sessionId={liveSessionId}
+          profileId={profile?.id}
+          open={showWhiteboard}
+          equations={hasEquations ? equations : undefined}
+          canPinEquations={profile?.role === 'teacher'}
+          onShareFile={async (file) => {
+            if (await shareFile(file)) {
+              toast({ title: 'Archivo compartido', description: 'Lo encontrarás en el chat de la sesión.' });
+            }
+          }}
+          onClose={() => setShowWhiteboard(false)}
+        />
+
+        {hasCodeEditor && (
+          <Suspense fallback={null}>
+            <CodeEditorPanel
+              open={showCode}
+              codeDocument={sharedCode.codeDocument}
+              language={sharedCode.language}
+              loading={sharedCode.loading}
+              onLanguageChange={sharedCode.setLanguage}
+              onClose={() => setShowCode(false)}
+            />
+          </Suspense>
+        )}
+
+        <ChatPanel
+          open={showChat}
+          messages={messages}
+          profileId={profile?.id}
+          otherName={otherUser?.full_name}
+          onSend={sendMessage}
+          onAttach={shareFile}
+          equations={hasEquations ? equations : undefined}
+          canPinEquations={profile?.role === 'teacher'}
+          onClose={() => setShowChat(false)}
+        />
+
+        {/* Presenter */}
+        {presenterId && (
+          <div className="absolute top-8 left-8 bg-background/90 backdrop-blur-lg rounded-full px-4 py-2 shadow-lg flex items-center gap-2">
+            <ScreenShare className="w-4 h-4 text-primary" />
+            <span className="text-sm font-medium text-foreground">
+              {isPresenting
+                ? 'Estás presentando tu pantalla'
+                : `${otherUser?.full_name} está presentando`}
+            </span>
+          </div>
+        )}
+
+        {/* Recording */}
+        {recording.isAgreed && (
+          <div className="absolute top-8 right-8 bg-background/90 backdrop-blur-lg rounded-full px-4 py-2 shadow-lg flex items-center gap-2">
+            <span className="w-2.5 h-2.5 rounded-full bg-destructive animate-pulse" />
+            <span className="text-sm font-medium text-foreground">Grabando</span>
+          </div>
+        )}
+
+        <ExtensionRequestDialog
+          open={!!extension.requestedBy && extension.requestedBy !== profile?.id}
+          requesterName={otherUser?.full_name}
+          onAccept={() => extension.respondToExtension(true)}
+          onDecline={() => extension.respondToExtension(false)}
+        />
+
+        <RecordingConsentDialog
+          open={!!recording.requestedBy && !recording.hasConsented}
+          requesterName={otherUser?.full_name}
+          onAccept={recording.giveConsent}
+          onDecline={recording.withdrawConsent}
+        />
+
+        <DeviceSettingsDialog
+          open={showDevices}
+          stream={localStream}
+          preferences={devicePreferences}
+          onSelect={switchDevice}
+          onClose={() => setShowDevices(false)}
+        />
+
+        {/* Peer disconnected */}
+        {peerLeftAt && (
+          <div className="absolute top-8 left-1/2 -translate-x-1/2 bg-background/90 backdrop-blur-lg rounded-2xl px-5 py-3 shadow-2xl flex items-center gap-3">
+            <WifiOff className="w-5 h-5 text-destructive" />
+            <p className="text-sm text-foreground">
+              {otherUser?.full_name} se desconectó. La sesión terminará en {graceRemaining} s si no vuelve.
+            </p>
+          </div>
+        )}
+
+        {/* Captions */}
+        {captions.enabled && captions.captions.length > 0 && (
+          <div className="absolute bottom-8 left-1/2 -translate-x-1/2 w-full max-w-2xl px-4 space-y-1 pointer-events-none">
+            {captions.captions.map((caption) => (
+              <p
+                key={caption.speakerId}
+                className={`bg-foreground/80 text-primary-foreground rounded-lg px-4 py-2 text-lg leading-snug ${caption.isFinal ? '' : 'opacity-90'}`}
+              >
+                <span className="font-semibold text-primary-foreground/70 mr-2">
+                  {caption.speakerId === profile?.id ? 'Tú' : otherUser?.full_name}:
+                </span>
+                {caption.text}
+              </p>
+            ))}
+          </div>
+        )}
+
         {/* Local Video (PiP) */}
         <div className="absolute bottom-8 right-8 w-48 h-36 bg-foreground rounded-2xl overflow-hidden shadow-2xl border-2 border-primary-foreground/10">
           <video 
@@ -360,13 +974,23 @@ const Session = () => {
             autoPlay 
             playsInline
             muted
-            className={`w-full h-full object-cover ${isVideoOff ? 'hidden' : ''}`}
+            className={`w-full h-full ${isPresenting ? 'object-contain' : 'object-cover'} ${isVideoOff && !isPresenting ? 'hidden' : ''}`}
           />
-          {isVideoOff && (
+          {isVideoOff && !isPresenting && (
             <div className="w-full h-full flex items-center justify-center bg-muted">
               <VideoOff className="w-8 h-8 text-muted-foreground" />
             </div>
           )}
+          {connectionState === 'connected' && (
+            <div className="absolute top-2 left-2 rounded-full bg-background/80 p-1">
+              <QualityIndicator
+                quality={localQuality}
+                label="Tu conexión"
+                direction={stats?.outgoing}
+                rttMs={stats?.rttMs}
+              />
+            </div>
+          )}
         </div>
       </main>
 
@@ -387,10 +1011,117 @@ const Session = () => {
             size="icon"
             className="h-14 w-14 rounded-full"
             onClick={toggleVideo}
+            disabled={!hasCamera}
+            title={hasCamera ? undefined : 'Sin cámara'}
           >
             {isVideoOff ? <VideoOff className="w-6 h-6" /> : <Video className="w-6 h-6" />}
           </Button>
 
+          <Button
+            variant={showWhiteboard ? 'default' : 'secondary'}
+            size="icon"
+            className="h-14 w-14 rounded-full"
+            onClick={() => {
+              setShowWhiteboard(!showWhiteboard);
+              setShowCode(false);
+            }}
+            title="Pizarra"
+          >
+            <PenTool className="w-6 h-6" />
+          </Button>
+
+          {hasCodeEditor && (
+            <Button
+              variant={showCode ? 'default' : 'secondary'}
+              size="icon"
+              className="h-14 w-14 rounded-full"
+              onClick={() => {
+                setShowCode(!showCode);
+                setShowWhiteboard(false);
+              }}
+              title="Editor de código"
+            >
+              <Code2 className="w-6 h-6" />
+            </Button>
+          )}
+
+          <div className="relative">
+            <Button
+              variant={showChat ? 'default' : 'secondary'}
+              size="icon"
+              className="h-14 w-14 rounded-full"
+              onClick={() => setShowChat(!showChat)}
+              title="Chat"
+            >
+              <MessageSquare className="w-6 h-6" />
+            </Button>
+            {unreadCount > 0 && !showChat && (
+              <Badge variant="destructive" className="absolute -top-1 -right-1 h-5 min-w-5 px-1.5 justify-center rounded-full">
+                {unreadCount > 9 ? '9+' : unreadCount}
+              </Badge>
+            )}
+          </div>
+
+          {isScreenShareSupported() && (
+            <Button
+              variant={isPresenting ? 'default' : 'secondary'}
+              size="icon"
+              className="h-14 w-14 rounded-full"
+              onClick={toggleScreenShare}
+              title={
+                isPresenting
+                  ? 'Dejar de presentar'
+                  : isPeerPresenting
+                    ? 'Tomar el control de la presentación'
+                    : 'Compartir pantalla'
+              }
+            >
+              {isPresenting ? <ScreenShareOff className="w-6 h-6" /> : <ScreenShare className="w-6 h-6" />}
+            </Button>
+          )}
+
+          <Button
+            variant={captions.enabled ? 'default' : 'secondary'}
+            size="icon"
+            className="h-14 w-14 rounded-full"
+            onClick={captions.toggleCaptions}
+            title={captions.enabled ? 'Desactivar subtítulos' : 'Activar subtítulos'}
+          >
+            {captions.enabled ? <CaptionsOff className="w-6 h-6" /> : <Captions className="w-6 h-6" />}
+          </Button>
+
+          {isRecordingSupported() && (
+            <Button
+              variant={recording.isAgreed ? 'destructive' : 'secondary'}
+              size="icon"
+              className="h-14 w-14 rounded-full"
+              onClick={toggleRecording}
+              title={
+                recording.isAgreed
+                  ? 'Detener grabación'
+                  : recording.requestedBy
+                    ? 'Cancelar solicitud de grabación'
+                    : 'Grabar sesión'
+              }
+            >
+              {recording.isAgreed ? (
+                <Square className="w-5 h-5 fill-current" />
+              ) : (
+                <Circle className={`w-6 h-6 ${recording.requestedBy ? 'animate-pulse text-destructive' : ''}`} />
+              )}
+            </Button>
+          )}
+
+          <Button
+            variant="secondary"
+            size="icon"
+            className="h-14 w-14 rounded-full"
+            onClick={() => setShowDevices(true)}
+            title="Dispositivos"
+          >
+            <Settings className="w-6 h-6" />
+          </Button>
+
           <Button
             variant="destructive"
             size="icon"
@@ -0,0 +1,454 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/lib/auth';
+import DashboardHeader from '@/components/dashboard/DashboardHeader';
+import OutgoingRequestDialog from '@/components/dashboard/OutgoingRequestDialog';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import {
+  Award,
+  CalendarDays,
+  CheckCircle,
+  ChevronRight,
+  Loader2,
+  MessageSquare,
+  Star,
+  UserX,
+  Video
+} from 'lucide-react';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { useToast } from '@/hooks/use-toast';
+import { useOnlineTeachers } from '@/hooks/use-teacher-presence';
+import { useOutgoingRequest } from '@/hooks/use-outgoing-request';
+import { ExperienceLevel, experienceLevelLabels } from '@/lib/availability';
+import { formatScheduleTime, weekdayLabels, weekdayOrder } from '@/lib/schedule';
+import { getSessionClaimErrorMessage } from '@/lib/sessions';
+
+interface TeacherInfo {
+  id: string;
+  full_name: string;
+  avatar_url: string | null;
+  bio: string | null;
+  is_verified: boolean | null;
+  role: string;
+}
+
+interface SubjectTopicNames {
+  subjects: {
+    name: string;
+    icon: string;
+  };
+  topics: {
+    name: string;
+  } | null;
+}
+
+interface TeacherSpecialization extends SubjectTopicNames {
+  id: string;
+  subject_id: string;
+  experience_level: ExperienceLevel;
+}
+
+interface AvailabilityOffer extends SubjectTopicNames {
+  id: string;
+}
+
+interface Review {
+  id: string;
+  rating: number;
+  comment: string | null;
+  created_at: string;
+  student: {
+    full_name: string;
+  } | null;
+}
+
+interface ScheduleRow {
+  id: string;
+  weekday: number;
+  start_time: string;
+  end_time: string;
+  timezone: string;
+}
+
+const RECENT_COMMENTS = 5;
+
+const TeacherProfile = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { user, profile, loading: authLoading } = useAuth();
+  const { toast } = useToast();
+  const onlineTeachers = useOnlineTeachers();
+  const outgoing = useOutgoingRequest();
+
+  const [teacher, setTeacher] = useState<TeacherInfo | null>(null);
+  const [specializations, setSpecializations] = useState<TeacherSpecialization[]>([]);
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [completedSessions, setCompletedSessions] = useState(0);
+  const [offers, setOffers] = useState<AvailabilityOffer[]>([]);
+  const [schedule, setSchedule] = useState<ScheduleRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [connecting, setConnecting] = useState(false);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate('/auth');
+    }
+  }, [user, authLoading, navigate]);
+
+  const fetchOffers = useCallback(async () => {
+    if (!id) return;
+
+    const { data } = await supabase
+      .from('teacher_availability')
+      .select('id, subjects (name, icon), topics (name)')
+      .eq('teacher_id', id)
+      .eq('is_available', true);
+    setOffers((data as unknown as AvailabilityOffer[]) ?? []);
+  }, [id]);
+
+  useEffect(() => {
+    if (!id || !user) return;
+
+    const fetchProfile = async () => {
+      const [teacherResult, specializationsResult, reviewsResult, completedResult, scheduleResult] = await Promise.all([
+        supabase
+          .from('profiles')
+          .select('id, full_name, avatar_url, bio, is_verified, role')
+          .eq('id', id)
+          .maybeSingle(),
+        supabase
+          .from('teacher_subjects')
+          .select('id, subject_id, experience_level, subjects (name, icon), topics (name)')
+          .eq('teacher_id', id)
+          .order('created_at'),
+        supabase
+          .from('ratings')
+          .select('id, rating, comment, created_at, student:profiles!ratings_student_id_fkey (full_name)')
+          .eq('teacher_id', id)
+          .order('created_at', { ascending: false }),
+        supabase.rpc('get_teacher_completed_sessions', { _teacher_id: id }),
+        supabase
+          .from('teacher_schedule')
+          .select('id, weekday, start_time, end_time, timezone')
+          .eq('teacher_id', id)
+          .order('start_time'),
+      ]);
+
+      setTeacher(teacherResult.data?.role === 'teacher' ? teacherResult.data : null);
+      setSpecializations((specializationsResult.data as unknown as TeacherSpecialization[]) ?? []);
+      setReviews((reviewsResult.data as unknown as Review[]) ?? []);
+      setCompletedSessions(completedResult.data ?? 0);
+      setSchedule(scheduleResult.data ?? []);
+      setLoading(false);
+    };
+
+    fetchProfile();
+    fetchOffers();
+
+    const channel = supabase
+      .channel(`teacher-profile-${id}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'teacher_availability',
+        filter: `teacher_id=eq.${id}`
+      }, () => {
+        fetchOffers();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [id, user, fetchOffers]);
+
+  const handleConnect = async () => {
+    if (!teacher || offers.length === 0) return;
+
+    setConnecting(true);
+    const { data: session, error } = await supabase.rpc('claim_teacher_availability', {
+      _availability_id: offers[0].id,
+    });
+    setConnecting(false);
+
+    if (session && !error) {
+      outgoing.setRequest({
+        id: session.id,
+        created_at: session.created_at,
+        teacher: {
+          full_name: teacher.full_name,
+          avatar_url: teacher.avatar_url,
+        },
+      });
+    } else {
+      toast({
+        variant: 'destructive',
+        title: 'No se pudo conectar',
+        description: getSessionClaimErrorMessage(error ?? { message: '' }),
+      });
+      fetchOffers();
+    }
+  };
+
+  const getInitials = (name: string) => {
+    return name.split(' ').map((n) => n[0]).join('').toUpperCase().slice(0, 2);
+  };
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="w-12 h-12 text-primary animate-spin" />
+      </div>
+    );
+  }
+
+  if (!teacher) {
+    return (
+      <div className="min-h-screen bg-background">
+        <DashboardHeader />
+        <main className="pt-24 pb-12 px-6">
+          <div className="container mx-auto max-w-4xl bg-card rounded-2xl border border-border p-12 text-center">
+            <div className="w-16 h-16 rounded-full bg-muted flex items-center justify-center mx-auto mb-4">
+              <UserX className="w-8 h-8 text-muted-foreground" />
+            </div>
+            <h3 className="text-lg font-semibold text-foreground mb-2">Tutor no encontrado</h3>
+            <Button variant="outline" className="mt-4" onClick={() => navigate('/dashboard')}>
+              Volver al panel
+            </Button>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  // Availability rows can outlive a closed tab by a few minutes; presence can't
+  const isOnline = offers.length > 0 && (!onlineTeachers || onlineTeachers.has(teacher.id));
+  const canConnect = isOnline && profile?.role === 'student';
+
+  const averageRating = reviews.length > 0
+    ? reviews.reduce((total, review) => total + review.rating, 0) / reviews.length
+    : 0;
+  const distribution = [5, 4, 3, 2, 1].map((stars) => ({
+    stars,
+    count: reviews.filter((review) => review.rating === stars).length,
+  }));
+  const recentComments = reviews.filter((review) => review.comment?.trim()).slice(0, RECENT_COMMENTS);
+
+  const subjectsTaught = [...new Map(specializations.map((s) => [s.subject_id, s.subjects])).values()];
+
+  return (
+    <div className="min-h-screen bg-background">
+      <DashboardHeader />
+
+      <main className="pt-24 pb-12 px-6">
+        <div className="container mx-auto max-w-4xl space-y-6">
+          {/* Header */}
+          <div className="bg-card rounded-2xl border border-border p-8 flex flex-col sm:flex-row gap-6">
+            <div className="relative self-start">
+              <Avatar className="h-24 w-24">
+                <AvatarImage src={teacher.avatar_url || undefined} />
+                <AvatarFallback className="bg-primary text-primary-foreground text-2xl">
+                  {getInitials(teacher.full_name)}
+                </AvatarFallback>
+              </Avatar>
+              {isOnline && (
+                <span className="absolute bottom-1 right-1 w-5 h-5 bg-emerald-500 rounded-full border-2 border-card" />
+              )}
+            </div>
+
+            <div className="flex-1 min-w-0">
+              <div className="flex flex-wrap items-center gap-2 mb-2">
+                <h1 className="text-3xl font-bold text-foreground">{teacher.full_name}</h1>
+                {teacher.is_verified && (
+                  <Badge variant="secondary" className="bg-emerald-500/10 text-emerald-600">
+                    Verificado ✓
+                  </Badge>
+                )}
+              </div>
+              <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground mb-4">
+                <span className="flex items-center gap-1">
+                  <Star className="w-4 h-4 text-amber-400 fill-amber-400" />
+                  {averageRating > 0 ? averageRating.toFixed(1) : 'Sin calificaciones'}
+                  {reviews.length > 0 && ` (${reviews.length})`}
+                </span>
+                <span className="flex items-center gap-1">
+                  <CheckCircle className="w-4 h-4" />
+                  {completedSessions} {completedSessions === 1 ? 'sesión completada' : 'sesiones completadas'}
+                </span>
+              </div>
+              {subjectsTaught.length > 0 && (
+                <div className="flex flex-wrap gap-2 mb-4">
+                  {subjectsTaught.map((subject) => (
+                    <Badge key={subject.name} variant="outline">
+                      <span className="mr-1">{subject.icon}</span>
+                      {subject.name}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+              <p className="text-foreground whitespace-pre-line">
+                {teacher.bio?.trim() || 'Este tutor todavía no ha escrito una presentación.'}
+              </p>
+            </div>
+          </div>
+
+          {/* Availability */}
+          <div className="bg-card rounded-2xl border border-border p-6">
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+              <h2 className="text-lg font-semibold text-foreground flex items-center gap-2">
+                <span className={`w-2 h-2 rounded-full ${isOnline ? 'bg-emerald-500 animate-pulse' : 'bg-muted-foreground'}`} />
+                {isOnline ? 'Disponible ahora' : 'No disponible ahora'}
+              </h2>
+              {canConnect && (
+                <Button variant="hero" onClick={handleConnect} disabled={connecting || !!outgoing.request}>
+                  {connecting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Video className="w-4 h-4 mr-2" />}
+                  Conectar
+                </Button>
+              )}
+            </div>
+
+            {isOnline && (
+              <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-muted-foreground mb-4">
+                {offers.map((offer) => (
+                  <span key={offer.id} className="flex items-center gap-1">
+                    <span>{offer.subjects.icon}</span>
+                    <span>{offer.subjects.name}</span>
+                    {offer.topics && (
+                      <>
+                        <ChevronRight className="w-4 h-4" />
+                        <span>{offer.topics.name}</span>
+                      </>
+                    )}
+                  </span>
+                ))}
+              </div>
+            )}
+
+            {schedule.length > 0 && (
+              <div>
+                <p className="text-sm font-medium text-foreground mb-2 flex items-center gap-2">
+                  <CalendarDays className="w-4 h-4 text-primary" />
+                  Horario semanal ({schedule[0].timezone})
+                </p>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-1 text-sm">
+                  {weekdayOrder
+                    .filter((weekday) => schedule.some((w) => w.weekday === weekday))
+                    .map((weekday) => (
+                      <div key={weekday} className="flex gap-2">
+                        <span className="w-24 text-muted-foreground">{weekdayLabels[weekday]}</span>
+                        <span className="text-foreground">
+                          {schedule
+                            .filter((w) => w.weekday === weekday)
+                            .map((w) => `${formatScheduleTime(w.start_time)}–${formatScheduleTime(w.end_time)}`)
+                            .join(', ')}
+                        </span>
+                      </div>
+                    ))}
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Specializations */}
+          <div className="bg-card rounded-2xl border border-border p-6">
+            <h2 className="text-lg font-semibold text-foreground mb-4 flex items-center gap-2">
+              <Award className="w-5 h-5 text-primary" />
+              Especialidades
+            </h2>
+            {specializations.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Este tutor todavía no ha declarado especialidades.</p>
+            ) : (
+              <div className="space-y-2">
+                {specializations.map((specialization) => (
+                  <div key={specialization.id} className="flex items-center gap-2 text-sm text-foreground">
+                    <span>{specialization.subjects.icon}</span>
+                    <span className="font-medium">{specialization.subjects.name}</span>
+                    <ChevronRight className="w-4 h-4 text-muted-foreground" />
+                    <span className={specialization.topics ? '' : 'text-muted-foreground'}>
+                      {specialization.topics?.name ?? 'Todos los temas'}
+                    </span>
+                    <Badge variant="outline" className="ml-auto text-xs font-normal">
+                      {experienceLevelLabels[specialization.experience_level]}
+                    </Badge>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Reviews */}
+          <div className="bg-card rounded-2xl border border-border p-6">
+            <h2 className="text-lg font-semibold text-foreground mb-4 flex items-center gap-2">
+              <MessageSquare className="w-5 h-5 text-primary" />
+              Opiniones
+            </h2>
+
+            {reviews.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Aún no hay calificaciones.</p>
+            ) : (
+              <div className="grid sm:grid-cols-[auto_1fr] gap-8">
+                <div className="text-center">
+                  <p className="text-5xl font-bold text-foreground">{averageRating.toFixed(1)}</p>
+                  <div className="flex justify-center gap-0.5 my-2">
+                    {[1, 2, 3, 4, 5].map((stars) => (
+                      <Star
+                        key={stars}
+                        className={`w-4 h-4 ${stars <= Math.round(averageRating) ? 'text-amber-400 fill-amber-400' : 'text-muted'}`}
+                      />
+                    ))}
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {reviews.length} {reviews.length === 1 ? 'calificación' : 'calificaciones'}
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  {distribution.map(({ stars, count }) => (
+                    <div key={stars} className="flex items-center gap-3 text-sm">
+                      <span className="w-4 text-muted-foreground">{stars}</span>
+                      <Progress value={(count / reviews.length) * 100} className="h-2 flex-1" />
+                      <span className="w-8 text-right text-muted-foreground">{count}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {recentComments.length > 0 && (
+              <div className="mt-8 space-y-4">
+                {recentComments.map((review) => (
+                  <div key={review.id} className="border-t border-border pt-4">
+                    <div className="flex items-center gap-2 mb-1 text-sm">
+                      <span className="font-medium text-foreground">{review.student?.full_name ?? 'Estudiante'}</span>
+                      <span className="flex items-center gap-0.5 text-amber-500">
+                        <Star className="w-3 h-3 fill-amber-400" />
+                        {review.rating}
+                      </span>
+                      <span className="ml-auto text-muted-foreground">
+                        {format(new Date(review.created_at), "d 'de' MMMM yyyy", { locale: es })}
+                      </span>
+                    </div>
+                    <p className="text-sm text-foreground whitespace-pre-line">{review.comment}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </main>
+
+      <OutgoingRequestDialog
+        request={outgoing.request}
+        onCancel={outgoing.cancel}
+        onExpire={outgoing.expire}
+      />
+    </div>
+  );
+};
+
+export default TeacherProfile;
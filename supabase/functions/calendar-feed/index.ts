@@ -0,0 +1,175 @@
+// Calendar subscription feed: GET /functions/v1/calendar-feed?token=<secret>
+//
+// Serves the token owner's pending bookings, active sessions and sessions that ended in the
+// last 30 days as iCalendar. Calendar apps can't sign in, so the token is the only credential
+// (JWT verification is off for this function in config.toml) and lookups use the service role.
+//
+// Environment:
+//   APP_URL   origin of the web app, used for the /session/:id join links
+//
+// The iCalendar formatting mirrors src/lib/calendar.ts; edge functions can't import from src.
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+const RECENT_DAYS = 30;
+
+interface FeedSession {
+  id: string;
+  status: string;
+  student_id: string;
+  created_at: string;
+  scheduled_at: string | null;
+  started_at: string | null;
+  ended_at: string | null;
+  max_minutes: number;
+  extended_minutes: number;
+  subjects: { name: string } | null;
+  topics: { name: string } | null;
+  student: { full_name: string } | null;
+  teacher: { full_name: string } | null;
+}
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const formatDate = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let bytes = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (bytes + size > (parts.length ? 74 : 75)) {
+      parts.push(current);
+      current = '';
+      bytes = 0;
+    }
+    current += char;
+    bytes += size;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+const toEvent = (session: FeedSession, profileId: string, appUrl: string) => {
+  const start = new Date(session.started_at ?? session.scheduled_at ?? session.created_at);
+  const end = session.ended_at
+    ? new Date(session.ended_at)
+    : new Date(start.getTime() + (session.max_minutes + session.extended_minutes) * 60 * 1000);
+  const joinUrl = `${appUrl}/session/${session.id}`;
+  const subjectName = session.subjects?.name ?? 'Sesión';
+  const subject = session.topics ? `${subjectName} • ${session.topics.name}` : subjectName;
+  const other = session.student_id === profileId ? session.teacher : session.student;
+  const status = session.status === 'cancelled' ? 'CANCELLED' : session.status === 'pending' ? 'TENTATIVE' : 'CONFIRMED';
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${session.id}@clasify`,
+    `DTSTAMP:${formatDate(new Date())}`,
+    `DTSTART:${formatDate(start)}`,
+    `DTEND:${formatDate(end)}`,
+    `SUMMARY:${escapeText(`Clasify: ${subject}${other ? ` con ${other.full_name}` : ''}`)}`,
+    `DESCRIPTION:${escapeText(`Únete a la sesión: ${joinUrl}`)}`,
+    `URL:${joinUrl}`,
+    `STATUS:${status}`,
+    'END:VEVENT',
+  ];
+};
+
+Deno.serve(async (req) => {
+  if (req.method !== 'GET') {
+    return new Response('Method not allowed', { status: 405 });
+  }
+
+  const token = new URL(req.url).searchParams.get('token');
+  if (!token) {
+    return new Response('Not found', { status: 404 });
+  }
+
+  const appUrl = Deno.env.get('APP_URL')?.replace(/\/$/, '');
+  if (!appUrl) {
+    console.error('APP_URL is not configured');
+    return new Response('Feed unavailable', { status: 500 });
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+    { auth: { persistSession: false } }
+  );
+
+  const { data: feed } = await supabase
+    .from('calendar_feed_tokens')
+    .select('profile_id')
+    .eq('token', token)
+    .maybeSingle();
+
+  // Rotated and unknown tokens look the same
+  if (!feed) {
+    return new Response('Not found', { status: 404 });
+  }
+
+  const profileId = feed.profile_id;
+  const recentSince = new Date(Date.now() - RECENT_DAYS * 24 * 60 * 60 * 1000);
+
+  // Bookings are made at most 30 days ahead, so anything still relevant was created in the
+  // last 60 days; the exact cut is made below
+  const { data, error } = await supabase
+    .from('sessions')
+    .select(`
+      id,
+      status,
+      student_id,
+      created_at,
+      scheduled_at,
+      started_at,
+      ended_at,
+      max_minutes,
+      extended_minutes,
+      subjects(name),
+      topics(name),
+      student:profiles!sessions_student_id_fkey(full_name),
+      teacher:profiles!sessions_teacher_id_fkey(full_name)
+    `)
+    .or(`student_id.eq.${profileId},teacher_id.eq.${profileId}`)
+    .gte('created_at', new Date(recentSince.getTime() - RECENT_DAYS * 24 * 60 * 60 * 1000).toISOString())
+    .order('created_at');
+
+  if (error) {
+    console.error('Error loading sessions for calendar feed:', error);
+    return new Response('Feed unavailable', { status: 500 });
+  }
+
+  const sessions = (data as unknown as FeedSession[]).filter((session) =>
+    // Live requests that were never accepted don't belong in a calendar
+    (session.status === 'pending' && session.scheduled_at)
+    || session.status === 'active'
+    || (session.ended_at && new Date(session.ended_at) >= recentSince)
+  );
+
+  const body = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Clasify//Sesiones//ES',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:Clasify',
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+    ...sessions.flatMap((session) => toEvent(session, profileId, appUrl)),
+    'END:VCALENDAR',
+  ]
+    .map(foldLine)
+    .join('\r\n') + '\r\n';
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="clasify.ics"',
+      'Cache-Control': 'private, max-age=300',
+    },
+  });
+});
@@ -0,0 +1,78 @@
+// Recording retention: POST /functions/v1/purge-expired-recordings
+//
+// Called daily by the `purge-expired-recordings` cron job with the service role key. Removes the
+// chunks of every recording past its expires_at through the Storage API, then its
+// session_recordings row. A recording whose files can't be removed keeps its row, so the next
+// run tries again.
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+const RECORDINGS_BUCKET = 'session-recordings';
+const LIST_PAGE_SIZE = 1000;
+
+type AdminClient = ReturnType<typeof createClient>;
+
+const listChunkPaths = async (supabase: AdminClient, folder: string) => {
+  const paths: string[] = [];
+  for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+    const { data, error } = await supabase.storage
+      .from(RECORDINGS_BUCKET)
+      .list(folder, { limit: LIST_PAGE_SIZE, offset });
+    if (error) throw error;
+
+    paths.push(...data.map((file) => `${folder}/${file.name}`));
+    if (data.length < LIST_PAGE_SIZE) return paths;
+  }
+};
+
+Deno.serve(async (req) => {
+  if (req.method !== 'POST') {
+    return new Response('Method not allowed', { status: 405 });
+  }
+
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey, {
+    auth: { persistSession: false },
+  });
+
+  const { data: expired, error } = await supabase
+    .from('session_recordings')
+    .select('id, session_id')
+    .lt('expires_at', new Date().toISOString());
+
+  if (error) {
+    console.error('Error loading expired recordings:', error);
+    return new Response('Purge failed', { status: 500 });
+  }
+
+  let purged = 0;
+  for (const recording of expired) {
+    let paths: string[];
+    try {
+      paths = await listChunkPaths(supabase, `${recording.session_id}/${recording.id}`);
+    } catch (listError) {
+      console.error(`Error listing recording ${recording.id}:`, listError);
+      continue;
+    }
+
+    if (paths.length > 0) {
+      const { error: removeError } = await supabase.storage.from(RECORDINGS_BUCKET).remove(paths);
+      if (removeError) {
+        console.error(`Error removing recording ${recording.id}:`, removeError);
+        continue;
+      }
+    }
+
+    const { error: deleteError } = await supabase.from('session_recordings').delete().eq('id', recording.id);
+    if (deleteError) {
+      console.error(`Error deleting recording ${recording.id}:`, deleteError);
+      continue;
+    }
+    purged += 1;
+  }
+
+  return Response.json({ purged, failed: expired.length - purged });
+});
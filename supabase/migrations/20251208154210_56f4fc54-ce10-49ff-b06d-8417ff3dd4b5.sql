@@ -0,0 +1,82 @@
+-- Session request handshake: students create 'pending' sessions and the teacher
+-- accepts or declines them. Requests expire after 30 seconds (keep in sync with
+-- SESSION_REQUEST_TIMEOUT_SECONDS in src/lib/sessions.ts).
+
+-- Helper to resolve the caller's profile id
+CREATE OR REPLACE FUNCTION public.current_profile_id()
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT id FROM public.profiles WHERE user_id = auth.uid()
+$$;
+
+-- Teacher accepts a pending request. The session becomes active with a server-set
+-- started_at and the teacher stops being listed as available.
+-- Returns the resulting status so the client can tell an accepted request from an expired one.
+CREATE OR REPLACE FUNCTION public.accept_session_request(_session_id uuid)
+RETURNS session_status
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _session public.sessions%ROWTYPE;
+BEGIN
+  SELECT * INTO _session FROM public.sessions WHERE id = _session_id FOR UPDATE;
+
+  IF NOT FOUND OR _session.teacher_id IS DISTINCT FROM public.current_profile_id() THEN
+    RAISE EXCEPTION 'Sesión no encontrada';
+  END IF;
+
+  IF _session.status <> 'pending' THEN
+    RETURN _session.status;
+  END IF;
+
+  IF _session.created_at < now() - interval '30 seconds' THEN
+    UPDATE public.sessions
+    SET status = 'cancelled', ended_at = now()
+    WHERE id = _session_id;
+    RETURN 'cancelled';
+  END IF;
+
+  UPDATE public.sessions
+  SET status = 'active', started_at = now()
+  WHERE id = _session_id;
+
+  DELETE FROM public.teacher_availability WHERE teacher_id = _session.teacher_id;
+
+  RETURN 'active';
+END;
+$$;
+
+-- Either participant withdraws a pending request (teacher declines, student cancels,
+-- or the countdown runs out on one of the clients).
+CREATE OR REPLACE FUNCTION public.cancel_session_request(_session_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _profile_id uuid := public.current_profile_id();
+BEGIN
+  UPDATE public.sessions
+  SET status = 'cancelled', ended_at = now()
+  WHERE id = _session_id
+    AND status = 'pending'
+    AND (student_id = _profile_id OR teacher_id = _profile_id);
+END;
+$$;
+
+-- Students may only open sessions as pending requests; activation goes through accept_session_request
+DROP POLICY IF EXISTS "Students can create sessions for themselves only" ON public.sessions;
+DROP POLICY IF EXISTS "Students can create their own sessions" ON public.sessions;
+CREATE POLICY "Students can request sessions for themselves only" ON public.sessions
+FOR INSERT WITH CHECK (
+  student_id = public.current_profile_id()
+  AND status = 'pending'
+  AND started_at IS NULL
+);
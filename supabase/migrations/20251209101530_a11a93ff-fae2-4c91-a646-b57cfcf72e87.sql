@@ -0,0 +1,137 @@
+-- Atomic session claim. Requesting a tutor locks their availability row, checks that
+-- neither participant is already in a session, creates the pending session and takes
+-- the tutor off the list in a single transaction, so two students can no longer book
+-- the same tutor at once.
+--
+-- Failures are raised with a stable error code as the message:
+--   TEACHER_UNAVAILABLE  the availability row is gone or already claimed
+--   TEACHER_BUSY         the tutor already has a pending or active session
+--   STUDENT_BUSY         the student already has a pending or active session
+--   NOT_A_STUDENT        the caller has no student profile
+
+CREATE OR REPLACE FUNCTION public.claim_teacher_availability(_availability_id uuid)
+RETURNS public.sessions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _student_id uuid;
+  _availability public.teacher_availability%ROWTYPE;
+  _session public.sessions%ROWTYPE;
+BEGIN
+  SELECT id INTO _student_id
+  FROM public.profiles
+  WHERE user_id = auth.uid() AND role = 'student';
+
+  IF _student_id IS NULL THEN
+    RAISE EXCEPTION 'NOT_A_STUDENT';
+  END IF;
+
+  -- Concurrent claims queue up here; the loser sees is_available = false
+  SELECT * INTO _availability
+  FROM public.teacher_availability
+  WHERE id = _availability_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT COALESCE(_availability.is_available, false) THEN
+    RAISE EXCEPTION 'TEACHER_UNAVAILABLE';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.sessions
+    WHERE teacher_id = _availability.teacher_id AND status IN ('pending', 'active')
+  ) THEN
+    RAISE EXCEPTION 'TEACHER_BUSY';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.sessions
+    WHERE student_id = _student_id AND status IN ('pending', 'active')
+  ) THEN
+    RAISE EXCEPTION 'STUDENT_BUSY';
+  END IF;
+
+  INSERT INTO public.sessions (student_id, teacher_id, subject_id, topic_id, status)
+  VALUES (_student_id, _availability.teacher_id, _availability.subject_id, _availability.topic_id, 'pending')
+  RETURNING * INTO _session;
+
+  UPDATE public.teacher_availability
+  SET is_available = false
+  WHERE id = _availability_id;
+
+  RETURN _session;
+END;
+$$;
+
+-- Accepting removes the availability row; an expired request hands the tutor back to the list
+CREATE OR REPLACE FUNCTION public.accept_session_request(_session_id uuid)
+RETURNS session_status
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _session public.sessions%ROWTYPE;
+BEGIN
+  SELECT * INTO _session FROM public.sessions WHERE id = _session_id FOR UPDATE;
+
+  IF NOT FOUND OR _session.teacher_id IS DISTINCT FROM public.current_profile_id() THEN
+    RAISE EXCEPTION 'Sesión no encontrada';
+  END IF;
+
+  IF _session.status <> 'pending' THEN
+    RETURN _session.status;
+  END IF;
+
+  IF _session.created_at < now() - interval '30 seconds' THEN
+    UPDATE public.sessions
+    SET status = 'cancelled', ended_at = now()
+    WHERE id = _session_id;
+
+    UPDATE public.teacher_availability
+    SET is_available = true
+    WHERE teacher_id = _session.teacher_id;
+
+    RETURN 'cancelled';
+  END IF;
+
+  UPDATE public.sessions
+  SET status = 'active', started_at = now()
+  WHERE id = _session_id;
+
+  DELETE FROM public.teacher_availability WHERE teacher_id = _session.teacher_id;
+
+  RETURN 'active';
+END;
+$$;
+
+-- A declined, withdrawn or expired request puts the tutor back on the list
+-- (unless they went offline in the meantime and the row is gone)
+CREATE OR REPLACE FUNCTION public.cancel_session_request(_session_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _profile_id uuid := public.current_profile_id();
+  _teacher_id uuid;
+BEGIN
+  UPDATE public.sessions
+  SET status = 'cancelled', ended_at = now()
+  WHERE id = _session_id
+    AND status = 'pending'
+    AND (student_id = _profile_id OR teacher_id = _profile_id)
+  RETURNING teacher_id INTO _teacher_id;
+
+  IF _teacher_id IS NOT NULL THEN
+    UPDATE public.teacher_availability
+    SET is_available = true
+    WHERE teacher_id = _teacher_id;
+  END IF;
+END;
+$$;
+
+-- Sessions are only created through claim_teacher_availability
+DROP POLICY IF EXISTS "Students can request sessions for themselves only" ON public.sessions;
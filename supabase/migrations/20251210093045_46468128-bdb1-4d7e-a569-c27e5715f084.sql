@@ -0,0 +1,153 @@
+-- Server-authoritative session lifecycle. Clients no longer write sessions directly:
+-- every transition goes through a SECURITY DEFINER function, durations are computed
+-- from server timestamps and a scheduled sweep closes sessions nobody ended.
+--
+-- Limits (keep in sync with src/lib/sessions.ts):
+--   60 minutes     maximum session length
+--   2 minutes      without a heartbeat from either side counts as abandoned
+
+-- 1. Heartbeats so the sweep can tell a live call from an abandoned one
+ALTER TABLE public.sessions
+  ADD COLUMN student_last_seen_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN teacher_last_seen_at TIMESTAMP WITH TIME ZONE;
+
+-- 2. Only legal transitions, with ended_at and duration_minutes always derived server-side
+CREATE OR REPLACE FUNCTION public.enforce_session_lifecycle()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status AND NOT (
+    (OLD.status = 'pending' AND NEW.status IN ('active', 'cancelled'))
+    OR (OLD.status = 'active' AND NEW.status IN ('completed', 'cancelled'))
+  ) THEN
+    RAISE EXCEPTION 'Transición de sesión no permitida: % → %', OLD.status, NEW.status;
+  END IF;
+
+  IF NEW.status IN ('completed', 'cancelled') AND NEW.status IS DISTINCT FROM OLD.status THEN
+    NEW.ended_at := COALESCE(NEW.ended_at, now());
+
+    IF NEW.started_at IS NOT NULL THEN
+      NEW.ended_at := LEAST(NEW.ended_at, NEW.started_at + interval '60 minutes');
+      NEW.duration_minutes := FLOOR(EXTRACT(EPOCH FROM (NEW.ended_at - NEW.started_at)) / 60)::integer;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_session_lifecycle
+BEFORE UPDATE ON public.sessions
+FOR EACH ROW EXECUTE FUNCTION public.enforce_session_lifecycle();
+
+-- 3. Either participant ends an active session. Idempotent: ending a session the
+-- other side (or the sweep) already closed just returns it.
+CREATE OR REPLACE FUNCTION public.end_session(_session_id uuid)
+RETURNS public.sessions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _profile_id uuid := public.current_profile_id();
+  _session public.sessions%ROWTYPE;
+BEGIN
+  SELECT * INTO _session FROM public.sessions WHERE id = _session_id FOR UPDATE;
+
+  IF NOT FOUND OR _profile_id IS NULL OR _profile_id NOT IN (_session.student_id, _session.teacher_id) THEN
+    RAISE EXCEPTION 'Sesión no encontrada';
+  END IF;
+
+  IF _session.status <> 'active' THEN
+    RETURN _session;
+  END IF;
+
+  UPDATE public.sessions
+  SET status = 'completed', ended_at = now()
+  WHERE id = _session_id
+  RETURNING * INTO _session;
+
+  RETURN _session;
+END;
+$$;
+
+-- 4. Periodic presence ping from the Session page. Returns the current status so
+-- the client notices a session that was closed server-side.
+CREATE OR REPLACE FUNCTION public.session_heartbeat(_session_id uuid)
+RETURNS session_status
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _profile_id uuid := public.current_profile_id();
+  _status session_status;
+BEGIN
+  UPDATE public.sessions
+  SET
+    student_last_seen_at = CASE WHEN student_id = _profile_id THEN now() ELSE student_last_seen_at END,
+    teacher_last_seen_at = CASE WHEN teacher_id = _profile_id THEN now() ELSE teacher_last_seen_at END
+  WHERE id = _session_id
+    AND status = 'active'
+    AND (student_id = _profile_id OR teacher_id = _profile_id);
+
+  SELECT status INTO _status
+  FROM public.sessions
+  WHERE id = _session_id AND (student_id = _profile_id OR teacher_id = _profile_id);
+
+  RETURN _status;
+END;
+$$;
+
+-- 5. Sweep for everything clients failed to close
+CREATE OR REPLACE FUNCTION public.close_stale_sessions()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Requests nobody answered: hand the tutor back to the list
+  WITH expired AS (
+    UPDATE public.sessions
+    SET status = 'cancelled'
+    WHERE status = 'pending' AND created_at < now() - interval '30 seconds'
+    RETURNING teacher_id
+  )
+  UPDATE public.teacher_availability
+  SET is_available = true
+  WHERE teacher_id IN (SELECT teacher_id FROM expired);
+
+  -- Sessions that ran into the time limit (the trigger caps ended_at)
+  UPDATE public.sessions
+  SET status = 'completed'
+  WHERE status = 'active' AND started_at < now() - interval '60 minutes';
+
+  -- Sessions both participants left without hanging up. A call nobody ever joined
+  -- is cancelled; otherwise it ends at the last sign of life.
+  UPDATE public.sessions
+  SET
+    status = (CASE
+      WHEN student_last_seen_at IS NULL AND teacher_last_seen_at IS NULL THEN 'cancelled'
+      ELSE 'completed'
+    END)::session_status,
+    ended_at = COALESCE(GREATEST(student_last_seen_at, teacher_last_seen_at), started_at)
+  WHERE status = 'active'
+    AND COALESCE(GREATEST(student_last_seen_at, teacher_last_seen_at), started_at) < now() - interval '2 minutes';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.close_stale_sessions() FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'close-stale-sessions',
+  '* * * * *',
+  $$SELECT public.close_stale_sessions()$$
+);
+
+-- 6. Participants can no longer update sessions directly
+DROP POLICY IF EXISTS "Participants can update sessions" ON public.sessions;
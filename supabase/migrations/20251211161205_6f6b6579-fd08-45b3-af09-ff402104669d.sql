@@ -0,0 +1,40 @@
+-- Shared whiteboard. Every drawing operation is appended to a per-session log that is
+-- replayed by late joiners and by the History export; live delivery goes over Realtime broadcast.
+
+-- Helper used by the RLS policies of session-scoped tables
+CREATE OR REPLACE FUNCTION public.is_session_participant(_session_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.sessions s
+    JOIN public.profiles p ON p.id IN (s.student_id, s.teacher_id)
+    WHERE s.id = _session_id AND p.user_id = auth.uid()
+  )
+$$;
+
+CREATE TABLE public.session_whiteboard_ops (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  session_id UUID REFERENCES public.sessions(id) ON DELETE CASCADE NOT NULL,
+  author_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  op JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX session_whiteboard_ops_session_id_idx ON public.session_whiteboard_ops (session_id, id);
+
+ALTER TABLE public.session_whiteboard_ops ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view their session whiteboard" ON public.session_whiteboard_ops
+FOR SELECT USING (public.is_session_participant(session_id));
+
+-- The board is only writable while the call is running
+CREATE POLICY "Participants can draw on active sessions" ON public.session_whiteboard_ops
+FOR INSERT WITH CHECK (
+  author_id = public.current_profile_id()
+  AND public.is_session_participant(session_id)
+  AND EXISTS (SELECT 1 FROM public.sessions WHERE id = session_id AND status = 'active')
+);
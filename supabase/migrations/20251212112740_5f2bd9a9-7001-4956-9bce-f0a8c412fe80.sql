@@ -0,0 +1,26 @@
+-- In-session text chat. Messages are kept as the session transcript and are only
+-- visible to the session's student and teacher.
+CREATE TABLE public.session_messages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID REFERENCES public.sessions(id) ON DELETE CASCADE NOT NULL,
+  sender_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  body TEXT NOT NULL CHECK (char_length(body) BETWEEN 1 AND 4000),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX session_messages_session_id_idx ON public.session_messages (session_id, created_at);
+
+ALTER TABLE public.session_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view their session messages" ON public.session_messages
+FOR SELECT USING (public.is_session_participant(session_id));
+
+CREATE POLICY "Participants can send messages in active sessions" ON public.session_messages
+FOR INSERT WITH CHECK (
+  sender_id = public.current_profile_id()
+  AND public.is_session_participant(session_id)
+  AND EXISTS (SELECT 1 FROM public.sessions WHERE id = session_id AND status = 'active')
+);
+
+-- Enable realtime for session_messages
+ALTER PUBLICATION supabase_realtime ADD TABLE public.session_messages;
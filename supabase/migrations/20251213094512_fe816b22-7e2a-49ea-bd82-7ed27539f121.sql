@@ -0,0 +1,74 @@
+-- File and image sharing inside sessions. Files live in a private bucket under
+-- `<session_id>/...` and can only be read (through signed URLs) by the session's
+-- student and teacher. Limits are enforced by the bucket and mirrored in
+-- src/lib/session-files.ts.
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'session-files',
+  'session-files',
+  false,
+  10485760,
+  ARRAY['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'application/pdf']
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- Storage paths come from the client, so their folders may not be uuids at all. Policies go
+-- through this instead of ::uuid, so such paths are denied rather than raising an error.
+CREATE OR REPLACE FUNCTION public.try_uuid(_value text)
+RETURNS uuid
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN _value ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN _value::uuid
+  END
+$$;
+
+CREATE POLICY "Participants can read session files" ON storage.objects
+FOR SELECT TO authenticated USING (
+  bucket_id = 'session-files'
+  AND public.is_session_participant(public.try_uuid((storage.foldername(name))[1]))
+);
+
+CREATE POLICY "Participants can upload session files" ON storage.objects
+FOR INSERT TO authenticated WITH CHECK (
+  bucket_id = 'session-files'
+  AND public.is_session_participant(public.try_uuid((storage.foldername(name))[1]))
+  AND EXISTS (
+    SELECT 1 FROM public.sessions
+    WHERE id = public.try_uuid((storage.foldername(name))[1]) AND status = 'active'
+  )
+);
+
+-- File metadata, listed on the session's history entry
+CREATE TABLE public.session_files (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID REFERENCES public.sessions(id) ON DELETE CASCADE NOT NULL,
+  uploader_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  storage_path TEXT NOT NULL UNIQUE,
+  file_name TEXT NOT NULL,
+  mime_type TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL CHECK (size_bytes > 0 AND size_bytes <= 10485760),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (storage_path LIKE session_id::text || '/%')
+);
+
+CREATE INDEX session_files_session_id_idx ON public.session_files (session_id, created_at);
+
+ALTER TABLE public.session_files ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view their session files" ON public.session_files
+FOR SELECT USING (public.is_session_participant(session_id));
+
+CREATE POLICY "Participants can share files in active sessions" ON public.session_files
+FOR INSERT WITH CHECK (
+  uploader_id = public.current_profile_id()
+  AND public.is_session_participant(session_id)
+  AND EXISTS (SELECT 1 FROM public.sessions WHERE id = session_id AND status = 'active')
+);
+
+-- Chat messages can carry an attachment
+ALTER TABLE public.session_messages
+  ADD COLUMN attachment_id UUID REFERENCES public.session_files(id) ON DELETE SET NULL;
@@ -0,0 +1,195 @@
+-- Optional session recording. Nothing is recorded until both participants have
+-- consented on the sessions row; the requester's browser then records the call and
+-- uploads it in chunks under `<session_id>/<recording_id>/` in a private bucket.
+-- Recordings are kept for 30 days (see RECORDING_RETENTION_DAYS in src/lib/recording.ts).
+
+-- 1. Consent, stored on the session
+ALTER TABLE public.sessions
+  ADD COLUMN recording_requested_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  ADD COLUMN student_recording_consent_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN teacher_recording_consent_at TIMESTAMP WITH TIME ZONE;
+
+-- Consenting to a pending request (or asking for one) records the caller's consent.
+-- Declining or withdrawing clears it for both sides, which stops any recording.
+CREATE OR REPLACE FUNCTION public.set_recording_consent(_session_id uuid, _consent boolean)
+RETURNS public.sessions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _profile_id uuid := public.current_profile_id();
+  _session public.sessions%ROWTYPE;
+BEGIN
+  SELECT * INTO _session FROM public.sessions WHERE id = _session_id FOR UPDATE;
+
+  IF NOT FOUND OR _profile_id IS NULL OR _profile_id NOT IN (_session.student_id, _session.teacher_id) THEN
+    RAISE EXCEPTION 'Sesión no encontrada';
+  END IF;
+
+  IF _session.status <> 'active' THEN
+    RAISE EXCEPTION 'La sesión no está activa';
+  END IF;
+
+  IF _consent THEN
+    UPDATE public.sessions
+    SET
+      recording_requested_by = COALESCE(recording_requested_by, _profile_id),
+      student_recording_consent_at = CASE
+        WHEN student_id = _profile_id THEN COALESCE(student_recording_consent_at, now())
+        ELSE student_recording_consent_at
+      END,
+      teacher_recording_consent_at = CASE
+        WHEN teacher_id = _profile_id THEN COALESCE(teacher_recording_consent_at, now())
+        ELSE teacher_recording_consent_at
+      END
+    WHERE id = _session_id
+    RETURNING * INTO _session;
+  ELSE
+    UPDATE public.sessions
+    SET
+      recording_requested_by = NULL,
+      student_recording_consent_at = NULL,
+      teacher_recording_consent_at = NULL
+    WHERE id = _session_id
+    RETURNING * INTO _session;
+  END IF;
+
+  RETURN _session;
+END;
+$$;
+
+-- 2. Recordings
+CREATE TABLE public.session_recordings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID REFERENCES public.sessions(id) ON DELETE CASCADE NOT NULL,
+  recorded_by UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  mime_type TEXT NOT NULL,
+  chunk_count INTEGER NOT NULL DEFAULT 0,
+  size_bytes BIGINT NOT NULL DEFAULT 0,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  ended_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now() + interval '30 days'
+);
+
+CREATE INDEX session_recordings_session_id_idx ON public.session_recordings (session_id, started_at);
+
+ALTER TABLE public.session_recordings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view their session recordings" ON public.session_recordings
+FOR SELECT USING (public.is_session_participant(session_id));
+
+-- Consent is checked again here, so a client can't start recording on its own
+CREATE POLICY "Participants can record with consent" ON public.session_recordings
+FOR INSERT WITH CHECK (
+  recorded_by = public.current_profile_id()
+  AND EXISTS (
+    SELECT 1 FROM public.sessions s
+    WHERE s.id = session_id
+      AND s.status = 'active'
+      AND s.recording_requested_by = recorded_by
+      AND s.student_recording_consent_at IS NOT NULL
+      AND s.teacher_recording_consent_at IS NOT NULL
+  )
+);
+
+CREATE POLICY "Recorders can update their recordings" ON public.session_recordings
+FOR UPDATE USING (recorded_by = public.current_profile_id())
+WITH CHECK (recorded_by = public.current_profile_id());
+
+-- Clients only report progress: chunk_count, size_bytes and, once, ended_at. Everything
+-- else is fixed at insert, so retention can't be extended and a finished recording can't
+-- be reopened for uploads.
+CREATE OR REPLACE FUNCTION public.protect_recording_fields()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.chunk_count := 0;
+    NEW.size_bytes := 0;
+    NEW.started_at := now();
+    NEW.ended_at := NULL;
+    NEW.expires_at := now() + interval '30 days';
+  ELSE
+    NEW.session_id := OLD.session_id;
+    NEW.recorded_by := OLD.recorded_by;
+    NEW.mime_type := OLD.mime_type;
+    NEW.started_at := OLD.started_at;
+    NEW.expires_at := OLD.expires_at;
+    NEW.ended_at := COALESCE(OLD.ended_at, NEW.ended_at);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_recording_fields
+BEFORE INSERT OR UPDATE ON public.session_recordings
+FOR EACH ROW EXECUTE FUNCTION public.protect_recording_fields();
+
+CREATE POLICY "Participants can delete their session recordings" ON public.session_recordings
+FOR DELETE USING (public.is_session_participant(session_id));
+
+-- 3. Storage
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('session-recordings', 'session-recordings', false, 52428800, ARRAY['video/webm', 'video/mp4'])
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Participants can read session recordings" ON storage.objects
+FOR SELECT TO authenticated USING (
+  bucket_id = 'session-recordings'
+  AND public.is_session_participant(public.try_uuid((storage.foldername(name))[1]))
+);
+
+-- Chunks can only be appended to an unfinished recording of the uploader's, and only while
+-- the session is live and both participants still consent
+CREATE POLICY "Recorders can upload recording chunks" ON storage.objects
+FOR INSERT TO authenticated WITH CHECK (
+  bucket_id = 'session-recordings'
+  AND EXISTS (
+    SELECT 1
+    FROM public.session_recordings r
+    JOIN public.sessions s ON s.id = r.session_id
+    WHERE r.id = public.try_uuid((storage.foldername(name))[2])
+      AND r.session_id = public.try_uuid((storage.foldername(name))[1])
+      AND r.recorded_by = public.current_profile_id()
+      AND r.ended_at IS NULL
+      AND s.status = 'active'
+      AND s.recording_requested_by = r.recorded_by
+      AND s.student_recording_consent_at IS NOT NULL
+      AND s.teacher_recording_consent_at IS NOT NULL
+  )
+);
+
+CREATE POLICY "Participants can delete session recordings" ON storage.objects
+FOR DELETE TO authenticated USING (
+  bucket_id = 'session-recordings'
+  AND public.is_session_participant(public.try_uuid((storage.foldername(name))[1]))
+);
+
+-- 4. Retention. Files have to be removed through the Storage API (deleting storage.objects
+-- rows would leave them in the backend), so the daily job calls the purge-expired-recordings
+-- edge function, which removes the chunks and then the session_recordings rows.
+-- Expects `project_url` and `service_role_key` in Vault.
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'purge-expired-recordings',
+  '17 3 * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/purge-expired-recordings',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  )
+  $$
+);
@@ -0,0 +1,39 @@
+-- Call quality summary per participant and join, kept for troubleshooting dropped or poor calls.
+-- Each side upserts the row for its current join periodically during the call and once more
+-- when it ends. Rejoining after a reload starts a new row, so earlier joins are never overwritten.
+CREATE TABLE public.session_call_stats (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID REFERENCES public.sessions(id) ON DELETE CASCADE NOT NULL,
+  profile_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  samples INTEGER NOT NULL DEFAULT 0,
+  avg_rtt_ms INTEGER,
+  max_rtt_ms INTEGER,
+  avg_packet_loss NUMERIC(5, 4),
+  avg_incoming_kbps INTEGER,
+  avg_outgoing_kbps INTEGER,
+  poor_samples INTEGER NOT NULL DEFAULT 0,
+  reconnect_count INTEGER NOT NULL DEFAULT 0,
+  lowest_video_scale NUMERIC(3, 1) NOT NULL DEFAULT 1,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX session_call_stats_session_id_idx ON public.session_call_stats (session_id, profile_id, created_at);
+
+ALTER TABLE public.session_call_stats ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view their session call stats" ON public.session_call_stats
+FOR SELECT USING (public.is_session_participant(session_id));
+
+CREATE POLICY "Participants can save their own call stats" ON public.session_call_stats
+FOR INSERT WITH CHECK (
+  profile_id = public.current_profile_id()
+  AND public.is_session_participant(session_id)
+);
+
+CREATE POLICY "Participants can update their own call stats" ON public.session_call_stats
+FOR UPDATE USING (profile_id = public.current_profile_id())
+WITH CHECK (
+  profile_id = public.current_profile_id()
+  AND public.is_session_participant(session_id)
+);
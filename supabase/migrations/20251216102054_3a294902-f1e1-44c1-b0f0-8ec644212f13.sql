@@ -0,0 +1,29 @@
+-- Live caption transcript. Each participant's browser recognizes their own speech and
+-- stores every finished utterance, so the history entry can show and export the whole
+-- conversation with timestamps.
+CREATE TABLE public.session_transcript_segments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID REFERENCES public.sessions(id) ON DELETE CASCADE NOT NULL,
+  speaker_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  text TEXT NOT NULL CHECK (char_length(text) BETWEEN 1 AND 2000),
+  language TEXT NOT NULL,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  ended_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (ended_at >= started_at)
+);
+
+CREATE INDEX session_transcript_segments_session_id_idx
+  ON public.session_transcript_segments (session_id, started_at);
+
+ALTER TABLE public.session_transcript_segments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view their session transcript" ON public.session_transcript_segments
+FOR SELECT USING (public.is_session_participant(session_id));
+
+CREATE POLICY "Participants can transcribe themselves in active sessions" ON public.session_transcript_segments
+FOR INSERT WITH CHECK (
+  speaker_id = public.current_profile_id()
+  AND public.is_session_participant(session_id)
+  AND EXISTS (SELECT 1 FROM public.sessions WHERE id = session_id AND status = 'active')
+);
@@ -0,0 +1,30 @@
+-- Shared code editor for Programación sessions. Edits travel between participants as Yjs
+-- updates over Realtime; this table keeps the merged document (`state`, base64-encoded so
+-- either side can resume it after a reload) and its plain text for the history entry.
+CREATE TABLE public.session_code_documents (
+  session_id UUID REFERENCES public.sessions(id) ON DELETE CASCADE PRIMARY KEY,
+  language TEXT NOT NULL DEFAULT 'python' CHECK (language IN ('python', 'javascript', 'java', 'sql')),
+  content TEXT NOT NULL DEFAULT '' CHECK (char_length(content) <= 200000),
+  state TEXT NOT NULL,
+  updated_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.session_code_documents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view their session code" ON public.session_code_documents
+FOR SELECT USING (public.is_session_participant(session_id));
+
+CREATE POLICY "Participants can save code in active sessions" ON public.session_code_documents
+FOR INSERT WITH CHECK (
+  updated_by = public.current_profile_id()
+  AND public.is_session_participant(session_id)
+  AND EXISTS (SELECT 1 FROM public.sessions WHERE id = session_id AND status = 'active')
+);
+
+CREATE POLICY "Participants can update code in active sessions" ON public.session_code_documents
+FOR UPDATE USING (
+  public.is_session_participant(session_id)
+  AND EXISTS (SELECT 1 FROM public.sessions WHERE id = session_id AND status = 'active')
+)
+WITH CHECK (updated_by = public.current_profile_id());
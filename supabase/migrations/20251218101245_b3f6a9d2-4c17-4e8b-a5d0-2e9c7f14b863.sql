@@ -0,0 +1,58 @@
+-- Equations typed in a session's chat or whiteboard, kept as the session's equation history.
+-- The teacher can pin the important ones; pinned equations make up the summary shown in History.
+CREATE TABLE public.session_equations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID REFERENCES public.sessions(id) ON DELETE CASCADE NOT NULL,
+  author_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  latex TEXT NOT NULL CHECK (char_length(latex) BETWEEN 1 AND 1000),
+  source TEXT NOT NULL CHECK (source IN ('chat', 'whiteboard')),
+  pinned_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX session_equations_session_id_idx ON public.session_equations (session_id, created_at);
+
+ALTER TABLE public.session_equations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view their session equations" ON public.session_equations
+FOR SELECT USING (public.is_session_participant(session_id));
+
+CREATE POLICY "Participants can add equations in active sessions" ON public.session_equations
+FOR INSERT WITH CHECK (
+  author_id = public.current_profile_id()
+  AND pinned_at IS NULL
+  AND public.is_session_participant(session_id)
+  AND EXISTS (SELECT 1 FROM public.sessions WHERE id = session_id AND status = 'active')
+);
+
+-- Pinning goes through this function: only the session's teacher may pin, and nothing else
+-- about an equation can change after it was written
+CREATE OR REPLACE FUNCTION public.set_equation_pinned(_equation_id uuid, _pinned boolean)
+RETURNS public.session_equations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _profile_id uuid := public.current_profile_id();
+  _equation public.session_equations%ROWTYPE;
+BEGIN
+  SELECT e.* INTO _equation
+  FROM public.session_equations e
+  JOIN public.sessions s ON s.id = e.session_id
+  WHERE e.id = _equation_id AND s.teacher_id = _profile_id;
+
+  IF NOT FOUND OR _profile_id IS NULL THEN
+    RAISE EXCEPTION 'Ecuación no encontrada';
+  END IF;
+
+  UPDATE public.session_equations
+  SET pinned_at = CASE WHEN _pinned THEN COALESCE(pinned_at, now()) ELSE NULL END
+  WHERE id = _equation_id
+  RETURNING * INTO _equation;
+
+  RETURN _equation;
+END;
+$$;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.session_equations;
@@ -0,0 +1,189 @@
+-- Configurable session length. Each subject carries its own limit, which is copied onto the
+-- session when it is created so editing the configuration never shortens a class in progress.
+-- During the call either participant can ask for more time; the extension only counts once
+-- the other one accepts, and is recorded on the session so duration_minutes reflects it.
+-- Limits are per subject only: there are no plans in the schema yet, so a per-plan limit is
+-- left for when they exist.
+--
+-- Limits (keep in sync with src/lib/sessions.ts):
+--   60 minutes     default session length
+--   15 minutes     per extension
+--   60 minutes     total extension per session
+
+-- 1. Configuration and the per-session copy
+ALTER TABLE public.subjects
+  ADD COLUMN session_minutes INTEGER NOT NULL DEFAULT 60 CHECK (session_minutes BETWEEN 15 AND 240);
+
+ALTER TABLE public.sessions
+  ADD COLUMN max_minutes INTEGER NOT NULL DEFAULT 60 CHECK (max_minutes > 0),
+  ADD COLUMN extended_minutes INTEGER NOT NULL DEFAULT 0 CHECK (extended_minutes BETWEEN 0 AND 60),
+  ADD COLUMN extension_requested_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  ADD COLUMN extension_requested_at TIMESTAMP WITH TIME ZONE;
+
+CREATE OR REPLACE FUNCTION public.set_session_max_minutes()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  SELECT session_minutes INTO NEW.max_minutes FROM public.subjects WHERE id = NEW.subject_id;
+  NEW.max_minutes := COALESCE(NEW.max_minutes, 60);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_session_max_minutes
+BEFORE INSERT ON public.sessions
+FOR EACH ROW EXECUTE FUNCTION public.set_session_max_minutes();
+
+-- 2. The lifecycle trigger and the sweep cap sessions at their own limit instead of 60 minutes
+CREATE OR REPLACE FUNCTION public.enforce_session_lifecycle()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status AND NOT (
+    (OLD.status = 'pending' AND NEW.status IN ('active', 'cancelled'))
+    OR (OLD.status = 'active' AND NEW.status IN ('completed', 'cancelled'))
+  ) THEN
+    RAISE EXCEPTION 'Transición de sesión no permitida: % → %', OLD.status, NEW.status;
+  END IF;
+
+  IF NEW.status IN ('completed', 'cancelled') AND NEW.status IS DISTINCT FROM OLD.status THEN
+    NEW.ended_at := COALESCE(NEW.ended_at, now());
+    NEW.extension_requested_by := NULL;
+    NEW.extension_requested_at := NULL;
+
+    IF NEW.started_at IS NOT NULL THEN
+      NEW.ended_at := LEAST(
+        NEW.ended_at,
+        NEW.started_at + make_interval(mins => NEW.max_minutes + NEW.extended_minutes)
+      );
+      NEW.duration_minutes := FLOOR(EXTRACT(EPOCH FROM (NEW.ended_at - NEW.started_at)) / 60)::integer;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.close_stale_sessions()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Requests nobody answered: hand the tutor back to the list
+  WITH expired AS (
+    UPDATE public.sessions
+    SET status = 'cancelled'
+    WHERE status = 'pending' AND created_at < now() - interval '30 seconds'
+    RETURNING teacher_id
+  )
+  UPDATE public.teacher_availability
+  SET is_available = true
+  WHERE teacher_id IN (SELECT teacher_id FROM expired);
+
+  -- Sessions that ran into their time limit (the trigger caps ended_at)
+  UPDATE public.sessions
+  SET status = 'completed'
+  WHERE status = 'active'
+    AND started_at < now() - make_interval(mins => max_minutes + extended_minutes);
+
+  -- Sessions both participants left without hanging up. A call nobody ever joined
+  -- is cancelled; otherwise it ends at the last sign of life.
+  UPDATE public.sessions
+  SET
+    status = (CASE
+      WHEN student_last_seen_at IS NULL AND teacher_last_seen_at IS NULL THEN 'cancelled'
+      ELSE 'completed'
+    END)::session_status,
+    ended_at = COALESCE(GREATEST(student_last_seen_at, teacher_last_seen_at), started_at)
+  WHERE status = 'active'
+    AND COALESCE(GREATEST(student_last_seen_at, teacher_last_seen_at), started_at) < now() - interval '2 minutes';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.close_stale_sessions() FROM PUBLIC, anon, authenticated;
+
+-- 3. Extension requests. Failures are raised with a stable error code as the message:
+--   EXTENSION_PENDING    a request is already waiting for an answer
+--   EXTENSION_LIMIT      the session can't be extended any further
+--   SESSION_OVER         the session already reached its limit or was closed
+CREATE OR REPLACE FUNCTION public.request_session_extension(_session_id uuid)
+RETURNS public.sessions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _profile_id uuid := public.current_profile_id();
+  _session public.sessions%ROWTYPE;
+BEGIN
+  SELECT * INTO _session FROM public.sessions WHERE id = _session_id FOR UPDATE;
+
+  IF NOT FOUND OR _profile_id IS NULL OR _profile_id NOT IN (_session.student_id, _session.teacher_id) THEN
+    RAISE EXCEPTION 'Sesión no encontrada';
+  END IF;
+
+  IF _session.status <> 'active'
+    OR _session.started_at + make_interval(mins => _session.max_minutes + _session.extended_minutes) <= now() THEN
+    RAISE EXCEPTION 'SESSION_OVER';
+  END IF;
+
+  IF _session.extension_requested_by IS NOT NULL THEN
+    RAISE EXCEPTION 'EXTENSION_PENDING';
+  END IF;
+
+  IF _session.extended_minutes + 15 > 60 THEN
+    RAISE EXCEPTION 'EXTENSION_LIMIT';
+  END IF;
+
+  UPDATE public.sessions
+  SET extension_requested_by = _profile_id, extension_requested_at = now()
+  WHERE id = _session_id
+  RETURNING * INTO _session;
+
+  RETURN _session;
+END;
+$$;
+
+-- The other participant accepts or declines; the requester can only withdraw (_accept = false).
+-- Answering a request that is no longer pending just returns the session.
+CREATE OR REPLACE FUNCTION public.respond_session_extension(_session_id uuid, _accept boolean)
+RETURNS public.sessions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _profile_id uuid := public.current_profile_id();
+  _session public.sessions%ROWTYPE;
+BEGIN
+  SELECT * INTO _session FROM public.sessions WHERE id = _session_id FOR UPDATE;
+
+  IF NOT FOUND OR _profile_id IS NULL OR _profile_id NOT IN (_session.student_id, _session.teacher_id) THEN
+    RAISE EXCEPTION 'Sesión no encontrada';
+  END IF;
+
+  IF _session.status <> 'active' OR _session.extension_requested_by IS NULL THEN
+    RETURN _session;
+  END IF;
+
+  IF _accept AND _session.extension_requested_by = _profile_id THEN
+    RAISE EXCEPTION 'Solo el otro participante puede aceptar la extensión';
+  END IF;
+
+  UPDATE public.sessions
+  SET
+    extended_minutes = CASE WHEN _accept THEN LEAST(extended_minutes + 15, 60) ELSE extended_minutes END,
+    extension_requested_by = NULL,
+    extension_requested_at = NULL
+  WHERE id = _session_id
+  RETURNING * INTO _session;
+
+  RETURN _session;
+END;
+$$;
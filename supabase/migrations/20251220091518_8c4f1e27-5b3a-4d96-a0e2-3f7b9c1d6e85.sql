@@ -0,0 +1,403 @@
+-- Scheduled bookings. Teachers publish weekly windows in their own timezone and students book
+-- a slot in advance. A booking is a 'pending' session with a scheduled_at; it is not a live
+-- request, so the 30-second request timeout doesn't apply to it. Either participant starts it
+-- from scheduled_at on, and the sweep cancels bookings nobody started before their slot ended.
+--
+-- Limits (keep in sync with src/lib/schedule.ts):
+--   30 days        how far ahead a slot can be booked
+--
+-- Booking failures are raised with a stable error code as the message:
+--   NOT_A_STUDENT        the caller has no student profile
+--   SUBJECT_NOT_TAUGHT   the teacher has no specialization covering the subject/topic
+--   SLOT_PAST            the slot already started
+--   SLOT_UNAVAILABLE     the slot is outside the teacher's weekly schedule or booking window
+--   SLOT_TAKEN           the teacher already has a session at that time
+--   STUDENT_CONFLICT     the student already has a session at that time
+
+-- 1. Weekly schedule. weekday follows EXTRACT(DOW): 0 = Sunday
+CREATE TABLE public.teacher_schedule (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  teacher_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  weekday SMALLINT NOT NULL CHECK (weekday BETWEEN 0 AND 6),
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  timezone TEXT NOT NULL CHECK (char_length(timezone) BETWEEN 1 AND 64),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (start_time < end_time)
+);
+
+CREATE INDEX teacher_schedule_teacher_id_idx ON public.teacher_schedule (teacher_id, weekday);
+
+ALTER TABLE public.teacher_schedule ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teacher schedules are viewable by authenticated users" ON public.teacher_schedule
+FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Teachers can add to their schedule" ON public.teacher_schedule FOR INSERT WITH CHECK (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = teacher_id AND user_id = auth.uid() AND role = 'teacher')
+);
+
+CREATE POLICY "Teachers can delete from their schedule" ON public.teacher_schedule FOR DELETE USING (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = teacher_id AND user_id = auth.uid() AND role = 'teacher')
+);
+
+-- 2. Bookings
+ALTER TABLE public.sessions ADD COLUMN scheduled_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX sessions_scheduled_at_idx ON public.sessions (scheduled_at) WHERE status = 'pending';
+
+-- Slots already taken in a teacher's calendar, so students can see them without reading the sessions
+CREATE OR REPLACE FUNCTION public.get_teacher_busy_slots(_teacher_id uuid, _from timestamptz, _to timestamptz)
+RETURNS TABLE (starts_at timestamptz, ends_at timestamptz)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    COALESCE(started_at, scheduled_at),
+    COALESCE(started_at, scheduled_at) + make_interval(mins => max_minutes + extended_minutes)
+  FROM public.sessions
+  WHERE teacher_id = _teacher_id
+    AND (status = 'active' OR (status = 'pending' AND scheduled_at IS NOT NULL))
+    AND COALESCE(started_at, scheduled_at) < _to
+    AND COALESCE(started_at, scheduled_at) + make_interval(mins => max_minutes + extended_minutes) > _from
+$$;
+
+CREATE OR REPLACE FUNCTION public.book_session(
+  _teacher_id uuid,
+  _subject_id uuid,
+  _topic_id uuid,
+  _scheduled_at timestamptz
+)
+RETURNS public.sessions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _student_id uuid;
+  _minutes integer;
+  _slot tstzrange;
+  _session public.sessions%ROWTYPE;
+BEGIN
+  -- Concurrent bookings of the same student queue up here
+  SELECT id INTO _student_id
+  FROM public.profiles
+  WHERE user_id = auth.uid() AND role = 'student'
+  FOR UPDATE;
+
+  IF _student_id IS NULL THEN
+    RAISE EXCEPTION 'NOT_A_STUDENT';
+  END IF;
+
+  IF _scheduled_at <= now() THEN
+    RAISE EXCEPTION 'SLOT_PAST';
+  END IF;
+
+  IF _scheduled_at > now() + interval '30 days' THEN
+    RAISE EXCEPTION 'SLOT_UNAVAILABLE';
+  END IF;
+
+  -- ...and concurrent bookings of the same teacher here
+  PERFORM 1 FROM public.profiles WHERE id = _teacher_id AND role = 'teacher' FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'SLOT_UNAVAILABLE';
+  END IF;
+
+  SELECT COALESCE(session_minutes, 60) INTO _minutes FROM public.subjects WHERE id = _subject_id;
+  IF _minutes IS NULL THEN
+    RAISE EXCEPTION 'SLOT_UNAVAILABLE';
+  END IF;
+
+  -- A topic of the subject, covered by a specialization in that topic or in the whole subject.
+  -- "Any topic" needs a whole-subject specialization.
+  IF (_topic_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.topics WHERE id = _topic_id AND subject_id = _subject_id
+  )) OR NOT EXISTS (
+    SELECT 1 FROM public.teacher_subjects
+    WHERE teacher_id = _teacher_id
+      AND subject_id = _subject_id
+      AND (topic_id IS NULL OR topic_id = _topic_id)
+  ) THEN
+    RAISE EXCEPTION 'SUBJECT_NOT_TAUGHT';
+  END IF;
+
+  -- The whole slot has to fit in one of the teacher's windows, in the teacher's timezone
+  IF NOT EXISTS (
+    SELECT 1 FROM public.teacher_schedule s
+    WHERE s.teacher_id = _teacher_id
+      AND EXTRACT(DOW FROM _scheduled_at AT TIME ZONE s.timezone) = s.weekday
+      AND (_scheduled_at AT TIME ZONE s.timezone)::time >= s.start_time
+      AND (_scheduled_at AT TIME ZONE s.timezone) + make_interval(mins => _minutes)
+        <= (_scheduled_at AT TIME ZONE s.timezone)::date + s.end_time
+  ) THEN
+    RAISE EXCEPTION 'SLOT_UNAVAILABLE';
+  END IF;
+
+  _slot := tstzrange(_scheduled_at, _scheduled_at + make_interval(mins => _minutes));
+
+  IF EXISTS (
+    SELECT 1 FROM public.get_teacher_busy_slots(_teacher_id, lower(_slot), upper(_slot))
+  ) THEN
+    RAISE EXCEPTION 'SLOT_TAKEN';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.sessions
+    WHERE student_id = _student_id
+      AND (status = 'active' OR (status = 'pending' AND scheduled_at IS NOT NULL))
+      AND tstzrange(
+        COALESCE(started_at, scheduled_at),
+        COALESCE(started_at, scheduled_at) + make_interval(mins => max_minutes + extended_minutes)
+      ) && _slot
+  ) THEN
+    RAISE EXCEPTION 'STUDENT_CONFLICT';
+  END IF;
+
+  INSERT INTO public.sessions (student_id, teacher_id, subject_id, topic_id, status, scheduled_at)
+  VALUES (_student_id, _teacher_id, _subject_id, _topic_id, 'pending', _scheduled_at)
+  RETURNING * INTO _session;
+
+  RETURN _session;
+END;
+$$;
+
+-- Either participant starts a booking once its time has come. Starting one the other side
+-- already started just returns it. Failures:
+--   BOOKING_NOT_STARTED  scheduled_at hasn't been reached yet
+--   SESSION_OVER         the slot already ended or the booking was cancelled
+--   TEACHER_BUSY / STUDENT_BUSY  a participant is still in another session
+CREATE OR REPLACE FUNCTION public.start_scheduled_session(_session_id uuid)
+RETURNS public.sessions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _profile_id uuid := public.current_profile_id();
+  _session public.sessions%ROWTYPE;
+BEGIN
+  SELECT * INTO _session FROM public.sessions WHERE id = _session_id FOR UPDATE;
+
+  IF NOT FOUND OR _profile_id IS NULL OR _profile_id NOT IN (_session.student_id, _session.teacher_id)
+    OR _session.scheduled_at IS NULL THEN
+    RAISE EXCEPTION 'Sesión no encontrada';
+  END IF;
+
+  IF _session.status <> 'pending' THEN
+    IF _session.status = 'active' THEN
+      RETURN _session;
+    END IF;
+    RAISE EXCEPTION 'SESSION_OVER';
+  END IF;
+
+  IF _session.scheduled_at > now() THEN
+    RAISE EXCEPTION 'BOOKING_NOT_STARTED';
+  END IF;
+
+  -- The sweep cancels it; raising here would roll back anything we wrote
+  IF _session.scheduled_at + make_interval(mins => _session.max_minutes) <= now() THEN
+    RAISE EXCEPTION 'SESSION_OVER';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.sessions
+    WHERE teacher_id = _session.teacher_id AND status = 'active'
+  ) THEN
+    RAISE EXCEPTION 'TEACHER_BUSY';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.sessions
+    WHERE student_id = _session.student_id AND status = 'active'
+  ) THEN
+    RAISE EXCEPTION 'STUDENT_BUSY';
+  END IF;
+
+  UPDATE public.sessions
+  SET status = 'active', started_at = now()
+  WHERE id = _session_id
+  RETURNING * INTO _session;
+
+  -- Like accepting a request: the teacher is in a call and off the list
+  DELETE FROM public.teacher_availability WHERE teacher_id = _session.teacher_id;
+
+  RETURN _session;
+END;
+$$;
+
+-- 3. Live requests ignore bookings: a future booking doesn't make anyone busy, can't be
+-- accepted as a request and doesn't expire after 30 seconds
+CREATE OR REPLACE FUNCTION public.claim_teacher_availability(_availability_id uuid)
+RETURNS public.sessions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _student_id uuid;
+  _availability public.teacher_availability%ROWTYPE;
+  _session public.sessions%ROWTYPE;
+BEGIN
+  SELECT id INTO _student_id
+  FROM public.profiles
+  WHERE user_id = auth.uid() AND role = 'student';
+
+  IF _student_id IS NULL THEN
+    RAISE EXCEPTION 'NOT_A_STUDENT';
+  END IF;
+
+  -- Concurrent claims queue up here; the loser sees is_available = false
+  SELECT * INTO _availability
+  FROM public.teacher_availability
+  WHERE id = _availability_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT COALESCE(_availability.is_available, false) THEN
+    RAISE EXCEPTION 'TEACHER_UNAVAILABLE';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.sessions
+    WHERE teacher_id = _availability.teacher_id
+      AND (status = 'active' OR (status = 'pending' AND scheduled_at IS NULL))
+  ) THEN
+    RAISE EXCEPTION 'TEACHER_BUSY';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.sessions
+    WHERE student_id = _student_id
+      AND (status = 'active' OR (status = 'pending' AND scheduled_at IS NULL))
+  ) THEN
+    RAISE EXCEPTION 'STUDENT_BUSY';
+  END IF;
+
+  INSERT INTO public.sessions (student_id, teacher_id, subject_id, topic_id, status)
+  VALUES (_student_id, _availability.teacher_id, _availability.subject_id, _availability.topic_id, 'pending')
+  RETURNING * INTO _session;
+
+  UPDATE public.teacher_availability
+  SET is_available = false
+  WHERE id = _availability_id;
+
+  RETURN _session;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.accept_session_request(_session_id uuid)
+RETURNS session_status
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _session public.sessions%ROWTYPE;
+BEGIN
+  SELECT * INTO _session FROM public.sessions WHERE id = _session_id FOR UPDATE;
+
+  IF NOT FOUND OR _session.teacher_id IS DISTINCT FROM public.current_profile_id()
+    OR _session.scheduled_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Sesión no encontrada';
+  END IF;
+
+  IF _session.status <> 'pending' THEN
+    RETURN _session.status;
+  END IF;
+
+  IF _session.created_at < now() - interval '30 seconds' THEN
+    UPDATE public.sessions
+    SET status = 'cancelled', ended_at = now()
+    WHERE id = _session_id;
+
+    UPDATE public.teacher_availability
+    SET is_available = true
+    WHERE teacher_id = _session.teacher_id;
+
+    RETURN 'cancelled';
+  END IF;
+
+  UPDATE public.sessions
+  SET status = 'active', started_at = now()
+  WHERE id = _session_id;
+
+  DELETE FROM public.teacher_availability WHERE teacher_id = _session.teacher_id;
+
+  RETURN 'active';
+END;
+$$;
+
+-- Cancelling a booking doesn't touch the tutor's live availability
+CREATE OR REPLACE FUNCTION public.cancel_session_request(_session_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _profile_id uuid := public.current_profile_id();
+  _teacher_id uuid;
+  _scheduled_at timestamptz;
+BEGIN
+  UPDATE public.sessions
+  SET status = 'cancelled', ended_at = now()
+  WHERE id = _session_id
+    AND status = 'pending'
+    AND (student_id = _profile_id OR teacher_id = _profile_id)
+  RETURNING teacher_id, scheduled_at INTO _teacher_id, _scheduled_at;
+
+  IF _teacher_id IS NOT NULL AND _scheduled_at IS NULL THEN
+    UPDATE public.teacher_availability
+    SET is_available = true
+    WHERE teacher_id = _teacher_id;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.close_stale_sessions()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Requests nobody answered: hand the tutor back to the list
+  WITH expired AS (
+    UPDATE public.sessions
+    SET status = 'cancelled'
+    WHERE status = 'pending' AND scheduled_at IS NULL AND created_at < now() - interval '30 seconds'
+    RETURNING teacher_id
+  )
+  UPDATE public.teacher_availability
+  SET is_available = true
+  WHERE teacher_id IN (SELECT teacher_id FROM expired);
+
+  -- Bookings nobody started before their slot ended
+  UPDATE public.sessions
+  SET status = 'cancelled'
+  WHERE status = 'pending'
+    AND scheduled_at IS NOT NULL
+    AND scheduled_at < now() - make_interval(mins => max_minutes);
+
+  -- Sessions that ran into their time limit (the trigger caps ended_at)
+  UPDATE public.sessions
+  SET status = 'completed'
+  WHERE status = 'active'
+    AND started_at < now() - make_interval(mins => max_minutes + extended_minutes);
+
+  -- Sessions both participants left without hanging up. A call nobody ever joined
+  -- is cancelled; otherwise it ends at the last sign of life.
+  UPDATE public.sessions
+  SET
+    status = (CASE
+      WHEN student_last_seen_at IS NULL AND teacher_last_seen_at IS NULL THEN 'cancelled'
+      ELSE 'completed'
+    END)::session_status,
+    ended_at = COALESCE(GREATEST(student_last_seen_at, teacher_last_seen_at), started_at)
+  WHERE status = 'active'
+    AND COALESCE(GREATEST(student_last_seen_at, teacher_last_seen_at), started_at) < now() - interval '2 minutes';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.close_stale_sessions() FROM PUBLIC, anon, authenticated;
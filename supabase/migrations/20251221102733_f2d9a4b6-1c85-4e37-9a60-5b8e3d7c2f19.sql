@@ -0,0 +1,69 @@
+-- Calendar subscription feed. Each profile gets a secret token; the calendar-feed edge function
+-- serves that profile's sessions as iCalendar to anyone holding the URL, which is how calendar
+-- apps subscribe (they can't sign in). Rotating the token invalidates every existing URL.
+CREATE TABLE public.calendar_feed_tokens (
+  profile_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE PRIMARY KEY,
+  token TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- No policies: users go through the functions below and the edge function uses the service role
+ALTER TABLE public.calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Two v4 UUIDs without dashes: 64 hex characters, 244 random bits
+CREATE OR REPLACE FUNCTION public.generate_calendar_feed_token()
+RETURNS text
+LANGUAGE sql
+VOLATILE
+SET search_path = public
+AS $$
+  SELECT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '')
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.generate_calendar_feed_token() FROM PUBLIC, anon, authenticated;
+
+-- The caller's token, created on first use
+CREATE OR REPLACE FUNCTION public.get_calendar_feed_token()
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _profile_id uuid := public.current_profile_id();
+  _token text;
+BEGIN
+  IF _profile_id IS NULL THEN
+    RAISE EXCEPTION 'Perfil no encontrado';
+  END IF;
+
+  INSERT INTO public.calendar_feed_tokens (profile_id, token)
+  VALUES (_profile_id, public.generate_calendar_feed_token())
+  ON CONFLICT (profile_id) DO NOTHING;
+
+  SELECT token INTO _token FROM public.calendar_feed_tokens WHERE profile_id = _profile_id;
+  RETURN _token;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.rotate_calendar_feed_token()
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _profile_id uuid := public.current_profile_id();
+  _token text := public.generate_calendar_feed_token();
+BEGIN
+  IF _profile_id IS NULL THEN
+    RAISE EXCEPTION 'Perfil no encontrado';
+  END IF;
+
+  INSERT INTO public.calendar_feed_tokens (profile_id, token)
+  VALUES (_profile_id, _token)
+  ON CONFLICT (profile_id) DO UPDATE SET token = EXCLUDED.token, created_at = now();
+
+  RETURN _token;
+END;
+$$;
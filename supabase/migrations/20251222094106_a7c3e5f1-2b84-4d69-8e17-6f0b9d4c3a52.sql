@@ -0,0 +1,77 @@
+-- Availability for several subjects and topics at once. A teacher going online now gets one
+-- teacher_availability row per advertised subject/topic (topic_id NULL = any topic of the
+-- subject) instead of a single row. The rows share is_available: claiming any of them takes
+-- the teacher off the list, and accepting, cancelling or expiring a request already acts on
+-- every row of the teacher.
+
+-- 1. One row per (teacher, subject, topic)
+ALTER TABLE public.teacher_availability DROP CONSTRAINT teacher_availability_teacher_id_key;
+
+ALTER TABLE public.teacher_availability
+  ADD CONSTRAINT teacher_availability_teacher_subject_topic_key
+  UNIQUE NULLS NOT DISTINCT (teacher_id, subject_id, topic_id);
+
+-- 2. Claims lock every row of the teacher, so two students claiming the same teacher through
+-- different subjects still queue up
+CREATE OR REPLACE FUNCTION public.claim_teacher_availability(_availability_id uuid)
+RETURNS public.sessions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _student_id uuid;
+  _teacher_id uuid;
+  _availability public.teacher_availability%ROWTYPE;
+  _session public.sessions%ROWTYPE;
+BEGIN
+  SELECT id INTO _student_id
+  FROM public.profiles
+  WHERE user_id = auth.uid() AND role = 'student';
+
+  IF _student_id IS NULL THEN
+    RAISE EXCEPTION 'NOT_A_STUDENT';
+  END IF;
+
+  SELECT teacher_id INTO _teacher_id FROM public.teacher_availability WHERE id = _availability_id;
+
+  IF _teacher_id IS NULL THEN
+    RAISE EXCEPTION 'TEACHER_UNAVAILABLE';
+  END IF;
+
+  -- Concurrent claims queue up here; the loser sees is_available = false
+  PERFORM 1 FROM public.teacher_availability WHERE teacher_id = _teacher_id FOR UPDATE;
+
+  SELECT * INTO _availability FROM public.teacher_availability WHERE id = _availability_id;
+
+  IF NOT FOUND OR NOT COALESCE(_availability.is_available, false) THEN
+    RAISE EXCEPTION 'TEACHER_UNAVAILABLE';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.sessions
+    WHERE teacher_id = _teacher_id
+      AND (status = 'active' OR (status = 'pending' AND scheduled_at IS NULL))
+  ) THEN
+    RAISE EXCEPTION 'TEACHER_BUSY';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.sessions
+    WHERE student_id = _student_id
+      AND (status = 'active' OR (status = 'pending' AND scheduled_at IS NULL))
+  ) THEN
+    RAISE EXCEPTION 'STUDENT_BUSY';
+  END IF;
+
+  INSERT INTO public.sessions (student_id, teacher_id, subject_id, topic_id, status)
+  VALUES (_student_id, _teacher_id, _availability.subject_id, _availability.topic_id, 'pending')
+  RETURNING * INTO _session;
+
+  UPDATE public.teacher_availability
+  SET is_available = false
+  WHERE teacher_id = _teacher_id;
+
+  RETURN _session;
+END;
+$$;
@@ -0,0 +1,74 @@
+-- Teacher specializations. teacher_subjects declares what a teacher teaches (topic_id NULL =
+-- every topic of the subject) and now how experienced they are at it. Availability is limited
+-- to declared specializations, so the subject and topic students see on a teacher card is one
+-- the teacher actually claims to teach.
+
+-- 1. Experience level
+CREATE TYPE public.experience_level AS ENUM ('beginner', 'intermediate', 'advanced', 'expert');
+
+ALTER TABLE public.teacher_subjects
+  ADD COLUMN experience_level public.experience_level NOT NULL DEFAULT 'intermediate';
+
+ALTER TABLE public.teacher_subjects DROP CONSTRAINT teacher_subjects_teacher_id_subject_id_topic_id_key;
+
+ALTER TABLE public.teacher_subjects
+  ADD CONSTRAINT teacher_subjects_teacher_subject_topic_key
+  UNIQUE NULLS NOT DISTINCT (teacher_id, subject_id, topic_id);
+
+CREATE POLICY "Teachers can update their subjects" ON public.teacher_subjects FOR UPDATE USING (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = teacher_id AND user_id = auth.uid() AND role = 'teacher')
+);
+
+-- Teachers already online keep what they were advertising
+INSERT INTO public.teacher_subjects (teacher_id, subject_id, topic_id)
+SELECT DISTINCT teacher_id, subject_id, topic_id FROM public.teacher_availability
+ON CONFLICT DO NOTHING;
+
+-- 2. A subject/topic is covered by a specialization in that topic or in the whole subject.
+-- "Any topic" availability needs a whole-subject specialization.
+CREATE OR REPLACE FUNCTION public.is_declared_specialization(_teacher_id uuid, _subject_id uuid, _topic_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.teacher_subjects
+    WHERE teacher_id = _teacher_id
+      AND subject_id = _subject_id
+      AND (topic_id IS NULL OR topic_id = _topic_id)
+  )
+$$;
+
+DROP POLICY "Teachers can manage their availability" ON public.teacher_availability;
+CREATE POLICY "Teachers can manage their availability" ON public.teacher_availability FOR INSERT WITH CHECK (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = teacher_id AND user_id = auth.uid() AND role = 'teacher')
+  AND public.is_declared_specialization(teacher_id, subject_id, topic_id)
+);
+
+DROP POLICY "Teachers can update their availability" ON public.teacher_availability;
+CREATE POLICY "Teachers can update their availability" ON public.teacher_availability FOR UPDATE USING (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = teacher_id AND user_id = auth.uid() AND role = 'teacher')
+) WITH CHECK (
+  public.is_declared_specialization(teacher_id, subject_id, topic_id)
+);
+
+-- 3. Dropping a specialization takes down whatever availability it was covering
+CREATE OR REPLACE FUNCTION public.remove_uncovered_availability()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.teacher_availability a
+  WHERE a.teacher_id = OLD.teacher_id
+    AND NOT public.is_declared_specialization(a.teacher_id, a.subject_id, a.topic_id);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER remove_uncovered_availability
+AFTER DELETE OR UPDATE OF subject_id, topic_id ON public.teacher_subjects
+FOR EACH ROW EXECUTE FUNCTION public.remove_uncovered_availability();
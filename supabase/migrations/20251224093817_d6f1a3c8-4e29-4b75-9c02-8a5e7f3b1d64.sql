@@ -0,0 +1,134 @@
+-- Teacher presence. A teacher who closes the tab while online used to leave their
+-- teacher_availability rows behind for good. The dashboard now pings while the teacher is
+-- online; availability nobody pinged lately can't be claimed and a scheduled job removes it.
+-- Clients see who is really there through the `teacher-presence` Realtime channel.
+--
+-- The heartbeat lives on profiles rather than teacher_availability so that pings don't
+-- reach the dashboards listening to teacher_availability changes.
+--
+-- Limits (keep in sync with src/lib/availability.ts):
+--   5 minutes      without a heartbeat counts as gone. Browsers run timers in background
+--                  tabs about once a minute, so a teacher waiting in another tab must not
+--                  drop out after a single late ping; presence covers quick departures.
+
+-- 1. Heartbeat
+ALTER TABLE public.profiles ADD COLUMN last_seen_at TIMESTAMP WITH TIME ZONE;
+
+-- Availability younger than the limit counts as seen: the first ping may not be in yet
+CREATE OR REPLACE FUNCTION public.is_availability_stale(_teacher_id uuid, _started_at timestamptz)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT GREATEST(
+    _started_at,
+    (SELECT last_seen_at FROM public.profiles WHERE id = _teacher_id)
+  ) < now() - interval '5 minutes'
+$$;
+
+-- Returns whether the teacher is still listed, so the dashboard notices availability
+-- purged while the tab was asleep
+CREATE OR REPLACE FUNCTION public.availability_heartbeat()
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _profile_id uuid := public.current_profile_id();
+BEGIN
+  UPDATE public.profiles
+  SET last_seen_at = now()
+  WHERE id = _profile_id;
+
+  RETURN EXISTS (SELECT 1 FROM public.teacher_availability WHERE teacher_id = _profile_id);
+END;
+$$;
+
+-- 2. Stale rows can't be claimed, even before the sweep gets to them
+CREATE OR REPLACE FUNCTION public.claim_teacher_availability(_availability_id uuid)
+RETURNS public.sessions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _student_id uuid;
+  _teacher_id uuid;
+  _availability public.teacher_availability%ROWTYPE;
+  _session public.sessions%ROWTYPE;
+BEGIN
+  SELECT id INTO _student_id
+  FROM public.profiles
+  WHERE user_id = auth.uid() AND role = 'student';
+
+  IF _student_id IS NULL THEN
+    RAISE EXCEPTION 'NOT_A_STUDENT';
+  END IF;
+
+  SELECT teacher_id INTO _teacher_id FROM public.teacher_availability WHERE id = _availability_id;
+
+  IF _teacher_id IS NULL THEN
+    RAISE EXCEPTION 'TEACHER_UNAVAILABLE';
+  END IF;
+
+  -- Concurrent claims queue up here; the loser sees is_available = false
+  PERFORM 1 FROM public.teacher_availability WHERE teacher_id = _teacher_id FOR UPDATE;
+
+  SELECT * INTO _availability FROM public.teacher_availability WHERE id = _availability_id;
+
+  IF NOT FOUND OR NOT COALESCE(_availability.is_available, false)
+    OR public.is_availability_stale(_teacher_id, _availability.started_at) THEN
+    RAISE EXCEPTION 'TEACHER_UNAVAILABLE';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.sessions
+    WHERE teacher_id = _teacher_id
+      AND (status = 'active' OR (status = 'pending' AND scheduled_at IS NULL))
+  ) THEN
+    RAISE EXCEPTION 'TEACHER_BUSY';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.sessions
+    WHERE student_id = _student_id
+      AND (status = 'active' OR (status = 'pending' AND scheduled_at IS NULL))
+  ) THEN
+    RAISE EXCEPTION 'STUDENT_BUSY';
+  END IF;
+
+  INSERT INTO public.sessions (student_id, teacher_id, subject_id, topic_id, status)
+  VALUES (_student_id, _teacher_id, _availability.subject_id, _availability.topic_id, 'pending')
+  RETURNING * INTO _session;
+
+  UPDATE public.teacher_availability
+  SET is_available = false
+  WHERE teacher_id = _teacher_id;
+
+  RETURN _session;
+END;
+$$;
+
+-- 3. Sweep for teachers who left without going offline
+CREATE OR REPLACE FUNCTION public.purge_stale_availability()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.teacher_availability
+  WHERE public.is_availability_stale(teacher_id, started_at);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.purge_stale_availability() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'purge-stale-availability',
+  '* * * * *',
+  $$SELECT public.purge_stale_availability()$$
+);
@@ -0,0 +1,170 @@
+-- Waitlist. A student who finds no tutor for a subject (optionally a topic) can queue for
+-- it. As soon as a matching teacher becomes available, the longest-waiting student gets a
+-- session request sent on their behalf, exactly as if they had clicked "Conectar". Teachers
+-- see how many students are waiting per subject/topic.
+--
+-- Limits (keep in sync with src/lib/waitlist.ts):
+--   5 minutes      without a heartbeat from the waiting student drops them from the queue.
+--                  Students often wait in a background tab, where timers may only run
+--                  about once a minute.
+
+-- 1. Queue, one entry per student
+CREATE TABLE public.waitlist_entries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  student_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  subject_id UUID REFERENCES public.subjects(id) ON DELETE CASCADE NOT NULL,
+  topic_id UUID REFERENCES public.topics(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX waitlist_entries_subject_created_at_idx ON public.waitlist_entries (subject_id, created_at);
+
+ALTER TABLE public.waitlist_entries ENABLE ROW LEVEL SECURITY;
+
+-- Other students' entries stay private; positions and counts go through the functions below
+CREATE POLICY "Students can view their waitlist entry" ON public.waitlist_entries FOR SELECT USING (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = student_id AND user_id = auth.uid())
+);
+CREATE POLICY "Students can join the waitlist" ON public.waitlist_entries FOR INSERT WITH CHECK (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = student_id AND user_id = auth.uid() AND role = 'student')
+);
+CREATE POLICY "Students can leave the waitlist" ON public.waitlist_entries FOR DELETE USING (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = student_id AND user_id = auth.uid())
+);
+
+-- An entry for a whole subject takes any topic of it; an offer for a whole subject serves
+-- any topic. Must match offerMatches() in src/lib/availability.ts.
+CREATE OR REPLACE FUNCTION public.waitlist_entry_matches(_entry public.waitlist_entries, _subject_id uuid, _topic_id uuid)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT _entry.subject_id = _subject_id
+    AND (_entry.topic_id IS NULL OR _topic_id IS NULL OR _entry.topic_id = _topic_id)
+$$;
+
+-- 2. The waiting student's periodic ping. Returns their position among the students who
+-- would get the same teacher first, or NULL once they left the queue (matched or expired).
+CREATE OR REPLACE FUNCTION public.get_waitlist_position()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _profile_id uuid := public.current_profile_id();
+  _entry public.waitlist_entries%ROWTYPE;
+BEGIN
+  UPDATE public.waitlist_entries
+  SET last_seen_at = now()
+  WHERE student_id = _profile_id
+  RETURNING * INTO _entry;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN (
+    SELECT count(*)
+    FROM public.waitlist_entries w
+    WHERE public.waitlist_entry_matches(w, _entry.subject_id, _entry.topic_id)
+      AND w.created_at <= _entry.created_at
+      AND w.last_seen_at >= now() - interval '5 minutes'
+  );
+END;
+$$;
+
+-- Demand per subject/topic, for teachers
+CREATE OR REPLACE FUNCTION public.get_waitlist_counts()
+RETURNS TABLE (subject_id uuid, topic_id uuid, waiting integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT subject_id, topic_id, count(*)::integer
+  FROM public.waitlist_entries
+  WHERE last_seen_at >= now() - interval '5 minutes'
+  GROUP BY subject_id, topic_id
+$$;
+
+-- 3. A teacher becoming available (going online, or back after a request that fell through)
+-- is offered to the first matching student who is still around and not in another session
+CREATE OR REPLACE FUNCTION public.offer_availability_to_waitlist()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _entry public.waitlist_entries%ROWTYPE;
+BEGIN
+  -- A row inserted in the same statement may already have been offered
+  PERFORM 1 FROM public.teacher_availability WHERE id = NEW.id AND is_available;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF public.is_availability_stale(NEW.teacher_id, NEW.started_at) OR EXISTS (
+    SELECT 1 FROM public.sessions
+    WHERE teacher_id = NEW.teacher_id
+      AND (status = 'active' OR (status = 'pending' AND scheduled_at IS NULL))
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT w.* INTO _entry
+  FROM public.waitlist_entries w
+  WHERE public.waitlist_entry_matches(w, NEW.subject_id, NEW.topic_id)
+    AND w.last_seen_at >= now() - interval '5 minutes'
+    AND NOT EXISTS (
+      SELECT 1 FROM public.sessions s
+      WHERE s.student_id = w.student_id
+        AND (s.status = 'active' OR (s.status = 'pending' AND s.scheduled_at IS NULL))
+    )
+  ORDER BY w.created_at
+  LIMIT 1
+  FOR UPDATE SKIP LOCKED;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.sessions (student_id, teacher_id, subject_id, topic_id, status)
+  VALUES (_entry.student_id, NEW.teacher_id, NEW.subject_id, COALESCE(NEW.topic_id, _entry.topic_id), 'pending');
+
+  UPDATE public.teacher_availability
+  SET is_available = false
+  WHERE teacher_id = NEW.teacher_id;
+
+  DELETE FROM public.waitlist_entries WHERE id = _entry.id;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER offer_availability_to_waitlist
+AFTER INSERT OR UPDATE OF is_available ON public.teacher_availability
+FOR EACH ROW WHEN (NEW.is_available)
+EXECUTE FUNCTION public.offer_availability_to_waitlist();
+
+-- 4. Sweep for students who left without leaving the queue
+CREATE OR REPLACE FUNCTION public.purge_stale_waitlist_entries()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.waitlist_entries WHERE last_seen_at < now() - interval '5 minutes';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.purge_stale_waitlist_entries() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'purge-stale-waitlist-entries',
+  '* * * * *',
+  $$SELECT public.purge_stale_waitlist_entries()$$
+);
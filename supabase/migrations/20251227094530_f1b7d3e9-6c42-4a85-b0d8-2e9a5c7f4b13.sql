@@ -0,0 +1,96 @@
+-- Matchmaking. "Encontrar tutor" lets the server pick the teacher for a subject/topic and
+-- send the request in one step. Available teachers are ranked by
+--
+--   0.35  average rating (teachers without ratings count as 4/5)
+--   0.30  acceptance rate of live requests over the last 30 days, smoothed so a couple of
+--         missed requests don't sink a new teacher: (accepted + 4) / (answered + 5)
+--   0.20  load: 1 / (1 + sessions started in the last 24 hours), to spread students around
+--   0.15  verification
+--
+-- with ties broken at random. The client passes the teachers that already declined or let
+-- the request time out, so falling over to the next candidate is just another call.
+
+-- 1. Ranking, internal to request_best_teacher()
+CREATE OR REPLACE FUNCTION public.rank_available_teachers(_subject_id uuid, _topic_id uuid)
+RETURNS TABLE (availability_id uuid, teacher_id uuid, score numeric)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH offers AS (
+    -- One row per teacher, preferring an offer for the exact topic over "any topic"
+    SELECT DISTINCT ON (a.teacher_id) a.id, a.teacher_id
+    FROM public.teacher_availability a
+    WHERE a.is_available
+      AND a.subject_id = _subject_id
+      AND (_topic_id IS NULL OR a.topic_id IS NULL OR a.topic_id = _topic_id)
+      AND NOT public.is_availability_stale(a.teacher_id, a.started_at)
+    ORDER BY a.teacher_id, (a.topic_id IS NOT DISTINCT FROM _topic_id) DESC
+  )
+  SELECT
+    o.id,
+    o.teacher_id,
+    0.35 * COALESCE(r.average, 4) / 5
+      + 0.30 * (COALESCE(q.accepted, 0) + 4) / (COALESCE(q.answered, 0) + 5)
+      + 0.20 / (1 + COALESCE(l.recent, 0))
+      + 0.15 * (CASE WHEN p.is_verified THEN 1 ELSE 0 END)
+  FROM offers o
+  JOIN public.profiles p ON p.id = o.teacher_id
+  LEFT JOIN LATERAL (
+    SELECT avg(rating)::numeric AS average FROM public.ratings WHERE teacher_id = o.teacher_id
+  ) r ON true
+  LEFT JOIN LATERAL (
+    SELECT
+      count(*) FILTER (WHERE started_at IS NOT NULL)::numeric AS accepted,
+      count(*)::numeric AS answered
+    FROM public.sessions
+    WHERE teacher_id = o.teacher_id
+      AND scheduled_at IS NULL
+      AND status <> 'pending'
+      AND created_at > now() - interval '30 days'
+  ) q ON true
+  LEFT JOIN LATERAL (
+    SELECT count(*) AS recent
+    FROM public.sessions
+    WHERE teacher_id = o.teacher_id AND started_at > now() - interval '24 hours'
+  ) l ON true
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.rank_available_teachers(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- 2. Claims the best teacher still free, skipping `_exclude_teacher_ids`. Candidates someone
+-- else claimed a moment ago are skipped too; the student's own errors are raised as usual.
+CREATE OR REPLACE FUNCTION public.request_best_teacher(
+  _subject_id uuid,
+  _topic_id uuid,
+  _exclude_teacher_ids uuid[]
+)
+RETURNS public.sessions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _candidate record;
+  _session public.sessions%ROWTYPE;
+BEGIN
+  FOR _candidate IN
+    SELECT availability_id
+    FROM public.rank_available_teachers(_subject_id, _topic_id)
+    WHERE teacher_id <> ALL (COALESCE(_exclude_teacher_ids, '{}'))
+    ORDER BY score DESC, random()
+  LOOP
+    BEGIN
+      _session := public.claim_teacher_availability(_candidate.availability_id);
+      RETURN _session;
+    EXCEPTION WHEN raise_exception THEN
+      IF SQLERRM NOT IN ('TEACHER_UNAVAILABLE', 'TEACHER_BUSY') THEN
+        RAISE;
+      END IF;
+    END;
+  END LOOP;
+
+  RAISE EXCEPTION 'NO_TEACHER_AVAILABLE';
+END;
+$$;
@@ -0,0 +1,13 @@
+-- Public teacher profiles. Ratings, specializations and availability are already readable;
+-- sessions are not, so the completed-session count goes through a function.
+CREATE OR REPLACE FUNCTION public.get_teacher_completed_sessions(_teacher_id uuid)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT count(*)::integer
+  FROM public.sessions
+  WHERE teacher_id = _teacher_id AND status = 'completed'
+$$;
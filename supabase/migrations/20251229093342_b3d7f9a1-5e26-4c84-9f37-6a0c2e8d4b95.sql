@@ -0,0 +1,40 @@
+-- Profile settings. Users edit their own name, bio and avatar from /settings/profile.
+-- Avatars are cropped in the browser and uploaded to a public bucket under `<user_id>/...`;
+-- limits are enforced by the bucket and mirrored in src/lib/avatars.ts.
+
+-- 1. Storage
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('avatars', 'avatars', true, 2097152, ARRAY['image/jpeg', 'image/png', 'image/webp'])
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Avatars are viewable by everyone" ON storage.objects
+FOR SELECT USING (bucket_id = 'avatars');
+
+CREATE POLICY "Users can upload their avatar" ON storage.objects
+FOR INSERT TO authenticated WITH CHECK (
+  bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+CREATE POLICY "Users can delete their avatar" ON storage.objects
+FOR DELETE TO authenticated USING (
+  bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::text
+);
+
+-- 2. Editing a profile from the client can't change the role or grant verification
+CREATE OR REPLACE FUNCTION public.protect_profile_fields()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    NEW.role := OLD.role;
+    NEW.is_verified := OLD.is_verified;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_profile_fields
+BEFORE UPDATE ON public.profiles
+FOR EACH ROW EXECUTE FUNCTION public.protect_profile_fields();